@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readAsset } from "@/lib/map-store";
+
+interface RouteContext {
+  params: Promise<{ hash: string }>;
+}
+
+// An uploaded image. Its content never changes, as the hash is of its bytes.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { hash } = await params;
+  const asset = await readAsset(hash);
+  if (!asset) {
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+  return new NextResponse(asset.bytes as Uint8Array<ArrayBuffer>, {
+    headers: {
+      "Content-Type": asset.type,
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storeAsset } from "@/lib/map-store";
+import { storeErrorResponse } from "@/app/api/store-responses";
+
+// Upload a custom asset image (the raw bytes as the body). Answers with its
+// hash, which maps refer to it by, and where it is served.
+export async function POST(request: NextRequest) {
+  try {
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    const hash = await storeAsset(bytes);
+    return NextResponse.json(
+      { hash, url: `/api/assets/${hash}` },
+      { status: 201 }
+    );
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMapHistory } from "@/lib/map-store";
+import { storeErrorResponse } from "@/app/api/store-responses";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The kept revisions of a map, newest first. Open one with
+// GET /api/maps/[id]?revision=n.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    return NextResponse.json({ revisions: await getMapHistory(id) });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
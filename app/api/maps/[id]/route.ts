@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteMap, getMap, updateMap } from "@/lib/map-store";
+import {
+  invalidBodyResponse,
+  readJsonBody,
+  storeErrorResponse,
+} from "@/app/api/store-responses";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// A map and its info, at its current revision or at ?revision=n
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const revision = request.nextUrl.searchParams.get("revision");
+  try {
+    return NextResponse.json(
+      await getMap(id, revision === null ? undefined : Number(revision))
+    );
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Save a new revision: { revision, map, name?, autosave? } where revision is
+// the one the changes are based on. Autosaves replace a recent autosaved
+// revision in the history. Answers 409 with the current revision if the map
+// has been saved since.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  if (
+    !body ||
+    !Number.isInteger(body.revision) ||
+    body.map === undefined ||
+    (body.name !== undefined && typeof body.name !== "string") ||
+    (body.autosave !== undefined && typeof body.autosave !== "boolean")
+  ) {
+    return invalidBodyResponse("the revision being replaced and a map");
+  }
+  try {
+    return NextResponse.json(
+      await updateMap(id, body.revision as number, body.map, {
+        name: body.name as string | undefined,
+        autosave: body.autosave as boolean | undefined,
+      })
+    );
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await deleteMap(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createMap, listMaps } from "@/lib/map-store";
+import {
+  invalidBodyResponse,
+  readJsonBody,
+  storeErrorResponse,
+} from "@/app/api/store-responses";
+
+// List the stored maps, most recently saved first
+export async function GET() {
+  try {
+    return NextResponse.json({ maps: await listMaps() });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Store a new map: { name, map } -> the map's info, at revision 1
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request);
+  if (!body || typeof body.name !== "string" || body.map === undefined) {
+    return invalidBodyResponse("a name and a map");
+  }
+  try {
+    const info = await createMap(body.name, body.map);
+    return NextResponse.json(info, { status: 201 });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
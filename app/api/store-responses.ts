@@ -0,0 +1,63 @@
+/**
+ * Responses shared by the map storage route handlers (lib/map-store.ts)
+ */
+
+import { NextResponse } from "next/server";
+import {
+  AssetError,
+  MapNotFoundError,
+  RevisionConflictError,
+} from "@/lib/map-store";
+import { MapValidationError } from "@/lib/map-schema";
+
+/**
+ * The response for an error thrown by the map store: 404, 409 with the
+ * current revision, 422 with the list of validation errors, or 500
+ */
+export function storeErrorResponse(error: unknown): NextResponse {
+  if (error instanceof MapNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof RevisionConflictError) {
+    return NextResponse.json(
+      { error: error.message, revision: error.revision },
+      { status: 409 }
+    );
+  }
+  if (error instanceof MapValidationError) {
+    return NextResponse.json(
+      { error: error.message, errors: error.errors },
+      { status: 422 }
+    );
+  }
+  if (error instanceof AssetError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error("Map storage error:", error);
+  return NextResponse.json(
+    { error: "The map storage failed, see the server log" },
+    { status: 500 }
+  );
+}
+
+/**
+ * The JSON body of a request, or null if it isn't JSON
+ */
+export async function readJsonBody(
+  request: Request
+): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return typeof body === "object" && body !== null && !Array.isArray(body)
+      ? body
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export const invalidBodyResponse = (expected: string) =>
+  NextResponse.json(
+    { error: `Expected a JSON body with ${expected}` },
+    { status: 400 }
+  );
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { FolderOpen, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Minimap } from "@/components/minimap";
+import { CityBuilderProvider } from "@/components/city-builder-context";
+import { deserializeMap } from "@/lib/map-serializer";
+import { MapValidationError } from "@/lib/map-schema";
+import {
+  LINKED_MAP_ID,
+  LOCAL_MAP_ID,
+  hasLinkedMap,
+  readLinkedMap,
+} from "@/lib/map-link";
+import { getServerMap } from "@/lib/map-api";
+
+// Dynamically import Phaser component to avoid SSR issues
+const IsoCityGame = dynamic(
+  () => import("@/components/iso-city-game").then((mod) => mod.IsoCityGame),
+  { ssr: false }
+);
+
+type ViewerState =
+  | { status: "loading" }
+  | { status: "choose" } // Waiting for a local file
+  | { status: "error"; errors: string[] }
+  | { status: "ready"; map: unknown; name: string; key: number };
+
+// Check the map before starting a game with it
+function mapState(data: unknown, name: string): ViewerState {
+  try {
+    deserializeMap(data);
+  } catch (error) {
+    const errors =
+      error instanceof MapValidationError
+        ? error.errors
+        : [error instanceof Error ? error.message : String(error)];
+    return { status: "error", errors };
+  }
+  return { status: "ready", map: data, name, key: Date.now() };
+}
+
+// Read-only view of a map, for sharing cities without the editor. The map is
+// in the link (/view/shared#map=...), a local file (/view/local) or a server
+// map (/view/<map id>, ?revision=n for an earlier revision). Add ?embed to
+// hide the toolbar, e.g. in an iframe.
+export default function ViewPage() {
+  const { id } = useParams<{ id: string }>();
+  const [state, setState] = useState<ViewerState>({ status: "loading" });
+  const [embedded, setEmbedded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const search = new URLSearchParams(window.location.search);
+      setEmbedded(search.has("embed"));
+      if (hasLinkedMap(window.location.hash)) {
+        try {
+          setState(
+            mapState(await readLinkedMap(window.location.hash), "Shared map")
+          );
+        } catch (error) {
+          setState({ status: "error", errors: [(error as Error).message] });
+        }
+      } else if (id === LOCAL_MAP_ID) {
+        setState({ status: "choose" });
+      } else if (id === LINKED_MAP_ID) {
+        setState({
+          status: "error",
+          errors: ["This link doesn't include a map"],
+        });
+      } else {
+        const revision = search.get("revision");
+        try {
+          const { info, map } = await getServerMap(
+            id,
+            revision === null ? undefined : Number(revision)
+          );
+          const name =
+            revision === null
+              ? info.name
+              : `${info.name} (revision ${revision})`;
+          setState(mapState(map, name));
+        } catch (error) {
+          setState({ status: "error", errors: [(error as Error).message] });
+        }
+      }
+    };
+    load();
+  }, [id]);
+
+  const handleFileLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow opening the same file again
+    if (!file) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setState({ status: "error", errors: [`${file.name} isn't JSON`] });
+      return;
+    }
+    setState(mapState(data, file.name));
+  };
+
+  return (
+    <CityBuilderProvider>
+      <div className="flex flex-col h-screen w-screen overflow-hidden bg-background">
+        {!embedded && (
+          <header className="flex items-center gap-2 border-b px-3 py-2">
+            <h1 className="font-semibold">Oasis Builder 🌴</h1>
+            {state.status === "ready" && (
+              <span className="text-sm text-muted-foreground truncate">
+                {state.name}
+              </span>
+            )}
+            <div className="ml-auto flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Open file
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/">
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Editor
+                </Link>
+              </Button>
+            </div>
+          </header>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleFileLoad}
+          className="hidden"
+        />
+
+        <main className="flex-1 relative">
+          {state.status === "ready" ? (
+            <>
+              <IsoCityGame key={state.key} readOnly map={state.map} />
+              <Minimap />
+            </>
+          ) : (
+            <div className="flex h-full items-center justify-center p-6">
+              {state.status === "loading" && (
+                <p className="text-sm text-muted-foreground">Loading map...</p>
+              )}
+              {state.status === "choose" && (
+                <div className="space-y-3 text-center">
+                  <p className="text-sm text-muted-foreground">
+                    Open a map exported from the editor to view it.
+                  </p>
+                  <Button onClick={() => fileInputRef.current?.click()}>
+                    <FolderOpen className="w-4 h-4 mr-2" />
+                    Open map file
+                  </Button>
+                </div>
+              )}
+              {state.status === "error" && (
+                <div className="max-w-md space-y-2">
+                  <p className="font-medium">The map can&apos;t be shown</p>
+                  <ul className="list-disc pl-5 text-sm text-red-500">
+                    {state.errors.slice(0, 10).map((error, i) => (
+                      <li key={i}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </main>
+      </div>
+    </CityBuilderProvider>
+  );
+}
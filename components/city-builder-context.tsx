@@ -0,0 +1,35 @@
+"use client";
+
+import { createContext, ReactNode, useContext, useState } from "react";
+import { CityBuilderController } from "@/lib/city-builder-controller";
+import { ENABLED_PLUGINS } from "@/lib/game-constants";
+import { CityBuilderPlugin } from "@/lib/plugins";
+
+const CityBuilderContext = createContext<CityBuilderController | null>(null);
+
+interface CityBuilderProviderProps {
+  children: ReactNode;
+  plugins?: CityBuilderPlugin[]; // Read once, when the provider mounts
+}
+
+// One game and the UI around it. Use a provider per game to have several on
+// a page.
+export function CityBuilderProvider({
+  children,
+  plugins = ENABLED_PLUGINS,
+}: CityBuilderProviderProps) {
+  const [controller] = useState(() => new CityBuilderController(plugins));
+  return (
+    <CityBuilderContext.Provider value={controller}>
+      {children}
+    </CityBuilderContext.Provider>
+  );
+}
+
+export function useCityBuilder(): CityBuilderController {
+  const controller = useContext(CityBuilderContext);
+  if (!controller) {
+    throw new Error("useCityBuilder must be used inside a CityBuilderProvider");
+  }
+  return controller;
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { LogOut, Users } from "lucide-react";
+import { CollabState } from "@/lib/game-types";
+import { getDefaultCollabUrl } from "@/lib/collab";
+import { useCityBuilder } from "./city-builder-context";
+
+interface CollabDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  state: CollabState | null;
+}
+
+// Last server, room and name, filled in next time
+const SETTINGS_KEY = "oasis-builder-collab";
+const ROOM_PATTERN = /^[\w-]{1,64}$/;
+
+function loadSettings() {
+  // localStorage and the page's host only exist in the browser, and the
+  // closed dialog renders nothing on the server
+  if (typeof window === "undefined") return { url: "", room: "", name: "" };
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}");
+    return {
+      url: typeof saved.url === "string" ? saved.url : getDefaultCollabUrl(),
+      room: typeof saved.room === "string" ? saved.room : "city",
+      name: typeof saved.name === "string" ? saved.name : "",
+    };
+  } catch {
+    return { url: getDefaultCollabUrl(), room: "city", name: "" };
+  }
+}
+
+function ColorDot({ color }: { color: string | null }) {
+  return (
+    <span
+      className="inline-block w-2.5 h-2.5 rounded-full flex-shrink-0"
+      style={{ backgroundColor: color ?? "transparent" }}
+    />
+  );
+}
+
+// Join a room of the collaboration server to edit the map with others live
+export function CollabDialog({ open, onOpenChange, state }: CollabDialogProps) {
+  const controller = useCityBuilder();
+  const [settings, setSettings] = useState(loadSettings);
+  const [roomError, setRoomError] = useState(false);
+
+  const update = (changes: Partial<typeof settings>) =>
+    setSettings((current) => ({ ...current, ...changes }));
+
+  const handleJoin = () => {
+    const room = settings.room.trim();
+    if (!ROOM_PATTERN.test(room)) {
+      setRoomError(true);
+      return;
+    }
+    setRoomError(false);
+    const name = settings.name.trim() || "Guest";
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, room }));
+    controller.joinCollab(settings.url.trim(), room, name);
+  };
+
+  const status = state?.status ?? "disconnected";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Collaborate</DialogTitle>
+          <DialogDescription>
+            Edit the map together with everyone in the same room of a
+            collaboration server (<code>npm run collab</code>). The first to
+            join a room brings their map; joining a room that is already open
+            replaces the open project&apos;s map with the room&apos;s.
+          </DialogDescription>
+        </DialogHeader>
+
+        {status === "disconnected" ? (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="collab-url" className="text-xs">
+                Server
+              </Label>
+              <Input
+                id="collab-url"
+                value={settings.url}
+                onChange={(e) => update({ url: e.target.value })}
+                placeholder="ws://localhost:3001"
+              />
+            </div>
+            <div className="flex gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="collab-room" className="text-xs">
+                  Room
+                </Label>
+                <Input
+                  id="collab-room"
+                  value={settings.room}
+                  onChange={(e) => update({ room: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+                />
+              </div>
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="collab-name" className="text-xs">
+                  Your name
+                </Label>
+                <Input
+                  id="collab-name"
+                  value={settings.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+                  placeholder="Guest"
+                  maxLength={40}
+                />
+              </div>
+            </div>
+            {roomError && (
+              <p className="text-sm text-red-500">
+                Room names are letters, digits, - and _ (up to 64)
+              </p>
+            )}
+            {state?.message && (
+              <p className="text-sm text-red-500">{state.message}</p>
+            )}
+            <Button onClick={handleJoin} className="w-full">
+              <Users className="w-4 h-4 mr-2" />
+              Join room
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {status === "connecting" ? "Joining" : "In"} room{" "}
+              <span className="font-medium">{state?.room}</span>
+              {status === "connecting" && "..."}
+            </p>
+            {status === "connected" && (
+              <ul className="space-y-1 text-sm">
+                <li className="flex items-center gap-2">
+                  <ColorDot color={state?.color ?? null} />
+                  {state?.name} (you)
+                </li>
+                {state?.peers.map((peer) => (
+                  <li key={peer.id} className="flex items-center gap-2">
+                    <ColorDot color={peer.color} />
+                    {peer.name}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => controller.leaveCollab()}
+              className="w-full"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              {status === "connecting" ? "Cancel" : "Leave room"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Opens the dialog, showing how many are editing while in a room
+export function CollabButton() {
+  const controller = useCityBuilder();
+  const [open, setOpen] = useState(false);
+  const [state, setState] = useState<CollabState | null>(null);
+
+  useEffect(
+    () => controller.events.on("collabChanged", setState),
+    [controller],
+  );
+
+  const connected = state?.status === "connected";
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant={connected ? "secondary" : "outline"}
+        size="sm"
+        title={connected ? `Collaborating in ${state.room}` : "Collaborate"}
+      >
+        <Users className="w-4 h-4" />
+        {connected && (
+          <span className="ml-1 text-xs tabular-nums">
+            {state.peers.length + 1}
+          </span>
+        )}
+      </Button>
+      <CollabDialog open={open} onOpenChange={setOpen} state={state} />
+    </>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, EyeOff, ImageDown } from "lucide-react";
+import { GridRect, MapLayer } from "@/lib/game-types";
+import {
+  MAX_EXPORT_PIXELS,
+  PNG_EXPORT_SCALES,
+  PngExportOptions,
+} from "@/lib/png-export";
+import { useCityBuilder } from "./city-builder-context";
+
+interface ExportPngDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layers: MapLayer[];
+  selection: GridRect | null;
+}
+
+export function ExportPngDialog({
+  open,
+  onOpenChange,
+  layers,
+  selection,
+}: ExportPngDialogProps) {
+  const controller = useCityBuilder();
+  const [scale, setScale] = useState("1");
+  const [useSelection, setUseSelection] = useState(false);
+  const [background, setBackground] =
+    useState<PngExportOptions["background"]>("transparent");
+  const [grid, setGrid] = useState(false);
+  // Layers toggled in this dialog; the others follow their visibility
+  const [layerChoices, setLayerChoices] = useState<Map<number, boolean>>(
+    new Map(),
+  );
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isIncluded = (layer: MapLayer) =>
+    layerChoices.get(layer.id) ?? layer.visible;
+  const includedLayers = layers.filter(isIncluded).map((layer) => layer.id);
+  const layerKey = includedLayers.join(",");
+
+  const region = useSelection ? selection : null;
+  const options = useMemo<PngExportOptions>(
+    () => ({
+      scale: Number(scale),
+      region,
+      background,
+      grid,
+      layers: layerKey === "" ? [] : layerKey.split(",").map(Number),
+    }),
+    [scale, region, background, grid, layerKey],
+  );
+  const size = useMemo(
+    () => (open ? controller.getPngExportSize(options) : null),
+    [controller, open, options],
+  );
+  const tooLarge =
+    size !== null && size.width * size.height > MAX_EXPORT_PIXELS;
+
+  const handleOpenChange = (next: boolean) => {
+    // Can't close while rendering, the export would download later anyway
+    if (progress) return;
+    if (!next) {
+      setLayerChoices(new Map());
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress({ done: 0, total: 1 });
+    try {
+      await controller.exportPng(options, (done, total) =>
+        setProgress({ done, total }),
+      );
+      setProgress(null);
+      handleOpenChange(false);
+    } catch (e) {
+      setProgress(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export PNG</DialogTitle>
+          <DialogDescription>
+            Render the city, or the selected part of it, as an image. Large
+            maps are drawn in pieces, which can take a while.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Area</Label>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  variant={region ? "outline" : "default"}
+                  onClick={() => setUseSelection(false)}
+                >
+                  Whole map
+                </Button>
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  variant={region ? "default" : "outline"}
+                  onClick={() => setUseSelection(true)}
+                  disabled={!selection}
+                  title={selection ? undefined : "Select an area on the map"}
+                >
+                  Selection
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Scale</Label>
+              <Select value={scale} onValueChange={setScale}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PNG_EXPORT_SCALES.map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {value}x
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Background</Label>
+              <Select
+                value={background}
+                onValueChange={(value) =>
+                  setBackground(value as PngExportOptions["background"])
+                }
+              >
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="transparent">Transparent</SelectItem>
+                  <SelectItem value="desert">Desert</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Grid lines</Label>
+              <Button
+                size="sm"
+                className="w-full"
+                variant={grid ? "default" : "outline"}
+                onClick={() => setGrid(!grid)}
+              >
+                {grid ? "Shown" : "Hidden"}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Layers</Label>
+            <div className="space-y-0.5">
+              {[...layers].reverse().map((layer) => (
+                <button
+                  key={layer.id}
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted"
+                  onClick={() =>
+                    setLayerChoices(
+                      new Map(layerChoices).set(layer.id, !isIncluded(layer)),
+                    )
+                  }
+                >
+                  {isIncluded(layer) ? (
+                    <Eye className="w-3.5 h-3.5" />
+                  ) : (
+                    <EyeOff className="w-3.5 h-3.5 text-muted-foreground" />
+                  )}
+                  <span
+                    className={
+                      isIncluded(layer) ? undefined : "text-muted-foreground"
+                    }
+                  >
+                    {layer.name}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p
+            className={`text-xs ${
+              tooLarge ? "text-red-500" : "text-muted-foreground"
+            }`}
+          >
+            {size
+              ? `${size.width} x ${size.height} pixels${
+                  tooLarge ? ", too large to export" : ""
+                }`
+              : "The game isn't ready yet."}
+          </p>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={progress !== null}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={
+              !size ||
+              tooLarge ||
+              includedLayers.length === 0 ||
+              progress !== null
+            }
+          >
+            <ImageDown className="w-4 h-4 mr-2" />
+            {progress
+              ? `Rendering ${progress.done} of ${progress.total}...`
+              : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Opens the PNG export, which can export the selection
+export function ExportPngButton({
+  layers,
+  selection,
+}: Pick<ExportPngDialogProps, "layers" | "selection">) {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="sm"
+        title="Export PNG"
+      >
+        <ImageDown className="w-4 h-4" />
+      </Button>
+      <ExportPngDialog
+        open={open}
+        onOpenChange={setOpen}
+        layers={layers}
+        selection={selection}
+      />
+    </>
+  );
+}
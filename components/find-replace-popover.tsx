@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BoxSelect, Replace, Search, X } from "lucide-react";
+import { AssetSet, GridRect, MapLayer } from "@/lib/game-types";
+import { ReplaceReport, TileSearchQuery } from "@/lib/tile-search";
+import { useCityBuilder } from "./city-builder-context";
+
+interface FindReplacePopoverProps {
+  assetSets: AssetSet[];
+  layers: MapLayer[];
+  selection: GridRect | null;
+}
+
+const ANY = "any"; // Select items can't have an empty value
+
+// Find tiles by sheet, name, layer and region, highlight them on the map and
+// replace them with another sprite. Stays open while the map is used.
+export function FindReplacePopover({
+  assetSets,
+  layers,
+  selection,
+}: FindReplacePopoverProps) {
+  const controller = useCityBuilder();
+  const [open, setOpen] = useState(false);
+  const [sheet, setSheet] = useState(ANY);
+  const [pattern, setPattern] = useState("");
+  const [layer, setLayer] = useState(ANY);
+  const [inSelection, setInSelection] = useState(false);
+  const [matches, setMatches] = useState(0);
+  const [replaceSheet, setReplaceSheet] = useState("");
+  const [replaceSprite, setReplaceSprite] = useState("");
+  const [report, setReport] = useState<ReplaceReport | null>(null);
+
+  const region = inSelection ? selection : null;
+  const query = useMemo<TileSearchQuery>(
+    () => ({
+      assetSetId: sheet === ANY ? null : sheet,
+      pattern,
+      layer: layer === ANY ? null : Number(layer),
+      region,
+    }),
+    [sheet, pattern, layer, region],
+  );
+
+  // The count follows edits made while the search is shown
+  useEffect(
+    () =>
+      controller.events.on("tileSearchChanged", (detail) =>
+        setMatches(detail.matches),
+      ),
+    [controller],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    controller.findTiles(query);
+    return () => controller.clearTileSearch();
+  }, [controller, open, query]);
+
+  const replacementSet = assetSets.find((set) => set.id === replaceSheet);
+
+  const handleReplace = () => {
+    if (!replacementSet || replaceSprite === "") return;
+    setReport(
+      controller.replaceTiles(query, replacementSet.id, Number(replaceSprite)),
+    );
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setReport(null);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" title="Find and replace tiles">
+          <Search className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        side="right"
+        align="start"
+        className="w-80 gap-3"
+        // Keep the search shown while panning and editing the map
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium">Find and replace</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => setOpen(false)}
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Sheet</Label>
+            <Select value={sheet} onValueChange={setSheet}>
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any sheet</SelectItem>
+                {assetSets.map((set) => (
+                  <SelectItem key={set.id} value={set.id}>
+                    {set.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Layer</Label>
+            <Select value={layer} onValueChange={setLayer}>
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any layer</SelectItem>
+                {layers.map((l) => (
+                  <SelectItem key={l.id} value={String(l.id)}>
+                    {l.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="find-pattern" className="text-xs">
+            Tile name
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="find-pattern"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="e.g. paving_* (empty matches all)"
+              className="h-8"
+            />
+            <Button
+              size="sm"
+              variant={inSelection ? "default" : "outline"}
+              onClick={() => setInSelection(!inSelection)}
+              disabled={!selection && !inSelection}
+              className="h-8 px-2"
+              title={
+                inSelection
+                  ? "Searching the selection"
+                  : "Search the selection only"
+              }
+            >
+              <BoxSelect className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {matches === 1 ? "1 tile matches" : `${matches} tiles match`}
+          {inSelection &&
+            (selection ? " in the selection" : ", nothing selected")}
+        </p>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Replace with</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={replaceSheet}
+              onValueChange={(value) => {
+                setReplaceSheet(value);
+                setReplaceSprite("");
+              }}
+            >
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue placeholder="Sheet" />
+              </SelectTrigger>
+              <SelectContent>
+                {assetSets.map((set) => (
+                  <SelectItem key={set.id} value={set.id}>
+                    {set.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={replaceSprite}
+              onValueChange={setReplaceSprite}
+              disabled={!replacementSet}
+            >
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue placeholder="Tile" />
+              </SelectTrigger>
+              <SelectContent>
+                {replacementSet?.sprites.map((sprite, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {sprite.name}
+                    {sprite.footprint &&
+                      ` (${sprite.footprint.width}x${sprite.footprint.height})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button
+          size="sm"
+          onClick={handleReplace}
+          disabled={matches === 0 || !replacementSet || replaceSprite === ""}
+        >
+          <Replace className="w-4 h-4 mr-2" />
+          Replace all
+        </Button>
+
+        {report && (
+          <div className="text-xs space-y-1">
+            <p>
+              Replaced {report.replaced}{" "}
+              {report.replaced === 1 ? "tile" : "tiles"}
+              {report.skipped.length > 0 &&
+                `, skipped ${report.skipped.length}:`}
+            </p>
+            {report.skipped.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto space-y-0.5 text-muted-foreground">
+                {report.skipped.map((skip) => (
+                  <li key={`${skip.x},${skip.y},${skip.layer}`}>
+                    {skip.tileName} at {skip.x}, {skip.y}: {skip.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChevronDown,
+  ChevronUp,
+  Eye,
+  EyeOff,
+  Lock,
+  LockOpen,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { MapLayer } from "@/lib/game-types";
+import { useCityBuilder } from "./city-builder-context";
+
+interface LayersPanelProps {
+  layers: MapLayer[]; // Bottom to top
+  currentLayer: number;
+}
+
+export function LayersPanel({ layers, currentLayer }: LayersPanelProps) {
+  const controller = useCityBuilder();
+
+  const handleSelect = (id: number) => {
+    controller.setLayer(id);
+  };
+
+  const handleAdd = () => {
+    controller.addLayer();
+  };
+
+  const handleRemove = (id: number) => {
+    controller.removeLayer(id);
+  };
+
+  const handleMove = (id: number, delta: number) => {
+    controller.moveLayer(id, delta);
+  };
+
+  // Listed top layer first, like the stack on screen
+  const stack = [...layers].reverse();
+  const current = layers.find((layer) => layer.id === currentLayer);
+  const currentIndex = current ? layers.indexOf(current) : -1;
+
+  return (
+    <div className="space-y-1 p-2 bg-muted rounded-md">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium flex-1">Layers</span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleAdd}
+          className="h-6 px-1.5"
+          title="Add a layer above the current one"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div className="max-h-32 overflow-y-auto space-y-0.5">
+        {stack.map((layer) => (
+          <div
+            key={layer.id}
+            className={`flex items-center gap-1 rounded px-1 ${
+              layer.id === currentLayer
+                ? "bg-background ring-1 ring-primary"
+                : "hover:bg-background/60"
+            }`}
+          >
+            <button
+              type="button"
+              className={`flex-1 text-left text-xs truncate py-1 ${
+                layer.visible ? "" : "text-muted-foreground line-through"
+              }`}
+              onClick={() => handleSelect(layer.id)}
+              title={`Edit ${layer.name}`}
+            >
+              {layer.name}
+            </button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() =>
+                controller.updateLayer(layer.id, { visible: !layer.visible })
+              }
+              title={layer.visible ? "Hide layer" : "Show layer"}
+            >
+              {layer.visible ? (
+                <Eye className="w-3.5 h-3.5" />
+              ) : (
+                <EyeOff className="w-3.5 h-3.5 text-muted-foreground" />
+              )}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() =>
+                controller.updateLayer(layer.id, { locked: !layer.locked })
+              }
+              title={layer.locked ? "Unlock layer" : "Lock layer"}
+            >
+              {layer.locked ? (
+                <Lock className="w-3.5 h-3.5" />
+              ) : (
+                <LockOpen className="w-3.5 h-3.5 text-muted-foreground" />
+              )}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {current && (
+        // Remounted when the layer changes elsewhere (undo, load) so the
+        // drafts below start from its current settings
+        <LayerSettings
+          key={`${current.id}:${current.name}:${current.heightOffset}`}
+          layer={current}
+          canMoveUp={currentIndex < layers.length - 1}
+          canMoveDown={currentIndex > 0}
+          canRemove={layers.length > 1 && !current.locked}
+          onMove={(delta) => handleMove(current.id, delta)}
+          onRemove={() => handleRemove(current.id)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface LayerSettingsProps {
+  layer: MapLayer;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  canRemove: boolean;
+  onMove: (delta: number) => void;
+  onRemove: () => void;
+}
+
+function LayerSettings({
+  layer,
+  canMoveUp,
+  canMoveDown,
+  canRemove,
+  onMove,
+  onRemove,
+}: LayerSettingsProps) {
+  const controller = useCityBuilder();
+  // Name and height are applied on blur or Enter, so typing makes one undo step
+  const [name, setName] = useState(layer.name);
+  const [height, setHeight] = useState(String(layer.heightOffset));
+  // Opacity being dragged, previewed on the map and applied on release
+  const [opacity, setOpacity] = useState<number | null>(null);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== layer.name) {
+      controller.updateLayer(layer.id, { name: trimmed });
+    } else {
+      setName(layer.name);
+    }
+  };
+
+  const commitHeight = () => {
+    const parsed = parseFloat(height);
+    if (!isNaN(parsed) && parsed !== layer.heightOffset) {
+      controller.updateLayer(layer.id, { heightOffset: parsed });
+    } else {
+      setHeight(String(layer.heightOffset));
+    }
+  };
+
+  const previewOpacity = (value: number) => {
+    setOpacity(value);
+    controller.previewLayerOpacity(layer.id, value);
+  };
+
+  const commitOpacity = () => {
+    if (opacity === null) return;
+    if (opacity !== layer.opacity) {
+      controller.updateLayer(layer.id, { opacity });
+    }
+    setOpacity(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/60">
+      <div className="flex items-center gap-1">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={handleKeyDown}
+          className="h-7 text-xs flex-1"
+          aria-label="Layer name"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 w-7 p-0"
+          onClick={() => onMove(1)}
+          disabled={!canMoveUp}
+          title="Move layer up"
+        >
+          <ChevronUp className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 w-7 p-0"
+          onClick={() => onMove(-1)}
+          disabled={!canMoveDown}
+          title="Move layer down"
+        >
+          <ChevronDown className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 w-7 p-0"
+          onClick={onRemove}
+          disabled={!canRemove}
+          title={
+            layer.locked
+              ? "Unlock the layer to delete it"
+              : "Delete layer and its tiles"
+          }
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="layer-height" className="text-xs">
+          Height
+        </Label>
+        <Input
+          id="layer-height"
+          type="number"
+          step={5}
+          value={height}
+          onChange={(e) => setHeight(e.target.value)}
+          onBlur={commitHeight}
+          onKeyDown={handleKeyDown}
+          className="h-7 w-16 text-xs"
+          title="Pixels tiles on this layer are raised by"
+        />
+        <Label htmlFor="layer-opacity" className="text-xs">
+          Opacity
+        </Label>
+        <input
+          id="layer-opacity"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          className="flex-1 min-w-0"
+          value={opacity ?? layer.opacity}
+          onChange={(e) => previewOpacity(parseFloat(e.target.value))}
+          onPointerUp={commitOpacity}
+          onKeyUp={commitOpacity}
+          onBlur={commitOpacity}
+        />
+        <span className="w-8 text-right text-xs">
+          {Math.round((opacity ?? layer.opacity) * 100)}%
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BarChart3, Download } from "lucide-react";
+import { TILE_CATEGORY_LABELS, TileCategory } from "@/lib/map-stats";
+import { useCityBuilder } from "./city-builder-context";
+
+interface MapStatsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CATEGORY_COLORS: Record<TileCategory, string> = {
+  water: "bg-sky-500",
+  road: "bg-stone-500",
+  paving: "bg-amber-400",
+  grass: "bg-lime-500",
+  other: "bg-violet-400",
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+function CountTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<{ key: string; label: string; detail?: string; count: number }>;
+}) {
+  return (
+    <div className="space-y-1 min-w-0">
+      <h4 className="text-xs font-medium">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">None</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto pr-1">
+          {rows.map((row) => (
+            <div key={row.key} className="flex gap-2 text-xs py-0.5">
+              <span className="flex-1 min-w-0 truncate">
+                {row.label}
+                {row.detail && (
+                  <span className="text-muted-foreground"> {row.detail}</span>
+                )}
+              </span>
+              <span className="tabular-nums">{row.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MapStatsDialog({ open, onOpenChange }: MapStatsDialogProps) {
+  const controller = useCityBuilder();
+  const [revision, setRevision] = useState(0);
+
+  // Recount whenever the map, its layers or the loaded sheets change
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => setRevision((r) => r + 1);
+    const unsubscribers = [
+      controller.events.on("mapChanged", refresh),
+      controller.events.on("layersChanged", refresh),
+      controller.events.on("assetSetLoaded", refresh),
+      controller.events.on("assetSetRemoved", refresh),
+      controller.events.on("gridSizeChanged", refresh),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [controller, open]);
+
+  const stats = useMemo(
+    () => (open ? controller.getMapStats() : null),
+    // revision only signals that the map changed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [controller, open, revision],
+  );
+
+  const bounds = stats?.bounds;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Map statistics</DialogTitle>
+          <DialogDescription>
+            What the city is made of. Updates as you edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!stats ? (
+          <p className="text-sm text-muted-foreground">
+            The game isn&apos;t ready yet.
+          </p>
+        ) : (
+          <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div className="p-2 bg-muted rounded-md">
+                <div className="text-xs text-muted-foreground">Tiles</div>
+                <div className="font-medium tabular-nums">{stats.tiles}</div>
+              </div>
+              <div className="p-2 bg-muted rounded-md">
+                <div className="text-xs text-muted-foreground">
+                  Covered cells
+                </div>
+                <div className="font-medium tabular-nums">
+                  {stats.cells} / {stats.gridSize * stats.gridSize}
+                </div>
+              </div>
+              <div className="p-2 bg-muted rounded-md">
+                <div className="text-xs text-muted-foreground">
+                  Built area (beyond the grass fill)
+                </div>
+                <div className="font-medium tabular-nums">
+                  {bounds
+                    ? `${bounds.maxX - bounds.minX + 1} x ${
+                        bounds.maxY - bounds.minY + 1
+                      } at ${bounds.minX}, ${bounds.minY}`
+                    : "Empty"}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium">Composition</h4>
+              <div className="flex h-3 rounded overflow-hidden bg-muted">
+                {stats.composition.map((entry) => (
+                  <div
+                    key={entry.category}
+                    className={CATEGORY_COLORS[entry.category]}
+                    style={{ width: `${entry.share * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                {stats.composition.map((entry) => (
+                  <span
+                    key={entry.category}
+                    className="flex items-center gap-1"
+                  >
+                    <span
+                      className={`w-2 h-2 rounded-sm ${
+                        CATEGORY_COLORS[entry.category]
+                      }`}
+                    />
+                    {TILE_CATEGORY_LABELS[entry.category]}{" "}
+                    {(entry.share * 100).toFixed(1)}%
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <CountTable
+                title="Layers"
+                rows={[...stats.byLayer].reverse().map((layer) => ({
+                  key: layer.id,
+                  label: layer.name,
+                  count: layer.count,
+                }))}
+              />
+              <CountTable
+                title="Sheets"
+                rows={stats.bySheet.map((sheet) => ({
+                  key: sheet.id,
+                  label: sheet.name,
+                  count: sheet.count,
+                }))}
+              />
+              <CountTable
+                title="Sprites"
+                rows={stats.bySprite.map((sprite) => ({
+                  key: `${sprite.assetSetId}/${sprite.tileName}`,
+                  label: sprite.tileName,
+                  detail: sprite.assetSetName,
+                  count: sprite.count,
+                }))}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium">
+                Largest custom sprites (texture memory)
+              </h4>
+              {stats.customSprites.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No custom sprites loaded.
+                </p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-normal">Sprite</th>
+                      <th className="text-left font-normal">Sheet</th>
+                      <th className="text-right font-normal">Size</th>
+                      <th className="text-right font-normal">Memory</th>
+                      <th className="text-right font-normal">Placed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.customSprites.map((sprite) => (
+                      <tr key={`${sprite.assetSetId}/${sprite.tileName}`}>
+                        <td className="truncate max-w-40">
+                          {sprite.tileName}
+                        </td>
+                        <td className="truncate max-w-40">
+                          {sprite.assetSetName}
+                        </td>
+                        <td className="text-right tabular-nums">
+                          {sprite.width}x{sprite.height}
+                        </td>
+                        <td className="text-right tabular-nums">
+                          {formatBytes(sprite.bytes)}
+                        </td>
+                        <td className="text-right tabular-nums">
+                          {sprite.count}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={() => controller.exportMapStats()} disabled={!stats}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Opens the map statistics
+export function MapStatsButton() {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="sm"
+        title="Map statistics"
+      >
+        <BarChart3 className="w-4 h-4" />
+      </Button>
+      <MapStatsDialog open={open} onOpenChange={setOpen} />
+    </>
+  );
+}
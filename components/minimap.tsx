@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Map as MapIcon, X } from "lucide-react";
+import {
+  GridPoint,
+  MinimapProjection,
+  createMinimapProjection,
+  toCssColor,
+} from "@/lib/minimap";
+import { useCityBuilder } from "./city-builder-context";
+
+const WIDTH = 240; // CSS pixels; the height is half of it
+const SCALE = 2; // Canvas pixels per CSS pixel, sharp on high-DPI screens
+
+// Isometric overview of the map with the camera's view. Click or drag to move
+// the camera. Cells are drawn one pixel each into an offscreen canvas that is
+// only updated where tiles change.
+export function Minimap() {
+  const controller = useCityBuilder();
+  const [open, setOpen] = useState(true);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const projectionRef = useRef<MinimapProjection | null>(null);
+  const draggingRef = useRef(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const cells = document.createElement("canvas");
+    const cellsCtx = cells.getContext("2d")!;
+    let view: GridPoint[] = [];
+    let frame = 0;
+
+    const draw = () => {
+      frame = 0;
+      const projection = projectionRef.current;
+      if (!projection) return;
+      ctx.setTransform(SCALE, 0, 0, SCALE, 0, 0);
+      ctx.clearRect(0, 0, projection.width, projection.height);
+
+      const [a, b, c, d, e, f] = projection.transform;
+      ctx.setTransform(
+        a * SCALE,
+        b * SCALE,
+        c * SCALE,
+        d * SCALE,
+        e * SCALE,
+        f * SCALE,
+      );
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(cells, 0, 0);
+
+      if (view.length === 0) return;
+      ctx.setTransform(SCALE, 0, 0, SCALE, 0, 0);
+      ctx.beginPath();
+      view.forEach((point, i) => {
+        const { x, y } = projection.toMinimap(point);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.closePath();
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+    };
+    const scheduleDraw = () => {
+      if (!frame) frame = requestAnimationFrame(draw);
+    };
+
+    // Full redraw, when the minimap opens and when the grid or the layers
+    // change. Also (re)enables tracking once the scene has started.
+    const rebuild = () => {
+      controller.setMinimapEnabled(true);
+      const gridSize = controller.getGridSize();
+      const colors = controller.getMinimapColors();
+      projectionRef.current = createMinimapProjection(gridSize, WIDTH);
+
+      cells.width = gridSize;
+      cells.height = gridSize;
+      const image = cellsCtx.createImageData(gridSize, gridSize);
+      colors.forEach((color, i) => {
+        if (color === null) return;
+        image.data[i * 4] = (color >> 16) & 0xff;
+        image.data[i * 4 + 1] = (color >> 8) & 0xff;
+        image.data[i * 4 + 2] = color & 0xff;
+        image.data[i * 4 + 3] = 255;
+      });
+      cellsCtx.putImageData(image, 0, 0);
+
+      view = controller.getCameraView() ?? [];
+      scheduleDraw();
+    };
+
+    rebuild();
+    const unsubscribers = [
+      controller.events.on("minimapChanged", (detail) => {
+        detail.cells.forEach(({ x, y, color }) => {
+          if (color === null) {
+            cellsCtx.clearRect(x, y, 1, 1);
+          } else {
+            cellsCtx.fillStyle = toCssColor(color);
+            cellsCtx.fillRect(x, y, 1, 1);
+          }
+        });
+        scheduleDraw();
+      }),
+      controller.events.on("cameraChanged", (detail) => {
+        view = detail.view;
+        scheduleDraw();
+      }),
+      controller.events.on("layersChanged", rebuild),
+      controller.events.on("gridSizeChanged", rebuild),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      cancelAnimationFrame(frame);
+      controller.setMinimapEnabled(false);
+    };
+  }, [controller, open]);
+
+  const moveCamera = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const projection = projectionRef.current;
+    if (!projection) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    controller.centerCameraOn(
+      projection.toGrid(e.clientX - rect.left, e.clientY - rect.top),
+    );
+  };
+
+  if (!open) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="absolute bottom-3 right-3 z-10"
+        onClick={() => setOpen(true)}
+        title="Show the minimap"
+      >
+        <MapIcon className="w-4 h-4 mr-2" />
+        Minimap
+      </Button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-3 right-3 z-10 rounded-md border bg-background/80 p-1 shadow-sm">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="absolute top-0.5 right-0.5 h-6 w-6 p-0"
+        onClick={() => setOpen(false)}
+        title="Hide the minimap"
+      >
+        <X className="w-3.5 h-3.5" />
+      </Button>
+      <canvas
+        ref={canvasRef}
+        width={WIDTH * SCALE}
+        height={(WIDTH / 2) * SCALE}
+        style={{ width: WIDTH, height: WIDTH / 2 }}
+        className="block cursor-crosshair touch-none"
+        onPointerDown={(e) => {
+          draggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          moveCamera(e);
+        }}
+        onPointerMove={(e) => {
+          if (draggingRef.current) moveCamera(e);
+        }}
+        onPointerUp={(e) => {
+          draggingRef.current = false;
+          e.currentTarget.releasePointerCapture(e.pointerId);
+        }}
+      />
+    </div>
+  );
+}
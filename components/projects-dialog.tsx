@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Copy,
+  FolderOpen,
+  Map as MapIcon,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { ProjectInfo } from "@/lib/game-types";
+import { useCityBuilder } from "./city-builder-context";
+
+interface ProjectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: ProjectInfo[]; // Most recently modified first
+  currentProjectId: string | null;
+}
+
+export function ProjectsDialog({
+  open,
+  onOpenChange,
+  projects,
+  currentProjectId,
+}: ProjectsDialogProps) {
+  const controller = useCityBuilder();
+  const [newName, setNewName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    await controller.createProject(newName.trim() || "Untitled");
+    setNewName("");
+    onOpenChange(false);
+  };
+
+  const handleOpen = async (id: string) => {
+    await controller.openProject(id);
+    onOpenChange(false);
+  };
+
+  const startRename = (project: ProjectInfo) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      controller.renameProject(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = (id: string) => {
+    controller.duplicateProject(id);
+  };
+
+  const handleDelete = () => {
+    if (deleteConfirmId) {
+      controller.deleteProject(deleteConfirmId);
+    }
+    setDeleteConfirmId(null);
+  };
+
+  const projectToDelete = projects.find((p) => p.id === deleteConfirmId);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Projects</DialogTitle>
+            <DialogDescription>
+              Each project is a separate map, saved automatically in this
+              browser.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New project name"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleCreate();
+              }}
+            />
+            <Button onClick={handleCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              New
+            </Button>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto space-y-2 pr-1">
+            {projects.map((project) => {
+              const isOpen = project.id === currentProjectId;
+              return (
+                <div
+                  key={project.id}
+                  className={`flex gap-3 p-2 rounded-md border ${
+                    isOpen ? "border-primary" : ""
+                  }`}
+                >
+                  {project.thumbnail ? (
+                    // eslint-disable-next-line @next/next/no-img-element -- a data URL
+                    <img
+                      src={project.thumbnail}
+                      alt=""
+                      className="w-20 h-20 flex-shrink-0 rounded bg-muted object-contain"
+                    />
+                  ) : (
+                    <div className="w-20 h-20 flex-shrink-0 rounded bg-muted flex items-center justify-center text-muted-foreground">
+                      <MapIcon className="w-6 h-6" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0 flex flex-col gap-1">
+                    {renamingId === project.id ? (
+                      <Input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename();
+                          if (e.key === "Escape") setRenamingId(null);
+                        }}
+                        className="h-7 text-sm"
+                        autoFocus
+                      />
+                    ) : (
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span
+                          className="font-medium text-sm truncate"
+                          title={project.name}
+                        >
+                          {project.name}
+                        </span>
+                        {isOpen && <Badge variant="secondary">Open</Badge>}
+                      </div>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      Edited {new Date(project.modifiedAt).toLocaleString()}
+                    </span>
+                    <div className="flex gap-1 mt-auto">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 px-2"
+                        onClick={() => handleOpen(project.id)}
+                        disabled={isOpen}
+                        title="Open project"
+                      >
+                        <FolderOpen className="w-3.5 h-3.5 mr-1" />
+                        <span className="text-xs">Open</span>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => startRename(project)}
+                        title="Rename"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleDuplicate(project.id)}
+                        title="Duplicate"
+                      >
+                        <Copy className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => setDeleteConfirmId(project.id)}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={deleteConfirmId !== null}
+        onOpenChange={(open) => !open && setDeleteConfirmId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete &quot;{projectToDelete?.name}&quot;
+              and its map. Export it first if you want to keep a copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+// Shows the open project; opens the dialog to switch or manage projects
+export function ProjectsButton() {
+  const controller = useCityBuilder();
+  const [open, setOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(
+    null,
+  );
+
+  useEffect(
+    () =>
+      controller.events.on("projectsChanged", (detail) => {
+        setProjects(detail.projects);
+        setCurrentProjectId(detail.currentProjectId);
+      }),
+    [controller],
+  );
+
+  const currentProject = projects.find((p) => p.id === currentProjectId);
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="sm"
+        className="flex-1 min-w-0 justify-start"
+        title="Open, create or manage projects"
+      >
+        <FolderOpen className="w-4 h-4 mr-2 flex-shrink-0" />
+        <span className="truncate">
+          {currentProject ? currentProject.name : "Projects"}
+        </span>
+      </Button>
+      <ProjectsDialog
+        open={open}
+        onOpenChange={setOpen}
+        projects={projects}
+        currentProjectId={currentProjectId}
+      />
+    </>
+  );
+}
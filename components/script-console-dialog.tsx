@@ -0,0 +1,271 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Play, Plus, Save, Terminal, Trash2 } from "lucide-react";
+import { SavedScript } from "@/lib/game-types";
+import { ScriptResult } from "@/lib/map-script";
+import { useCityBuilder } from "./city-builder-context";
+
+interface ScriptConsoleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXAMPLE_SCRIPT = `// Replace every paving_05 on the current layer with paving_07
+for (const tile of map.tiles({ layer: map.currentLayer, tile: "paving_05" })) {
+  map.place("paving_07", tile.x, tile.y, { sheet: tile.sheet });
+}
+`;
+
+const API_HELP = [
+  [
+    "map.size, map.currentLayer, map.layers, map.selection",
+    "Grid and editor state",
+  ],
+  ["map.get(x, y, layer?)", "Tile covering a cell, or null"],
+  [
+    "map.tiles({ layer, tile, sheet, rect }?)",
+    "Placed tiles matching a filter",
+  ],
+  ["map.cells(rect?)", "Cells of a rectangle, the selection by default"],
+  [
+    "map.place(tile, x, y, { layer, sheet, flipX }?)",
+    "Place a sprite by name",
+  ],
+  ["map.remove(x, y, layer?)", "Remove the tile covering a cell"],
+  ["map.select(rect | null)", "Select { minX, minY, maxX, maxY }"],
+  ["print(...values)", "Write to the output"],
+];
+
+export function ScriptConsoleDialog({
+  open,
+  onOpenChange,
+}: ScriptConsoleDialogProps) {
+  const controller = useCityBuilder();
+  const [scripts, setScripts] = useState<SavedScript[]>([]);
+  const [scriptId, setScriptId] = useState<string | null>(null);
+  const [name, setName] = useState("Untitled script");
+  const [code, setCode] = useState(EXAMPLE_SCRIPT);
+  const [result, setResult] = useState<ScriptResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Scripts belong to the open project, so list them each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const load = async () => {
+      const list = await controller.listScripts();
+      if (cancelled) return;
+      setScripts(list);
+      // Forget a script deleted along with its project
+      setScriptId((id) => (list.some((s) => s.id === id) ? id : null));
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [controller, open]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      setResult(await controller.runScript(code));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = await controller.saveScript({
+      id: scriptId ?? undefined,
+      name: name.trim() || "Untitled script",
+      code,
+    });
+    if (!saved) return;
+    setScriptId(saved.id);
+    setName(saved.name);
+    setScripts(await controller.listScripts());
+  };
+
+  const handleOpen = (script: SavedScript) => {
+    setScriptId(script.id);
+    setName(script.name);
+    setCode(script.code);
+    setResult(null);
+  };
+
+  const handleNew = () => {
+    setScriptId(null);
+    setName("Untitled script");
+    setCode("");
+    setResult(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    await controller.deleteScript(id);
+    if (id === scriptId) setScriptId(null);
+    setScripts(await controller.listScripts());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      if (!running) handleRun();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Script console</DialogTitle>
+          <DialogDescription>
+            Run JavaScript against the map. A run is undone in one step, and
+            changes nothing if the script throws.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4">
+          <div className="w-48 flex-shrink-0 space-y-2">
+            <Button
+              onClick={handleNew}
+              variant="outline"
+              size="sm"
+              className="w-full"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New script
+            </Button>
+            <div className="max-h-[50vh] overflow-y-auto space-y-1">
+              {scripts.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No saved scripts in this project.
+                </p>
+              ) : (
+                scripts.map((script) => (
+                  <div
+                    key={script.id}
+                    className={`group flex items-center gap-1 rounded-md border ${
+                      script.id === scriptId
+                        ? "border-primary bg-muted"
+                        : "border-transparent hover:bg-muted"
+                    }`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(script)}
+                      className="flex-1 min-w-0 p-1.5 text-left text-sm truncate"
+                    >
+                      {script.name}
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100"
+                      onClick={() => handleDelete(script.id)}
+                      title="Delete script"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Script name"
+                className="h-8"
+              />
+              <Button onClick={handleSave} variant="outline" size="sm">
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button
+                onClick={handleRun}
+                size="sm"
+                disabled={running}
+                title="Run (Ctrl+Enter)"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                {running ? "Running..." : "Run"}
+              </Button>
+            </div>
+            <Textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={handleKeyDown}
+              spellCheck={false}
+              className="font-mono text-xs min-h-64 max-h-[40vh] overflow-y-auto"
+            />
+            <div className="h-28 overflow-y-auto rounded-md bg-muted p-2 font-mono text-xs whitespace-pre-wrap">
+              {result === null ? (
+                <span className="text-muted-foreground">
+                  Output appears here.
+                </span>
+              ) : (
+                <>
+                  {result.output.map((line, i) => (
+                    <div key={i}>{line}</div>
+                  ))}
+                  {result.error ? (
+                    <div className="text-red-500">Error: {result.error}</div>
+                  ) : (
+                    <div className="text-muted-foreground">
+                      {result.changes.length} cells changed
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+            <details className="text-xs">
+              <summary className="cursor-pointer text-muted-foreground">
+                API reference
+              </summary>
+              <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                {API_HELP.map(([signature, description]) => (
+                  <div key={signature} className="contents">
+                    <dt className="font-mono">{signature}</dt>
+                    <dd className="text-muted-foreground">{description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </details>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Opens the script console
+export function ScriptConsoleButton() {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="sm"
+        title="Script console"
+      >
+        <Terminal className="w-4 h-4" />
+      </Button>
+      <ScriptConsoleDialog open={open} onOpenChange={setOpen} />
+    </>
+  );
+}
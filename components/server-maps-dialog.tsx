@@ -0,0 +1,454 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Cloud,
+  CloudAlert,
+  CloudCheck,
+  CloudUpload,
+  Eye,
+  FolderOpen,
+  History,
+  Save,
+  Trash2,
+  Unlink,
+} from "lucide-react";
+import {
+  ProjectInfo,
+  ServerMapInfo,
+  ServerMapRevision,
+  ServerSyncStatus,
+} from "@/lib/game-types";
+import { CityBuilderEvents } from "@/lib/game-events";
+import { useCityBuilder } from "./city-builder-context";
+
+interface ServerMapsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentProject: ProjectInfo | null;
+  sync: { status: ServerSyncStatus; message?: string } | null; // Of the open project
+}
+
+const SYNC_LABELS: Record<ServerSyncStatus, string> = {
+  saving: "Saving...",
+  saved: "Up to date",
+  conflict: "The server map has been saved from elsewhere since",
+  error: "Saving failed",
+};
+
+// Maps stored by the server (app/api/maps), and the server link of the open
+// project
+export function ServerMapsDialog({
+  open,
+  onOpenChange,
+  currentProject,
+  sync,
+}: ServerMapsDialogProps) {
+  const controller = useCityBuilder();
+  const [maps, setMaps] = useState<ServerMapInfo[] | null>(null);
+  const [listVersion, setListVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ServerMapRevision[] | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  // Other people save to the server too, so list the maps on every open
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const list = await controller.listServerMaps();
+        if (!cancelled) setMaps(list);
+      } catch (e) {
+        if (cancelled) return;
+        setMaps([]);
+        setError((e as Error).message);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [controller, open, listVersion]);
+
+  useEffect(() => {
+    if (!historyId) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const revisions = await controller.getServerMapHistory(historyId);
+        if (!cancelled) setHistory(revisions);
+      } catch (e) {
+        if (!cancelled) setError((e as Error).message);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [controller, historyId]);
+
+  // Run a server action, showing its error, then list the maps again
+  const run = async (action: () => Promise<unknown>, close = false) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      if (close) onOpenChange(false);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+      setListVersion((v) => v + 1);
+    }
+  };
+
+  const toggleHistory = (id: string) => {
+    setHistory(null);
+    setHistoryId(historyId === id ? null : id);
+  };
+
+  const link = currentProject?.server;
+  const linkedMap = maps?.find((map) => map.id === link?.id);
+  const mapToDelete = maps?.find((map) => map.id === deleteConfirmId);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Server maps</DialogTitle>
+            <DialogDescription>
+              Maps stored on the server, for everyone using it. A project
+              opened from or saved to the server stays linked: its autosaves
+              update the server map, keeping one revision every few minutes,
+              and Save revision keeps the current state in its history.
+            </DialogDescription>
+          </DialogHeader>
+
+          {currentProject && (
+            <div className="p-3 rounded-md border space-y-2 text-sm">
+              {link ? (
+                <>
+                  <p>
+                    <span className="font-medium">{currentProject.name}</span>{" "}
+                    is linked to{" "}
+                    {linkedMap ? `"${linkedMap.name}"` : "a server map"}, last
+                    saved as revision {link.revision}.
+                  </p>
+                  {sync && (
+                    <p
+                      className={`text-xs ${
+                        sync.status === "conflict" || sync.status === "error"
+                          ? "text-red-500"
+                          : "text-muted-foreground"
+                      }`}
+                    >
+                      {SYNC_LABELS[sync.status]}
+                      {sync.status === "error" &&
+                        sync.message &&
+                        `: ${sync.message}`}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {sync?.status === "conflict" && (
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={() => run(() => controller.reloadServerMap())}
+                          disabled={busy}
+                          title="Undoable, your version stays in the history"
+                        >
+                          Use the server&apos;s version
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            run(() => controller.overwriteServerMap())
+                          }
+                          disabled={busy}
+                        >
+                          Overwrite it with mine
+                        </Button>
+                      </>
+                    )}
+                    {sync?.status !== "conflict" && (
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          run(() => controller.saveServerRevision())
+                        }
+                        disabled={busy}
+                        title="Keep the current state in the map's history"
+                      >
+                        <Save className="w-4 h-4 mr-2" />
+                        Save revision
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => run(() => controller.saveAsServerMap())}
+                      disabled={busy}
+                    >
+                      <CloudUpload className="w-4 h-4 mr-2" />
+                      Save as new map
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => run(() => controller.unlinkServerMap())}
+                      disabled={busy}
+                      title="Stop saving this project to the server"
+                    >
+                      <Unlink className="w-4 h-4 mr-2" />
+                      Unlink
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <p className="flex-1">
+                    <span className="font-medium">{currentProject.name}</span>{" "}
+                    is only saved in this browser.
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={() => run(() => controller.saveAsServerMap())}
+                    disabled={busy}
+                  >
+                    <CloudUpload className="w-4 h-4 mr-2" />
+                    Save to server
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {maps === null ? (
+            <p className="text-sm text-muted-foreground">Loading maps...</p>
+          ) : maps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No maps on the server yet.
+            </p>
+          ) : (
+            <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-1">
+              {maps.map((map) => (
+                <div key={map.id} className="p-2 rounded-md border space-y-1">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span
+                      className="font-medium text-sm truncate"
+                      title={map.name}
+                    >
+                      {map.name}
+                    </span>
+                    {map.id === link?.id && (
+                      <Badge variant="secondary">Linked</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Revision {map.revision}, {map.tileCount} tiles, saved{" "}
+                    {new Date(map.modifiedAt).toLocaleString()}
+                  </p>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 px-2"
+                      onClick={() =>
+                        run(() => controller.openServerMap(map.id), true)
+                      }
+                      disabled={busy}
+                      title="Open as a new project linked to this map"
+                    >
+                      <FolderOpen className="w-3.5 h-3.5 mr-1" />
+                      <span className="text-xs">Open</span>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      asChild
+                    >
+                      <a
+                        href={`/view/${map.id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        title="Open in the viewer"
+                      >
+                        <Eye className="w-3.5 h-3.5" />
+                      </a>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={historyId === map.id ? "secondary" : "ghost"}
+                      className="h-7 w-7 p-0"
+                      onClick={() => toggleHistory(map.id)}
+                      title="Revisions"
+                    >
+                      <History className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => setDeleteConfirmId(map.id)}
+                      disabled={busy}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                  {historyId === map.id && (
+                    <div className="pt-1 space-y-0.5">
+                      {history === null ? (
+                        <p className="text-xs text-muted-foreground">
+                          Loading revisions...
+                        </p>
+                      ) : (
+                        history.map((revision) => (
+                          <a
+                            key={revision.revision}
+                            href={`/view/${map.id}?revision=${revision.revision}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="flex gap-2 text-xs px-1 rounded hover:bg-muted"
+                          >
+                            <span className="tabular-nums">
+                              #{revision.revision}
+                            </span>
+                            <span className="flex-1 truncate">
+                              {revision.name}
+                              {revision.autosavedSince && (
+                                <span className="text-muted-foreground">
+                                  {" "}
+                                  (autosave)
+                                </span>
+                              )}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {revision.tileCount} tiles,{" "}
+                              {new Date(revision.modifiedAt).toLocaleString()}
+                            </span>
+                          </a>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={deleteConfirmId !== null}
+        onOpenChange={(open) => !open && setDeleteConfirmId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete server map?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete &quot;{mapToDelete?.name}&quot; and
+              all its revisions from the server, for everyone. Projects linked
+              to it keep their copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const id = deleteConfirmId;
+                setDeleteConfirmId(null);
+                if (id) run(() => controller.deleteServerMap(id));
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+// Shows whether the open project is saved to the server; opens the dialog
+export function ServerMapsButton() {
+  const controller = useCityBuilder();
+  const [open, setOpen] = useState(false);
+  const [currentProject, setCurrentProject] = useState<ProjectInfo | null>(
+    null,
+  );
+  const [serverSync, setServerSync] = useState<
+    CityBuilderEvents["serverSyncChanged"] | null
+  >(null);
+
+  useEffect(() => {
+    const unsubscribers = [
+      controller.events.on("projectsChanged", (detail) => {
+        setCurrentProject(
+          detail.projects.find((p) => p.id === detail.currentProjectId) ??
+            null,
+        );
+      }),
+      controller.events.on("serverSyncChanged", setServerSync),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [controller]);
+
+  const sync =
+    currentProject?.server && serverSync?.projectId === currentProject.id
+      ? serverSync
+      : null;
+  const failed = sync?.status === "conflict" || sync?.status === "error";
+  const Icon = !currentProject?.server
+    ? Cloud
+    : failed
+      ? CloudAlert
+      : sync?.status === "saving"
+        ? CloudUpload
+        : CloudCheck;
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="sm"
+        title="Server maps"
+      >
+        <Icon className={`w-4 h-4 ${failed ? "text-red-500" : ""}`} />
+      </Button>
+      <ServerMapsDialog
+        open={open}
+        onOpenChange={setOpen}
+        currentProject={currentProject}
+        sync={sync}
+      />
+    </>
+  );
+}
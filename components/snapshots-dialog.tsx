@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { History, Map as MapIcon } from "lucide-react";
+import { SnapshotInfo } from "@/lib/game-types";
+import { useCityBuilder } from "./city-builder-context";
+
+interface SnapshotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export function SnapshotsDialog({ open, onOpenChange }: SnapshotsDialogProps) {
+  const controller = useCityBuilder();
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  // Autosaves add snapshots, so list them each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const load = async () => {
+      const list = await controller.listSnapshots();
+      if (cancelled) return;
+      setSnapshots(list);
+      setSelectedId(list[0]?.id ?? null);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [controller, open]);
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    setRestoring(true);
+    try {
+      await controller.restoreSnapshot(selectedId);
+    } finally {
+      setRestoring(false);
+    }
+    onOpenChange(false);
+  };
+
+  const selected = snapshots?.find((s) => s.id === selectedId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Restore snapshot</DialogTitle>
+          <DialogDescription>
+            Autosaves of this project: the most recent ones, plus the last one
+            of each recent hour and day. Restoring can be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {snapshots === null ? (
+          <p className="text-sm text-muted-foreground">Loading snapshots...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No snapshots yet. One is taken every few minutes while you edit.
+          </p>
+        ) : (
+          <div className="flex gap-4">
+            <div className="flex-1 max-h-[60vh] overflow-y-auto space-y-1 pr-1">
+              {snapshots.map((snapshot) => (
+                <button
+                  key={snapshot.id}
+                  type="button"
+                  onClick={() => setSelectedId(snapshot.id)}
+                  className={`w-full flex items-center gap-3 p-1.5 rounded-md border text-left ${
+                    snapshot.id === selectedId
+                      ? "border-primary bg-muted"
+                      : "border-transparent hover:bg-muted"
+                  }`}
+                >
+                  {snapshot.thumbnail ? (
+                    // eslint-disable-next-line @next/next/no-img-element -- a data URL
+                    <img
+                      src={snapshot.thumbnail}
+                      alt=""
+                      className="w-10 h-10 flex-shrink-0 rounded bg-muted object-contain"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 flex-shrink-0 rounded bg-muted" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-sm">
+                      {new Date(snapshot.timestamp).toLocaleString()}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {snapshot.tileCount} tiles, {formatSize(snapshot.size)}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="w-56 flex-shrink-0 space-y-2">
+              {selected?.thumbnail ? (
+                // eslint-disable-next-line @next/next/no-img-element -- a data URL
+                <img
+                  src={selected.thumbnail}
+                  alt="Snapshot preview"
+                  className="w-56 h-56 rounded-md bg-muted object-contain"
+                />
+              ) : (
+                <div className="w-56 h-56 rounded-md bg-muted flex items-center justify-center text-muted-foreground">
+                  <MapIcon className="w-8 h-8" />
+                </div>
+              )}
+              {selected && (
+                <p className="text-xs text-muted-foreground">
+                  {new Date(selected.timestamp).toLocaleString()}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleRestore} disabled={!selected || restoring}>
+            <History className="w-4 h-4 mr-2" />
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Opens the dialog to restore an earlier autosave
+export function SnapshotsButton() {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="sm"
+        title="Restore an earlier autosave"
+      >
+        <History className="w-4 h-4" />
+      </Button>
+      <SnapshotsDialog open={open} onOpenChange={setOpen} />
+    </>
+  );
+}
@@ -10,7 +10,6 @@ import {
   DialogContent,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
   DialogFooter,
   DialogClose,
 } from "@/components/ui/dialog";
@@ -23,7 +22,22 @@ import {
   Upload,
 } from "lucide-react";
 import { processImageForIsometric } from "@/lib/image-processing";
+import { parseAutoTileRule } from "@/lib/autotile";
+import {
+  ROTATION_DIRECTIONS,
+  RotationDirection,
+  parseRotationVariant,
+} from "@/lib/rotation";
+import { SpriteData } from "@/lib/game-types";
 import { SpritePreviewCanvas } from "@/components/sprite-preview-canvas";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCityBuilder } from "@/components/city-builder-context";
 
 interface SpritePackerProps {
   onAssetAdded?: () => void;
@@ -36,6 +50,7 @@ export function SpritePacker({
   addToAssetId,
   onClose,
 }: SpritePackerProps) {
+  const controller = useCityBuilder();
   const [open, setOpen] = useState(false);
   const [activeAddToAssetId, setActiveAddToAssetId] = useState<string | null>(
     null,
@@ -70,6 +85,9 @@ export function SpritePacker({
   const [originX, setOriginX] = useState(0.5);
   const [originY, setOriginY] = useState(0.85);
   const [spriteScale, setSpriteScale] = useState(1.0);
+  // Directional variant: sprites of one group are rotations of each other
+  const [rotationGroup, setRotationGroup] = useState("");
+  const [rotation, setRotation] = useState<RotationDirection | "none">("none");
   const [apiKey, setApiKey] = useState("");
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
 
@@ -276,14 +294,7 @@ export function SpritePacker({
         return;
       }
 
-      const sprites: Array<{
-        name: string;
-        x: number;
-        y: number;
-        width: number;
-        height: number;
-        footprint?: { width: number; height: number };
-      }> = [];
+      const sprites: SpriteData[] = [];
 
       subtextures.forEach((subtexture) => {
         const name = subtexture.getAttribute("name") || "";
@@ -304,6 +315,8 @@ export function SpritePacker({
             fpWidth && fpHeight
               ? { width: parseInt(fpWidth), height: parseInt(fpHeight) }
               : undefined,
+          autotile: parseAutoTileRule(subtexture),
+          rotation: parseRotationVariant(subtexture),
         });
       });
 
@@ -343,6 +356,10 @@ export function SpritePacker({
             : undefined,
         // Use the user-adjusted origin values
         origin: { x: originX, y: originY },
+        rotation:
+          rotationGroup.trim() && rotation !== "none"
+            ? { group: rotationGroup.trim(), direction: rotation }
+            : undefined,
       },
     ];
 
@@ -353,51 +370,42 @@ export function SpritePacker({
   const addAssetToGame = async (
     name: string,
     imageDataUrl: string,
-    sprites: Array<{
-      name: string;
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-      footprint?: { width: number; height: number };
-      origin?: { x: number; y: number };
-    }>,
+    sprites: SpriteData[],
   ) => {
+    if (!controller.ready) {
+      setError("Game not ready");
+      return;
+    }
+
     // If adding to existing asset, use the add sprite function
     if (isAddingToExisting && activeAddToAssetId) {
-      const addSpriteToAsset = (window as any).phaserAddSpriteToAsset;
-      if (addSpriteToAsset) {
-        const success = await addSpriteToAsset(
-          activeAddToAssetId,
-          imageDataUrl,
-          sprites[0],
-        );
-        if (success) {
-          handleClose();
-          onAssetAdded?.();
-        } else {
-          setError("Failed to add sprite to asset");
-        }
+      const success = await controller.addSpriteToAsset(
+        activeAddToAssetId,
+        imageDataUrl,
+        sprites[0],
+      );
+      if (success) {
+        handleClose();
+        onAssetAdded?.();
       } else {
-        setError("Game not ready");
+        setError("Failed to add sprite to asset");
       }
       return;
     }
 
     // Otherwise create a new asset set
     const id = name.toLowerCase().replace(/\s+/g, "_");
-    const addCustomAsset = (window as any).phaserAddCustomAsset;
-
-    if (addCustomAsset) {
-      const success = await addCustomAsset(id, name, imageDataUrl, sprites);
-      if (success) {
-        handleClose();
-        onAssetAdded?.();
-      } else {
-        setError("Failed to add asset to game");
-      }
+    const success = await controller.addCustomAsset(
+      id,
+      name,
+      imageDataUrl,
+      sprites,
+    );
+    if (success) {
+      handleClose();
+      onAssetAdded?.();
     } else {
-      setError("Game not ready");
+      setError("Failed to add asset to game");
     }
   };
 
@@ -417,6 +425,8 @@ export function SpritePacker({
     setOriginX(0.5);
     setOriginY(0.85);
     setSpriteScale(1.0);
+    setRotationGroup("");
+    setRotation("none");
   };
 
   return (
@@ -542,7 +552,10 @@ export function SpritePacker({
                 {`<TextureAtlas>
   <SubTexture name="tile.png" x="0" y="0" width="132" height="66"/>
   <SubTexture name="building.png" x="132" y="0" width="132" height="200"
-              footprintWidth="2" footprintHeight="2"/>
+              footprintWidth="2" footprintHeight="2"
+              rotationGroup="building" rotation="N"/>
+  <SubTexture name="building_e.png" x="264" y="0" width="132" height="200"
+              rotationGroup="building" rotation="E"/>
 </TextureAtlas>`}
               </pre>
             </div>
@@ -597,6 +610,47 @@ export function SpritePacker({
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm">Rotation group</Label>
+                <Input
+                  value={rotationGroup}
+                  onChange={(e) => setRotationGroup(e.target.value)}
+                  placeholder="e.g. city_hall"
+                  className="mt-1"
+                  title="Sprites of the same group are rotations of one object"
+                />
+              </div>
+              <div>
+                <Label className="text-sm">Facing</Label>
+                <Select
+                  value={rotation}
+                  onValueChange={(value) =>
+                    setRotation(value as RotationDirection | "none")
+                  }
+                >
+                  <SelectTrigger className="mt-1 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not rotatable</SelectItem>
+                    {ROTATION_DIRECTIONS.map((direction) => (
+                      <SelectItem key={direction} value={direction}>
+                        {direction}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {rotation !== "none" && !rotationGroup.trim() && (
+              <p className="text-xs text-muted-foreground">
+                Name a rotation group to make this sprite a directional
+                variant. Add the other directions to the same asset with the
+                same group.
+              </p>
+            )}
+
             <div className="border rounded-lg p-4 space-y-3">
               <div className="flex items-center justify-between">
                 <Label className="text-sm font-medium">
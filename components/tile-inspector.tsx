@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { FlipHorizontal2, Pin, PinOff, ScanSearch, X } from "lucide-react";
+import { InspectedTile, TileInstanceChanges } from "@/lib/game-types";
+import { CityBuilderEvents } from "@/lib/game-events";
+import { useCityBuilder } from "./city-builder-context";
+
+type InspectorState = CityBuilderEvents["inspectorChanged"];
+
+const toHexColor = (tint: number) => `#${tint.toString(16).padStart(6, "0")}`;
+
+export function TileInspector() {
+  const controller = useCityBuilder();
+  const [open, setOpen] = useState(false);
+  const [state, setState] = useState<InspectorState | null>(null);
+
+  useEffect(() => controller.events.on("inspectorChanged", setState), [
+    controller,
+  ]);
+
+  // The scene only reports cell contents while the panel is open
+  useEffect(() => {
+    controller.setInspectorEnabled(open);
+  }, [controller, open]);
+
+  const handleTogglePin = () => {
+    controller.setInspectorPinned(!state?.pinned);
+  };
+
+  const updateTile = (key: string, changes: TileInstanceChanges) => {
+    controller.updateTileInstance(key, changes);
+  };
+
+  const handleOriginChange = (
+    tile: InspectedTile,
+    axis: "x" | "y",
+    value: string,
+  ) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    updateTile(tile.key, { origin: { ...tile.origin, [axis]: parsed } });
+  };
+
+  if (!open) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="absolute top-3 right-3 z-10"
+        onClick={() => setOpen(true)}
+        title="Inspect the tiles under the cursor"
+      >
+        <ScanSearch className="w-4 h-4 mr-2" />
+        Inspector
+      </Button>
+    );
+  }
+
+  return (
+    <Card className="absolute top-3 right-3 z-10 w-72 max-h-[calc(100%-1.5rem)] flex flex-col">
+      <CardHeader className="pb-2 flex flex-row items-center gap-2 space-y-0">
+        <CardTitle className="text-sm flex-1">
+          {state ? `Cell (${state.x}, ${state.y})` : "Inspector"}
+        </CardTitle>
+        <Button
+          size="sm"
+          variant={state?.pinned ? "default" : "ghost"}
+          className="h-7 w-7 p-0"
+          onClick={handleTogglePin}
+          title={
+            state?.pinned
+              ? "Unpin (follow the cursor again)"
+              : "Pin this cell (or click a cell with the select tool)"
+          }
+        >
+          {state?.pinned ? (
+            <PinOff className="w-3.5 h-3.5" />
+          ) : (
+            <Pin className="w-3.5 h-3.5" />
+          )}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          onClick={() => setOpen(false)}
+          title="Close inspector"
+        >
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3 overflow-auto text-xs">
+        {!state || state.tiles.length === 0 ? (
+          <p className="text-muted-foreground">
+            {state ? "Empty cell" : "Hover over the map to inspect a cell."}
+          </p>
+        ) : (
+          state.tiles.map((tile) => (
+            <div key={tile.key} className="space-y-2 p-2 bg-muted rounded-md">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{tile.layerName}</Badge>
+                <span className="font-medium truncate" title={tile.tileName}>
+                  {tile.tileName}
+                </span>
+              </div>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-muted-foreground">
+                <dt>Asset set</dt>
+                <dd className="truncate">
+                  {tile.assetSetName ?? `${tile.textureKey} (not loaded)`}
+                </dd>
+                <dt>Footprint</dt>
+                <dd>
+                  {tile.footprint.width}x{tile.footprint.height}
+                </dd>
+                <dt>Anchor</dt>
+                <dd>
+                  {tile.isAnchor
+                    ? "Yes"
+                    : `No, part of (${tile.anchorKey.split(",").slice(0, 2).join(", ")})`}
+                </dd>
+                <dt>Depth</dt>
+                <dd>{tile.depth}</dd>
+              </dl>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor={`${tile.key}-origin-x`} className="text-xs">
+                    Origin X
+                  </Label>
+                  <Input
+                    id={`${tile.key}-origin-x`}
+                    type="number"
+                    step={0.05}
+                    className="h-7 text-xs"
+                    value={tile.origin.x}
+                    onChange={(e) =>
+                      handleOriginChange(tile, "x", e.target.value)
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`${tile.key}-origin-y`} className="text-xs">
+                    Origin Y
+                  </Label>
+                  <Input
+                    id={`${tile.key}-origin-y`}
+                    type="number"
+                    step={0.05}
+                    className="h-7 text-xs"
+                    value={tile.origin.y}
+                    onChange={(e) =>
+                      handleOriginChange(tile, "y", e.target.value)
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant={tile.flipX ? "default" : "outline"}
+                  className="h-7 px-2"
+                  onClick={() => updateTile(tile.key, { flipX: !tile.flipX })}
+                  title="Flip horizontally"
+                >
+                  <FlipHorizontal2 className="w-3.5 h-3.5 mr-1" />
+                  Flip
+                </Button>
+                <Label htmlFor={`${tile.key}-tint`} className="text-xs ml-auto">
+                  Tint
+                </Label>
+                <input
+                  id={`${tile.key}-tint`}
+                  type="color"
+                  className="h-7 w-9 rounded border bg-transparent cursor-pointer"
+                  value={tile.tint !== null ? toHexColor(tile.tint) : "#ffffff"}
+                  onChange={(e) =>
+                    updateTile(tile.key, {
+                      tint: parseInt(e.target.value.slice(1), 16),
+                    })
+                  }
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2"
+                  disabled={tile.tint === null}
+                  onClick={() => updateTile(tile.key, { tint: null })}
+                  title="Remove tint"
+                >
+                  Clear
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${tile.key}-alpha`} className="text-xs">
+                  Alpha
+                </Label>
+                <input
+                  id={`${tile.key}-alpha`}
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  className="flex-1"
+                  value={tile.alpha}
+                  onChange={(e) =>
+                    updateTile(tile.key, { alpha: parseFloat(e.target.value) })
+                  }
+                />
+                <span className="w-8 text-right">
+                  {Math.round(tile.alpha * 100)}%
+                </span>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,20 @@ import {
   Grid3X3,
   Expand,
   Trash2,
+  Undo2,
+  Redo2,
+  Brush,
+  SquareDashed,
+  PaintBucket,
+  Wand2,
+  BoxSelect,
+  Copy,
+  Scissors,
+  ClipboardPaste,
+  Eraser,
+  Layers,
+  Stamp,
+  Pipette,
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -38,7 +52,29 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { SpritePacker } from "./sprite-packer";
-import { SpriteData, AssetSet } from "@/lib/game-types";
+import { LayersPanel } from "./layers-panel";
+import { ProjectsButton } from "./projects-dialog";
+import { SnapshotsButton } from "./snapshots-dialog";
+import { ScriptConsoleButton } from "./script-console-dialog";
+import { FindReplacePopover } from "./find-replace-popover";
+import { MapStatsButton } from "./map-stats-dialog";
+import { ExportPngButton } from "./export-png-dialog";
+import { ServerMapsButton } from "./server-maps-dialog";
+import { CollabButton } from "./collab-dialog";
+import { ViewerLinkButton } from "./viewer-link-button";
+import { useCityBuilder } from "./city-builder-context";
+import {
+  SpriteData,
+  AssetSet,
+  GridRect,
+  MapLayer,
+  Prefab,
+  ToolMode,
+} from "@/lib/game-types";
+import { HistoryState } from "@/lib/command-history";
+import { MapValidationError } from "@/lib/map-schema";
+import { CityBuilderEvents } from "@/lib/game-events";
+import { pluginToolId } from "@/lib/plugins";
 
 interface AssetSetWithPreviews extends AssetSet {
   previews: string[];
@@ -47,26 +83,42 @@ interface AssetSetWithPreviews extends AssetSet {
 }
 
 interface TileSelectorProps {
-  onTileSelect: (index: number) => void;
+  onTileSelect?: (index: number) => void;
 }
 
-// Map texture keys to image paths
-const TEXTURE_TO_IMAGE: Record<string, string> = {
-  texture_waters: "/assets/waters_sheet.png",
-  texture_roads: "/assets/roads_sheet.png",
-  texture_floors: "/assets/floors_sheet.png",
-};
+const TOOLS: Array<{ id: ToolMode; label: string; icon: typeof Brush }> = [
+  { id: "brush", label: "Brush (drag to paint)", icon: Brush },
+  { id: "rectangle", label: "Rectangle fill", icon: SquareDashed },
+  { id: "fill", label: "Flood fill", icon: PaintBucket },
+  {
+    id: "select",
+    label: "Select (drag to select, drag inside to move)",
+    icon: BoxSelect,
+  },
+  { id: "eyedropper", label: "Eyedropper (I, or Alt+click)", icon: Pipette },
+];
+
+// Tab value of the prefab library (asset set ids are slugs, so this can't clash)
+const PREFABS_TAB = "__prefabs__";
 
 export function TileSelector({ onTileSelect }: TileSelectorProps) {
+  const controller = useCityBuilder();
   const [assetSets, setAssetSets] = useState<Map<string, AssetSetWithPreviews>>(
     new Map(),
   );
   const [selectedAssetSetId, setSelectedAssetSetId] = useState<string>("");
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [layers, setLayers] = useState<MapLayer[]>([]);
   const [currentLayer, setCurrentLayer] = useState(0);
+  const [currentTool, setCurrentTool] = useState<ToolMode>("brush");
+  const [autoTile, setAutoTile] = useState(false);
   const [gridPosition, setGridPosition] = useState({ x: 0, y: 0 });
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [addToAssetId, setAddToAssetId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<{
+    fileName: string;
+    errors: string[];
+  } | null>(null);
   const [gridVisible, setGridVisible] = useState(true);
   const [gridSize, setGridSize] = useState(50);
   const [newTabDialogOpen, setNewTabDialogOpen] = useState(false);
@@ -75,18 +127,36 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
     assetSetId: string;
     spriteIndex: number;
   } | null>(null);
+  const [history, setHistory] = useState<HistoryState>({
+    canUndo: false,
+    canRedo: false,
+    undoLabel: null,
+    redoLabel: null,
+  });
+  const [selection, setSelection] = useState<GridRect | null>(null);
+  const [selectionAllLayers, setSelectionAllLayers] = useState(false);
+  const [pasting, setPasting] = useState(false);
+  const [prefabs, setPrefabs] = useState<Prefab[]>([]);
+  const [selectedPrefabId, setSelectedPrefabId] = useState<string | null>(
+    null,
+  );
+  const [prefabDialogOpen, setPrefabDialogOpen] = useState(false);
+  const [prefabName, setPrefabName] = useState("");
+  const [placement, setPlacement] = useState<{
+    direction: string | null;
+    flipX: boolean;
+  }>({ direction: null, flipX: false });
+  const [scrollTarget, setScrollTarget] = useState<{
+    assetSetId: string;
+    index: number;
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const handleAssetSetLoaded = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const assetSet: AssetSet = customEvent.detail.assetSet;
-
-      // Use imagePath from event if provided (for custom assets), otherwise determine from texture key
-      const imagePath =
-        customEvent.detail.imagePath ||
-        TEXTURE_TO_IMAGE[assetSet.textureKey] ||
-        `/assets/${assetSet.id}_sheet.png`;
+    const handleAssetSetLoaded = (
+      detail: CityBuilderEvents["assetSetLoaded"],
+    ) => {
+      const { assetSet, imagePath } = detail;
 
       // Generate previews asynchronously
       generatePreviews(assetSet.sprites, imagePath).then((previews) => {
@@ -96,7 +166,7 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
             ...assetSet,
             previews,
             imagePath,
-            isCustom: !TEXTURE_TO_IMAGE[assetSet.textureKey],
+            isCustom: !!assetSet.isCustom,
           } as AssetSetWithPreviews);
           return newMap;
         });
@@ -106,9 +176,10 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
       setSelectedAssetSetId((current) => current || assetSet.id);
     };
 
-    const handleAssetSetRemoved = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const { id } = customEvent.detail;
+    const handleAssetSetRemoved = (
+      detail: CityBuilderEvents["assetSetRemoved"],
+    ) => {
+      const { id } = detail;
       setAssetSets((prev) => {
         const newMap = new Map(prev);
         newMap.delete(id);
@@ -125,37 +196,104 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
       });
     };
 
-    const handleGridPositionChange = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      setGridPosition(customEvent.detail);
+    const handleGridPositionChange = (
+      detail: CityBuilderEvents["gridPositionChanged"],
+    ) => {
+      setGridPosition(detail);
     };
 
-    const handleGridSizeChanged = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      setGridSize(customEvent.detail.gridSize);
+    const handleGridSizeChanged = (
+      detail: CityBuilderEvents["gridSizeChanged"],
+    ) => {
+      setGridSize(detail.gridSize);
     };
 
-    window.addEventListener("phaserAssetSetLoaded", handleAssetSetLoaded);
-    window.addEventListener("phaserAssetSetRemoved", handleAssetSetRemoved);
-    window.addEventListener("gridPositionChange", handleGridPositionChange);
-    window.addEventListener("phaserGridSizeChanged", handleGridSizeChanged);
+    const handleHistoryChanged = (
+      detail: CityBuilderEvents["historyChanged"],
+    ) => {
+      setHistory(detail);
+    };
 
-    return () => {
-      window.removeEventListener("phaserAssetSetLoaded", handleAssetSetLoaded);
-      window.removeEventListener(
-        "phaserAssetSetRemoved",
-        handleAssetSetRemoved,
-      );
-      window.removeEventListener(
-        "gridPositionChange",
-        handleGridPositionChange,
-      );
-      window.removeEventListener(
-        "phaserGridSizeChanged",
-        handleGridSizeChanged,
+    const handleSelectionChanged = (
+      detail: CityBuilderEvents["selectionChanged"],
+    ) => {
+      setSelection(detail.selection);
+      setSelectionAllLayers(detail.allLayers);
+      setPasting(detail.pasting);
+    };
+
+    const handleLayersChanged = (
+      detail: CityBuilderEvents["layersChanged"],
+    ) => {
+      setLayers(detail.layers);
+      setCurrentLayer(detail.currentLayer);
+    };
+
+    const handlePlacementChanged = (
+      detail: CityBuilderEvents["placementChanged"],
+    ) => {
+      setPlacement(detail);
+    };
+
+    const handleToolChanged = (detail: CityBuilderEvents["toolChanged"]) => {
+      setCurrentTool(detail.tool);
+    };
+
+    // Eyedropper picked a tile on the map
+    const handleTilePicked = (detail: CityBuilderEvents["tilePicked"]) => {
+      const { assetSetId, index } = detail;
+      setSelectedAssetSetId(assetSetId);
+      setSelectedIndex(index);
+      setSelectedPrefabId(null);
+      setScrollTarget({ assetSetId, index });
+    };
+
+    // A project or snapshot the scene couldn't load, shown like a rejected file
+    const handleMapLoadFailed = (
+      detail: CityBuilderEvents["mapLoadFailed"],
+    ) => {
+      setImportError({ fileName: detail.source, errors: detail.errors });
+    };
+
+    const handlePrefabsChanged = (
+      detail: CityBuilderEvents["prefabsChanged"],
+    ) => {
+      const updated = detail.prefabs;
+      setPrefabs(updated);
+      setSelectedPrefabId((current) =>
+        current && updated.some((p) => p.id === current) ? current : null,
       );
     };
-  }, [assetSets]);
+
+    const unsubscribers = [
+      controller.events.on("assetSetLoaded", handleAssetSetLoaded),
+      controller.events.on("assetSetRemoved", handleAssetSetRemoved),
+      controller.events.on("gridPositionChanged", handleGridPositionChange),
+      controller.events.on("gridSizeChanged", handleGridSizeChanged),
+      controller.events.on("historyChanged", handleHistoryChanged),
+      controller.events.on("selectionChanged", handleSelectionChanged),
+      controller.events.on("prefabsChanged", handlePrefabsChanged),
+      controller.events.on("toolChanged", handleToolChanged),
+      controller.events.on("placementChanged", handlePlacementChanged),
+      controller.events.on("layersChanged", handleLayersChanged),
+      controller.events.on("tilePicked", handleTilePicked),
+      controller.events.on("mapLoadFailed", handleMapLoadFailed),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [controller, assetSets]);
+
+  // Scroll a picked tile (and its tab) into view once its tab has rendered
+  useEffect(() => {
+    if (!scrollTarget) return;
+    const { assetSetId, index } = scrollTarget;
+    document
+      .querySelector(`[data-tab-id="${CSS.escape(assetSetId)}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+    document
+      .querySelector(`[data-tile-id="${CSS.escape(`${assetSetId}:${index}`)}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [scrollTarget, selectedAssetSetId]);
 
   const generatePreviews = async (
     sprites: SpriteData[],
@@ -202,63 +340,125 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
   const handleTileClick = (tileIndex: number, assetSetId: string) => {
     setSelectedIndex(tileIndex);
     setSelectedAssetSetId(assetSetId);
-    onTileSelect(tileIndex);
+    setSelectedPrefabId(null);
+    onTileSelect?.(tileIndex);
+
+    controller.setSelectedTile(tileIndex, assetSetId);
+  };
 
-    if ((window as any).phaserSetSelectedTile) {
-      (window as any).phaserSetSelectedTile(tileIndex, assetSetId);
+  const handlePrefabClick = (id: string) => {
+    setSelectedPrefabId(id);
+    controller.setSelectedPrefab(id);
+    // Prefabs are placed with the painting tools
+    if (currentTool === "select") {
+      handleToolChange("brush");
     }
   };
 
-  const handleLayerChange = (delta: number) => {
-    const newLayer = Math.max(0, Math.min(currentLayer + delta, 10));
-    setCurrentLayer(newLayer);
-    if ((window as any).phaserSetLayer) {
-      (window as any).phaserSetLayer(newLayer);
+  const handleCreatePrefab = async () => {
+    const name = prefabName.trim();
+    if (!name) return;
+
+    const prefab = await controller.createPrefab(name);
+    if (!prefab) {
+      alert("The selection is empty. Select some placed tiles first.");
+      return;
     }
+
+    setPrefabDialogOpen(false);
+    setPrefabName("");
+  };
+
+  const handleDeletePrefab = (id: string) => {
+    controller.deletePrefab(id);
+  };
+
+  const handleToolChange = (tool: ToolMode) => {
+    setCurrentTool(tool);
+    controller.setTool(tool);
+  };
+
+  const handleToggleAutoTile = () => {
+    const enabled = !autoTile;
+    setAutoTile(enabled);
+    controller.setAutoTile(enabled);
+  };
+
+  const handleCopy = () => {
+    controller.copySelection();
+  };
+
+  const handleCut = () => {
+    controller.cutSelection();
+  };
+
+  const handlePaste = () => {
+    controller.pasteClipboard();
+  };
+
+  const handleDeleteSelection = () => {
+    controller.deleteSelection();
+  };
+
+  const handleToggleSelectionAllLayers = () => {
+    controller.setSelectionAllLayers(!selectionAllLayers);
   };
 
   const handleExport = () => {
-    if ((window as any).phaserExportMap) {
-      (window as any).phaserExportMap();
-    }
+    controller.exportMap();
+  };
+
+  const handleUndo = () => {
+    controller.undo();
+  };
+
+  const handleRedo = () => {
+    controller.redo();
   };
 
   const handleImport = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileLoad = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const jsonData = JSON.parse(e.target?.result as string);
-        if ((window as any).phaserLoadMap) {
-          (window as any).phaserLoadMap(jsonData);
-        }
-      } catch (error) {
-        console.error("Error loading map file:", error);
-        alert("Error loading map file. Please check the file format.");
-      }
-    };
-    reader.readAsText(file);
     event.target.value = "";
+
+    // A rejected file leaves the current map as it is
+    let jsonData: unknown;
+    try {
+      jsonData = JSON.parse(await file.text());
+    } catch (error) {
+      console.error("Error reading map file:", error);
+      setImportError({
+        fileName: file.name,
+        errors: ["The file is not valid JSON"],
+      });
+      return;
+    }
+    try {
+      await controller.loadMap(jsonData);
+    } catch (error) {
+      console.error("Error loading map file:", error);
+      setImportError({
+        fileName: file.name,
+        errors:
+          error instanceof MapValidationError
+            ? error.errors
+            : [error instanceof Error ? error.message : String(error)],
+      });
+    }
   };
 
   const handleToggleGrid = () => {
     const newVisible = !gridVisible;
     setGridVisible(newVisible);
-    if ((window as any).phaserSetGridVisible) {
-      (window as any).phaserSetGridVisible(newVisible);
-    }
+    controller.setGridVisible(newVisible);
   };
 
   const handleExpandGrid = (amount: number) => {
-    if ((window as any).phaserExpandGrid) {
-      (window as any).phaserExpandGrid(amount);
-    }
+    controller.expandGrid(amount);
   };
 
   const handleCreateTab = () => {
@@ -273,29 +473,38 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
     canvas.height = 1;
     const emptyImageDataUrl = canvas.toDataURL();
 
-    const addCustomAsset = (window as any).phaserAddCustomAsset;
-    if (addCustomAsset) {
-      addCustomAsset(id, name, emptyImageDataUrl, []);
-    }
+    controller.addCustomAsset(id, name, emptyImageDataUrl, []);
 
     setNewTabDialogOpen(false);
     setNewTabName("");
   };
 
   const handleRemoveSprite = (assetSetId: string, spriteIndex: number) => {
-    if ((window as any).phaserRemoveSpriteFromAsset) {
-      (window as any).phaserRemoveSpriteFromAsset(assetSetId, spriteIndex);
-    }
+    controller.removeSpriteFromAsset(assetSetId, spriteIndex);
     setContextMenu(null);
   };
 
   const handleRemoveCustomAsset = (id: string) => {
-    if ((window as any).phaserRemoveCustomAsset) {
-      (window as any).phaserRemoveCustomAsset(id);
-    }
+    controller.removeCustomAsset(id);
     setDeleteConfirmId(null);
   };
 
+  const tools = [
+    ...TOOLS,
+    ...controller.plugins.flatMap((plugin) =>
+      (plugin.tools ?? []).map((tool) => ({
+        id: pluginToolId(plugin, tool),
+        label: tool.description ?? tool.name,
+        icon: tool.icon,
+      })),
+    ),
+  ];
+  const pluginPanels = controller.plugins.flatMap((plugin) =>
+    (plugin.panels ?? []).map((panel) => ({
+      key: `${plugin.id}:${panel.id}`,
+      ...panel,
+    })),
+  );
   const assetSetArray = Array.from(assetSets.values());
   const assetToDelete = deleteConfirmId ? assetSets.get(deleteConfirmId) : null;
 
@@ -306,6 +515,19 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
           <CardTitle className="text-lg">Oasis Builder 🌴</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3 flex-1 flex flex-col overflow-hidden pt-0">
+          {/* Project */}
+          <div className="flex gap-2">
+            <ProjectsButton />
+            <ServerMapsButton />
+            <SnapshotsButton />
+            <ScriptConsoleButton />
+            <FindReplacePopover
+              assetSets={assetSetArray}
+              layers={layers}
+              selection={selection}
+            />
+          </div>
+
           {/* Save/Load Buttons */}
           <div className="flex gap-2">
             <Button
@@ -326,6 +548,9 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
               <Upload className="w-4 h-4 mr-2" />
               Import
             </Button>
+            <MapStatsButton />
+            <ExportPngButton layers={layers} selection={selection} />
+            <ViewerLinkButton />
             <input
               ref={fileInputRef}
               type="file"
@@ -335,30 +560,151 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
             />
           </div>
 
-          {/* Layer Controls */}
+          {/* Undo/Redo Buttons */}
+          <div className="flex gap-2">
+            <Button
+              onClick={handleUndo}
+              disabled={!history.canUndo}
+              className="flex-1"
+              variant="outline"
+              size="sm"
+              title={
+                history.undoLabel
+                  ? `Undo ${history.undoLabel} (Ctrl+Z)`
+                  : "Undo (Ctrl+Z)"
+              }
+            >
+              <Undo2 className="w-4 h-4 mr-2" />
+              Undo
+            </Button>
+            <Button
+              onClick={handleRedo}
+              disabled={!history.canRedo}
+              className="flex-1"
+              variant="outline"
+              size="sm"
+              title={
+                history.redoLabel
+                  ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)`
+                  : "Redo (Ctrl+Shift+Z)"
+              }
+            >
+              <Redo2 className="w-4 h-4 mr-2" />
+              Redo
+            </Button>
+            <CollabButton />
+          </div>
+
+          {/* Tool Controls */}
           <div className="flex items-center gap-2 p-2 bg-muted rounded-md">
-            <span className="text-xs font-medium">Layer: {currentLayer}</span>
-            <div className="flex gap-1 ml-auto">
+            <div className="flex gap-1">
+              {tools.map(({ id, label, icon: Icon }) => (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant={currentTool === id ? "default" : "outline"}
+                  onClick={() => handleToolChange(id)}
+                  className="h-7 px-2"
+                  title={label}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant={autoTile ? "default" : "outline"}
+                onClick={handleToggleAutoTile}
+                className="h-7 px-2"
+                title={
+                  autoTile
+                    ? "Auto-tile roads and water: on"
+                    : "Auto-tile roads and water: off"
+                }
+              >
+                <Wand2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Layers */}
+          <LayersPanel layers={layers} currentLayer={currentLayer} />
+
+          {/* Plugin Panels */}
+          {pluginPanels.map(({ key, title, component: Panel }) => (
+            <div key={key} className="space-y-1 p-2 bg-muted rounded-md">
+              <span className="text-xs font-medium">{title}</span>
+              <Panel />
+            </div>
+          ))}
+
+          {/* Selection Controls */}
+          {currentTool === "select" && (
+            <div className="flex items-center gap-1 p-2 bg-muted rounded-md">
               <Button
                 size="sm"
                 variant="outline"
-                onClick={() => handleLayerChange(-1)}
-                disabled={currentLayer === 0}
+                onClick={handleCopy}
+                disabled={!selection}
                 className="h-7 px-2"
+                title="Copy selection (Ctrl+C)"
               >
-                -
+                <Copy className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCut}
+                disabled={!selection}
+                className="h-7 px-2"
+                title="Cut selection (Ctrl+X)"
+              >
+                <Scissors className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                size="sm"
+                variant={pasting ? "default" : "outline"}
+                onClick={handlePaste}
+                className="h-7 px-2"
+                title="Paste at cursor (Ctrl+V, Esc to cancel)"
+              >
+                <ClipboardPaste className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleDeleteSelection}
+                disabled={!selection}
+                className="h-7 px-2"
+                title="Delete selection (Del)"
+              >
+                <Eraser className="w-3.5 h-3.5" />
               </Button>
               <Button
                 size="sm"
                 variant="outline"
-                onClick={() => handleLayerChange(1)}
-                disabled={currentLayer === 10}
+                onClick={() => setPrefabDialogOpen(true)}
+                disabled={!selection}
                 className="h-7 px-2"
+                title="Save selection as prefab"
+              >
+                <Stamp className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                size="sm"
+                variant={selectionAllLayers ? "default" : "outline"}
+                onClick={handleToggleSelectionAllLayers}
+                className="h-7 px-2 ml-auto"
+                title={
+                  selectionAllLayers
+                    ? "Selection covers all layers"
+                    : "Selection covers the current layer only"
+                }
               >
-                +
+                <Layers className="w-3.5 h-3.5 mr-1" />
+                <span className="text-xs">All layers</span>
               </Button>
             </div>
-          </div>
+          )}
 
           {/* Grid Controls */}
           <div className="flex items-center gap-2 p-2 bg-muted rounded-md">
@@ -417,6 +763,7 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
                       <TabsTrigger
                         key={assetSet.id}
                         value={assetSet.id}
+                        data-tab-id={assetSet.id}
                         className="text-xs px-2 whitespace-nowrap relative group"
                       >
                         {assetSet.name.replace("City ", "")} (
@@ -436,6 +783,12 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
                         )}
                       </TabsTrigger>
                     ))}
+                    <TabsTrigger
+                      value={PREFABS_TAB}
+                      className="text-xs px-2 whitespace-nowrap"
+                    >
+                      Prefabs ({prefabs.length})
+                    </TabsTrigger>
                   </TabsList>
                   <Button
                     variant="ghost"
@@ -470,12 +823,14 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
                         const tileButton = (
                           <Button
                             variant={
+                              !selectedPrefabId &&
                               selectedAssetSetId === assetSet.id &&
                               index === selectedIndex
                                 ? "default"
                                 : "outline"
                             }
                             className="w-12 h-12 p-0 relative"
+                            data-tile-id={`${assetSet.id}:${index}`}
                             onClick={() => handleTileClick(index, assetSet.id)}
                             onContextMenu={(e) => {
                               if (!assetSet.isCustom) return;
@@ -559,6 +914,57 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
                   </div>
                 </TabsContent>
               ))}
+
+              <TabsContent
+                value={PREFABS_TAB}
+                className="flex-1 mt-2 overflow-hidden flex flex-col min-h-0"
+              >
+                <div className="flex-1 min-h-0 overflow-auto">
+                  {prefabs.length === 0 ? (
+                    <p className="text-xs text-muted-foreground p-2">
+                      Select an area with the select tool and save it as a
+                      prefab to reuse it here.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-1 pr-2">
+                      {prefabs.map((prefab) => (
+                        <div key={prefab.id} className="relative group">
+                          <Button
+                            variant={
+                              selectedPrefabId === prefab.id
+                                ? "default"
+                                : "outline"
+                            }
+                            className="w-full h-24 p-1 flex flex-col gap-0.5"
+                            onClick={() => handlePrefabClick(prefab.id)}
+                            title={`${prefab.name} (${prefab.width}x${prefab.height})`}
+                          >
+                            {prefab.thumbnail && (
+                              // eslint-disable-next-line @next/next/no-img-element -- a data URL
+                              <img
+                                src={prefab.thumbnail}
+                                alt=""
+                                className="w-16 h-16 object-contain"
+                              />
+                            )}
+                            <span className="text-[10px] truncate w-full">
+                              {prefab.name}
+                            </span>
+                          </Button>
+                          <span
+                            role="button"
+                            className="absolute -top-1 -right-1 w-4 h-4 bg-muted-foreground/20 hover:bg-muted-foreground/40 text-muted-foreground rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-pointer"
+                            onClick={() => handleDeletePrefab(prefab.id)}
+                            title="Delete prefab"
+                          >
+                            <X className="w-3 h-3" />
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </TabsContent>
             </Tabs>
           )}
 
@@ -571,7 +977,10 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
           <div className="pt-2 border-t text-xs text-muted-foreground flex-shrink-0">
             <p>
               Position: ({gridPosition.x}, {gridPosition.y}) | Layer:{" "}
-              {currentLayer}
+              {layers.find((layer) => layer.id === currentLayer)?.name ??
+                currentLayer}
+              {placement.direction && ` | Facing: ${placement.direction}`}
+              {placement.flipX && " | Flipped"}
             </p>
           </div>
         </CardContent>
@@ -620,6 +1029,75 @@ export function TileSelector({ onTileSelect }: TileSelectorProps) {
         </DialogContent>
       </Dialog>
 
+      {/* New Prefab Dialog */}
+      <Dialog
+        open={prefabDialogOpen}
+        onOpenChange={(open) => {
+          setPrefabDialogOpen(open);
+          if (!open) setPrefabName("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save as Prefab</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="prefab-name">Name</Label>
+            <Input
+              id="prefab-name"
+              value={prefabName}
+              onChange={(e) => setPrefabName(e.target.value)}
+              placeholder="Oasis Pool"
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && prefabName.trim()) handleCreatePrefab();
+              }}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setPrefabDialogOpen(false);
+                setPrefabName("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleCreatePrefab} disabled={!prefabName.trim()}>
+              <Stamp className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Map Import Error Dialog */}
+      <AlertDialog
+        open={importError !== null}
+        onOpenChange={(open) => !open && setImportError(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Can&apos;t load map</AlertDialogTitle>
+            <AlertDialogDescription>
+              {importError?.fileName} was not loaded, your current map is
+              unchanged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="max-h-60 overflow-y-auto space-y-1 rounded-md bg-muted p-3 font-mono text-xs">
+            {importError?.errors.map((error, index) => (
+              <li key={index} className="break-words">
+                {error}
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogAction>OK</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog
         open={!!deleteConfirmId}
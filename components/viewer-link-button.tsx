@@ -0,0 +1,35 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Check, Link2 } from "lucide-react";
+import { useCityBuilder } from "./city-builder-context";
+
+// Copies a link to the read-only viewer, with the map inside it
+export function ViewerLinkButton() {
+  const controller = useCityBuilder();
+  const [copied, setCopied] = useState(false);
+
+  const handleClick = async () => {
+    try {
+      const link = await controller.getViewerLink();
+      if (!link) return;
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleClick}
+      variant="outline"
+      size="sm"
+      title={copied ? "Link copied" : "Copy a read-only viewer link"}
+    >
+      {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+    </Button>
+  );
+}
@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Bundled from lib/script-worker.ts
+    "public/script-worker.js",
   ]),
 ]);
 
@@ -0,0 +1,76 @@
+/**
+ * Auto-tiling: while enabled, tiles placed or removed re-pick the variants of
+ * their group's tiles around them, following the sheets' neighbour rules
+ */
+
+import { getNeighbourMask, pickAutoTileVariant } from "./autotile";
+import { ModuleScene } from "./scene-modules";
+
+export class AutoTileModule {
+  private scene: ModuleScene;
+  private enabled = false;
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+  }
+
+  // Re-pick auto-tile variants for an area and the ring of cells around it,
+  // as part of the current edit
+  refresh(
+    gridX: number,
+    gridY: number,
+    footprint: { width: number; height: number },
+    layer: number
+  ) {
+    if (!this.enabled) return;
+    const { cityMap } = this.scene;
+    for (let y = gridY - 1; y <= gridY + footprint.height; y++) {
+      for (let x = gridX - 1; x <= gridX + footprint.width; x++) {
+        const current = this.getGroup(x, y, layer);
+        if (!current) continue;
+
+        const mask = getNeighbourMask((dx, dy) => {
+          const neighbour = this.getGroup(x + dx, y + dy, layer);
+          return (
+            neighbour?.assetSet === current.assetSet &&
+            neighbour.group === current.group
+          );
+        });
+        const variant = pickAutoTileVariant(
+          current.assetSet.sprites,
+          current.group,
+          mask
+        );
+
+        const key = `${x},${y},${layer}`;
+        const cell = cityMap.get(key)!;
+        if (variant && variant.name !== cell.tileName) {
+          cityMap.set(key, {
+            ...cell,
+            tileName: variant.name,
+            origin: variant.origin || { x: 0.5, y: 0.5 },
+          });
+        }
+      }
+    }
+  }
+
+  // Auto-tile group of the 1x1 tile at a cell, if it belongs to one
+  private getGroup(gridX: number, gridY: number, layer: number) {
+    const tileData = this.scene.cityMap.get(`${gridX},${gridY},${layer}`);
+    if (!tileData?.isAnchor) return null;
+    if (tileData.footprint.width !== 1 || tileData.footprint.height !== 1) {
+      return null;
+    }
+    const found = this.scene.findSpriteData(
+      tileData.textureKey,
+      tileData.tileName
+    );
+    if (!found?.sprite.autotile) return null;
+    return { assetSet: found.assetSet, group: found.sprite.autotile.group };
+  }
+}
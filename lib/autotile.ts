@@ -0,0 +1,137 @@
+/**
+ * Neighbour-based auto-tiling for road and water style sheets
+ * Pure functions with no Phaser or React dependencies
+ *
+ * Rules are declared per sprite as SubTexture attributes in the atlas XML:
+ *   autotileGroup="grass_01"    sprites that connect to each other
+ *   autotileEdges="NW,SE"       edges where the neighbour is in the same group
+ *   autotileCorners="N,E"       corners where the diagonal neighbour is too
+ *                               (optional - omit if the sheet has no corner art)
+ *
+ * Directions are as seen on screen: edges NE/SE/SW/NW, corners N/E/S/W.
+ */
+
+import { SpriteData } from "./game-types";
+
+export type AutoTileEdge = "NE" | "SE" | "SW" | "NW";
+export type AutoTileCorner = "N" | "E" | "S" | "W";
+
+export interface AutoTileRule {
+  group: string;
+  edges: AutoTileEdge[];
+  corners?: AutoTileCorner[];
+}
+
+export interface NeighbourMask {
+  edges: Set<AutoTileEdge>;
+  corners: Set<AutoTileCorner>;
+}
+
+// Grid offsets of each screen direction (+x runs down-right, +y down-left)
+export const EDGE_OFFSETS: Record<AutoTileEdge, [number, number]> = {
+  NW: [-1, 0],
+  NE: [0, -1],
+  SE: [1, 0],
+  SW: [0, 1],
+};
+
+export const CORNER_OFFSETS: Record<AutoTileCorner, [number, number]> = {
+  N: [-1, -1],
+  E: [1, -1],
+  S: [1, 1],
+  W: [-1, 1],
+};
+
+// The two edges that meet at each corner
+const CORNER_EDGES: Record<AutoTileCorner, [AutoTileEdge, AutoTileEdge]> = {
+  N: ["NW", "NE"],
+  E: ["NE", "SE"],
+  S: ["SE", "SW"],
+  W: ["SW", "NW"],
+};
+
+const EDGES = Object.keys(EDGE_OFFSETS) as AutoTileEdge[];
+const CORNERS = Object.keys(CORNER_OFFSETS) as AutoTileCorner[];
+
+function parseDirections<T extends string>(value: string, allowed: T[]): T[] {
+  return value
+    .split(",")
+    .map((d) => d.trim().toUpperCase())
+    .filter((d): d is T => (allowed as string[]).includes(d));
+}
+
+/**
+ * Reads the autotile attributes of a SubTexture element, if any
+ */
+export function parseAutoTileRule(element: Element): AutoTileRule | undefined {
+  const group = element.getAttribute("autotileGroup");
+  if (!group) return undefined;
+
+  const rule: AutoTileRule = {
+    group,
+    edges: parseDirections(element.getAttribute("autotileEdges") || "", EDGES),
+  };
+  const corners = element.getAttribute("autotileCorners");
+  if (corners !== null) {
+    rule.corners = parseDirections(corners, CORNERS);
+  }
+  return rule;
+}
+
+/**
+ * Computes which neighbours of a cell belong to the same group.
+ * A corner only counts when both edges next to it connect too.
+ */
+export function getNeighbourMask(
+  isSameGroup: (dx: number, dy: number) => boolean
+): NeighbourMask {
+  const edges = new Set<AutoTileEdge>(
+    EDGES.filter((edge) => isSameGroup(...EDGE_OFFSETS[edge]))
+  );
+  const corners = new Set<AutoTileCorner>(
+    CORNERS.filter(
+      (corner) =>
+        CORNER_EDGES[corner].every((edge) => edges.has(edge)) &&
+        isSameGroup(...CORNER_OFFSETS[corner])
+    )
+  );
+  return { edges, corners };
+}
+
+/**
+ * Picks the sprite of a group that best matches a neighbour mask.
+ * Edges weigh more than corners; sheets without an exact variant
+ * fall back to the closest one. Ties go to the first sprite in the sheet.
+ */
+export function pickAutoTileVariant(
+  sprites: SpriteData[],
+  group: string,
+  mask: NeighbourMask
+): SpriteData | null {
+  let best: SpriteData | null = null;
+  let bestScore = -1;
+
+  sprites.forEach((sprite) => {
+    const rule = sprite.autotile;
+    if (!rule || rule.group !== group) return;
+
+    let score = 0;
+    EDGES.forEach((edge) => {
+      if (rule.edges.includes(edge) === mask.edges.has(edge)) score += 10;
+    });
+    if (rule.corners) {
+      CORNERS.forEach((corner) => {
+        if (rule.corners!.includes(corner) === mask.corners.has(corner)) {
+          score += 1;
+        }
+      });
+    }
+
+    if (score > bestScore) {
+      best = sprite;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
@@ -0,0 +1,464 @@
+/**
+ * Typed API of one city builder game, for the React UI and integrations
+ *
+ * The controller exists before its game does: the UI can subscribe to events
+ * right away, and calls made while no game is attached are ignored (or return
+ * an empty result). Each game on a page has its own controller, along with
+ * the plugins enabled for it.
+ */
+
+import type Phaser from "phaser";
+import type { CityBuilder } from "./city-builder-scene";
+import { TypedEventEmitter } from "./event-emitter";
+import { CityBuilderEvents } from "./game-events";
+import { CityBuilderPlugin } from "./plugins";
+import type { ScriptResult } from "./map-script";
+import type { ReplaceReport, TileSearchQuery } from "./tile-search";
+import type { MapStats } from "./map-stats";
+import type { GridPoint } from "./minimap";
+import type { PngExportOptions } from "./png-export";
+import { createViewerLink } from "./map-link";
+import {
+  deleteServerMap,
+  getServerMapHistory,
+  listServerMaps,
+} from "./map-api";
+import {
+  AssetSet,
+  CollabState,
+  MapLayer,
+  MapLayerChanges,
+  Prefab,
+  ProjectInfo,
+  SavedScript,
+  ServerMapInfo,
+  ServerMapRevision,
+  SnapshotInfo,
+  SpriteData,
+  TileInstanceChanges,
+  ToolMode,
+} from "./game-types";
+
+export class CityBuilderController {
+  readonly events = new TypedEventEmitter<CityBuilderEvents>();
+  readonly plugins: CityBuilderPlugin[];
+  private game: Phaser.Game | null = null;
+
+  constructor(plugins: CityBuilderPlugin[] = []) {
+    this.plugins = plugins;
+  }
+
+  attach(game: Phaser.Game) {
+    this.game = game;
+  }
+
+  // Only detaches the given game, so a replaced game can't detach its successor
+  detach(game: Phaser.Game) {
+    if (this.game === game) this.game = null;
+  }
+
+  private get scene(): CityBuilder | null {
+    return (this.game?.scene.getScene("CityBuilder") as CityBuilder) ?? null;
+  }
+
+  // Whether a game is attached and its scene exists
+  get ready(): boolean {
+    return this.scene !== null;
+  }
+
+  // Palette and tools
+
+  setSelectedTile(index: number, assetSetId?: string) {
+    this.scene?.setSelectedTile(index, assetSetId);
+  }
+
+  setSelectedPrefab(id: string | null) {
+    this.scene?.prefabs.select(id);
+  }
+
+  setTool(tool: ToolMode) {
+    this.scene?.setTool(tool);
+  }
+
+  setAutoTile(enabled: boolean) {
+    this.scene?.autoTiles.setEnabled(enabled);
+  }
+
+  getAssetSets(): AssetSet[] {
+    return this.scene ? Array.from(this.scene.assetSets.values()) : [];
+  }
+
+  // Layers
+
+  setLayer(id: number) {
+    this.scene?.setLayer(id);
+  }
+
+  addLayer(name?: string): MapLayer | null {
+    return this.scene?.addLayer(name) ?? null;
+  }
+
+  removeLayer(id: number): boolean {
+    return this.scene?.removeLayer(id) ?? false;
+  }
+
+  updateLayer(id: number, changes: MapLayerChanges) {
+    this.scene?.updateLayer(id, changes);
+  }
+
+  previewLayerOpacity(id: number, opacity: number) {
+    this.scene?.previewLayerOpacity(id, opacity);
+  }
+
+  moveLayer(id: number, delta: number) {
+    this.scene?.moveLayer(id, delta);
+  }
+
+  // Grid
+
+  setGridVisible(visible: boolean) {
+    this.scene?.setGridVisible(visible);
+  }
+
+  expandGrid(amount: number) {
+    this.scene?.expandGrid(amount);
+  }
+
+  getGridSize(): number {
+    return this.scene?.gridSize ?? 50;
+  }
+
+  setTileDimensions(tileWidth: number, tileHeight: number) {
+    this.scene?.setTileDimensions(tileWidth, tileHeight);
+  }
+
+  // History
+
+  undo() {
+    this.scene?.undo();
+  }
+
+  redo() {
+    this.scene?.redo();
+  }
+
+  // Selection and clipboard. Copy and cut also write the selection to the
+  // system clipboard as JSON.
+
+  async copySelection(): Promise<boolean> {
+    const text = this.scene?.selection.copy();
+    if (!text) return false;
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.warn("System clipboard unavailable, copied in-app only:", error);
+    }
+    return true;
+  }
+
+  async cutSelection(): Promise<boolean> {
+    const text = this.scene?.selection.cut();
+    if (!text) return false;
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.warn("System clipboard unavailable, cut in-app only:", error);
+    }
+    return true;
+  }
+
+  // Paste from the system clipboard, falling back to the last in-app copy
+  async pasteClipboard(): Promise<boolean> {
+    if (!this.scene) return false;
+    let text: string | null = null;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch (error) {
+      console.warn("System clipboard unavailable:", error);
+    }
+    return this.scene?.selection.pasteText(text) ?? false;
+  }
+
+  deleteSelection() {
+    this.scene?.selection.delete();
+  }
+
+  setSelectionAllLayers(enabled: boolean) {
+    this.scene?.selection.setAllLayers(enabled);
+  }
+
+  // Minimap
+
+  setMinimapEnabled(enabled: boolean) {
+    this.scene?.minimap.setEnabled(enabled);
+  }
+
+  getMinimapColors(): Array<number | null> {
+    return this.scene?.minimap.getColors() ?? [];
+  }
+
+  getCameraView(): GridPoint[] | null {
+    return this.scene?.minimap.getCameraView() ?? null;
+  }
+
+  centerCameraOn(point: GridPoint) {
+    this.scene?.centerCameraOn(point);
+  }
+
+  // Statistics
+
+  getMapStats(): MapStats | null {
+    return this.scene?.stats.getStats() ?? null;
+  }
+
+  // Download the statistics as CSV
+  exportMapStats() {
+    this.scene?.stats.exportCsv();
+  }
+
+  // PNG export
+
+  getPngExportSize(
+    options: PngExportOptions
+  ): { width: number; height: number } | null {
+    return this.scene?.pngExport.getSize(options) ?? null;
+  }
+
+  // Resolves once the file is downloaded. Throws if the image would be too
+  // large.
+  async exportPng(
+    options: PngExportOptions,
+    onProgress?: (done: number, total: number) => void
+  ) {
+    await this.scene?.pngExport.export(options, onProgress);
+  }
+
+  // Find and replace
+
+  // Highlights the matches on the map and returns how many there are
+  findTiles(query: TileSearchQuery): number {
+    return this.scene?.tileSearch.find(query) ?? 0;
+  }
+
+  clearTileSearch() {
+    this.scene?.tileSearch.clear();
+  }
+
+  replaceTiles(
+    query: TileSearchQuery,
+    assetSetId: string,
+    spriteIndex: number
+  ): ReplaceReport {
+    return (
+      this.scene?.tileSearch.replace(query, assetSetId, spriteIndex) ?? {
+        replaced: 0,
+        skipped: [],
+      }
+    );
+  }
+
+  // Prefabs
+
+  // Save the current selection as a named prefab
+  async createPrefab(name: string): Promise<Prefab | null> {
+    return (await this.scene?.prefabs.create(name)) ?? null;
+  }
+
+  async deletePrefab(id: string) {
+    await this.scene?.prefabs.delete(id);
+  }
+
+  // Inspector
+
+  setInspectorEnabled(enabled: boolean) {
+    this.scene?.inspector.setEnabled(enabled);
+  }
+
+  setInspectorPinned(pinned: boolean) {
+    this.scene?.inspector.setPinned(pinned);
+  }
+
+  updateTileInstance(key: string, changes: TileInstanceChanges) {
+    this.scene?.inspector.updateTile(key, changes);
+  }
+
+  // Custom assets
+
+  async addCustomAsset(
+    id: string,
+    name: string,
+    imageDataUrl: string,
+    sprites: SpriteData[]
+  ): Promise<boolean> {
+    if (!this.scene) return false;
+    return this.scene.addCustomAsset({ id, name, imageDataUrl, sprites });
+  }
+
+  // Add a sprite to an existing custom asset set
+  async addSpriteToAsset(
+    assetId: string,
+    imageDataUrl: string,
+    sprite: SpriteData
+  ): Promise<boolean> {
+    if (!this.scene) return false;
+    return this.scene.addSpriteToAsset(assetId, imageDataUrl, sprite);
+  }
+
+  async removeSpriteFromAsset(
+    assetId: string,
+    spriteIndex: number
+  ): Promise<boolean> {
+    if (!this.scene) return false;
+    return this.scene.removeSpriteFromAsset(assetId, spriteIndex);
+  }
+
+  removeCustomAsset(id: string): boolean {
+    return this.scene?.removeCustomAsset(id) ?? false;
+  }
+
+  // Maps and projects
+
+  exportMap() {
+    this.scene?.exportMap();
+  }
+
+  // Throws a MapValidationError if the map is rejected
+  async loadMap(data: unknown) {
+    await this.scene?.loadMap(data);
+  }
+
+  // Link to the read-only viewer with the map inside it. Throws if the map is
+  // too large for a link.
+  async getViewerLink(): Promise<string | null> {
+    if (!this.scene) return null;
+    return createViewerLink(
+      window.location.origin,
+      this.scene.getShareableMap()
+    );
+  }
+
+  async createProject(name: string): Promise<ProjectInfo | null> {
+    return (await this.scene?.projects.create(name)) ?? null;
+  }
+
+  async openProject(id: string): Promise<boolean> {
+    return (await this.scene?.projects.open(id)) ?? false;
+  }
+
+  async renameProject(id: string, name: string) {
+    await this.scene?.projects.rename(id, name);
+  }
+
+  async duplicateProject(id: string): Promise<ProjectInfo | null> {
+    return (await this.scene?.projects.duplicate(id)) ?? null;
+  }
+
+  async deleteProject(id: string) {
+    await this.scene?.projects.delete(id);
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return (await this.scene?.snapshots.list()) ?? [];
+  }
+
+  async restoreSnapshot(id: string): Promise<boolean> {
+    return (await this.scene?.snapshots.restore(id)) ?? false;
+  }
+
+  // Server maps. Everything but listing and deleting needs the game; all of
+  // them throw a ServerMapError if the server fails.
+
+  listServerMaps(): Promise<ServerMapInfo[]> {
+    return listServerMaps();
+  }
+
+  getServerMapHistory(id: string): Promise<ServerMapRevision[]> {
+    return getServerMapHistory(id);
+  }
+
+  deleteServerMap(id: string): Promise<void> {
+    return deleteServerMap(id);
+  }
+
+  // Open a server map as a new project whose autosaves go back to the server
+  async openServerMap(id: string): Promise<ProjectInfo | null> {
+    return (await this.scene?.serverSync.open(id)) ?? null;
+  }
+
+  // Store the open project as a new server map and link it to that map
+  async saveAsServerMap(): Promise<ServerMapInfo | null> {
+    return (await this.scene?.serverSync.saveAs()) ?? null;
+  }
+
+  // Save the open project as a revision kept in its server map's history
+  async saveServerRevision() {
+    await this.scene?.serverSync.saveRevision();
+  }
+
+  async unlinkServerMap() {
+    await this.scene?.serverSync.unlink();
+  }
+
+  // Resolve a conflict by taking the server's map (undoable) or by saving
+  // over it
+  async reloadServerMap(): Promise<boolean> {
+    return (await this.scene?.serverSync.reload()) ?? false;
+  }
+
+  async overwriteServerMap() {
+    await this.scene?.serverSync.overwrite();
+  }
+
+  // Collaboration
+
+  // Null while no game is attached
+  getCollabState(): CollabState | null {
+    return this.scene?.collab.getState() ?? null;
+  }
+
+  // Join a room of the collaboration server (ws:// or wss:// url). Joining a
+  // room someone is already in replaces the open project's map with theirs.
+  joinCollab(url: string, room: string, name: string) {
+    this.scene?.collab.join(url, room, name);
+  }
+
+  leaveCollab() {
+    this.scene?.collab.leave();
+  }
+
+  // Script console
+
+  // Resolves with the script's output; its changes are one undoable edit
+  async runScript(code: string): Promise<ScriptResult> {
+    if (!this.scene) {
+      return { changes: [], output: [], error: "The game isn't ready yet" };
+    }
+    return this.scene.scripts.run(code);
+  }
+
+  async listScripts(): Promise<SavedScript[]> {
+    return (await this.scene?.scripts.list()) ?? [];
+  }
+
+  async saveScript(script: {
+    id?: string;
+    name: string;
+    code: string;
+  }): Promise<SavedScript | null> {
+    return (await this.scene?.scripts.save(script)) ?? null;
+  }
+
+  async deleteScript(id: string) {
+    await this.scene?.scripts.delete(id);
+  }
+
+  // Plugins
+
+  getPluginData(pluginId: string): unknown {
+    return this.scene?.getPluginData(pluginId);
+  }
+
+  setPluginData(pluginId: string, data: unknown) {
+    this.scene?.setPluginData(pluginId, data);
+  }
+}
@@ -1,27 +1,143 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import Phaser from "phaser";
-import { AssetSet, AssetConfig } from "./game-types";
+import {
+  AssetSet,
+  AssetConfig,
+  CustomAssetData,
+  ExportedTile,
+  GridRect,
+  MapDocument,
+  MapLayer,
+  MapLayerChanges,
+  SavedCustomAsset,
+  SpriteData,
+  TileCell,
+  ToolMode,
+} from "./game-types";
+import { CommandHistory } from "./command-history";
+import { GROUND_TILE } from "./game-constants";
+import { CityBuilderEventBus } from "./game-events";
+import {
+  CityBuilderPlugin,
+  PluginScene,
+  PluginTool,
+  ToolPointer,
+  matchesShortcut,
+  pluginToolId,
+} from "./plugins";
+import { parseRotationVariant, rotateSprite } from "./rotation";
+import { runTransaction } from "./project-store";
+import { GridPoint } from "./minimap";
+import { PreparedMap, SceneModule } from "./scene-modules";
+import { AutoTileModule } from "./autotile-module";
+import { SelectionModule } from "./selection-module";
+import { PrefabsModule } from "./prefabs-module";
+import { InspectorModule } from "./inspector-module";
+import { TileSearchModule } from "./tile-search-module";
+import { MinimapModule } from "./minimap-module";
+import { MapStatsModule } from "./map-stats-module";
+import { PngExportModule } from "./png-export-module";
+import { ScriptModule } from "./script-module";
+import { CollabModule } from "./collab-module";
+import { ProjectsModule } from "./projects-module";
+import { ServerSyncModule } from "./server-sync-module";
+import { SnapshotsModule } from "./snapshots-module";
+import { CellChange, CityMap, TileData, parseCellKey } from "./city-map";
+import {
+  MAX_GRID_SIZE,
+  MapValidationError,
+  createLayer,
+} from "./map-schema";
+import {
+  MapModel,
+  cellToTile,
+  deserializeMap,
+  serializeCustomAssets,
+  serializeMap,
+} from "./map-serializer";
+import { blobToDataUrl } from "./image-processing";
+import { fetchAsset } from "./map-api";
+import { parseAutoTileRule } from "./autotile";
 
 interface CityBuilderConfig {
   tileWidth: number;
   tileHeight: number;
   gridSize?: number;
   assetConfigs: AssetConfig[];
+  eventBus: CityBuilderEventBus; // Where the scene reports changes to the UI
+  plugins?: CityBuilderPlugin[];
   onTileSelect?: (tileIndex: number) => void;
   onGridPositionChange?: (x: number, y: number) => void;
+  // Viewer mode: shows the given saved map with pan and zoom only, and
+  // neither edits nor stores anything
+  readOnly?: boolean;
+  map?: unknown;
 }
 
-export class CityBuilder extends Phaser.Scene {
+interface GridState {
+  gridSize: number;
+  originOffsetX: number;
+  originOffsetY: number;
+  layers: MapLayer[];
+}
+
+interface EditChange<T> {
+  before: T;
+  after: T;
+}
+
+// Everything a single undoable edit changed, keyed by cell key, asset set id
+// and plugin id
+interface MapEdit {
+  cells: Map<string, EditChange<TileCell | null>>;
+  assets: Map<string, EditChange<CustomAssetData | null>>;
+  plugins: Map<string, EditChange<unknown>>;
+  grid: EditChange<GridState> | null;
+}
+
+interface PendingEdit {
+  label: string;
+  cells: Map<string, TileCell | null>; // State before the first change to each cell
+  assets: Map<string, EditChange<CustomAssetData | null>>;
+  plugins: Map<string, unknown>; // Data before the first change, like cells
+  grid: GridState;
+}
+
+// Cells on the line between two grid cells (inclusive), for gap-free brush drags
+function gridLine(x0: number, y0: number, x1: number, y1: number) {
+  const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0));
+  const cells: Array<{ gridX: number; gridY: number }> = [];
+  for (let i = 1; i <= steps; i++) {
+    cells.push({
+      gridX: Math.round(x0 + ((x1 - x0) * i) / steps),
+      gridY: Math.round(y0 + ((y1 - y0) * i) / steps),
+    });
+  }
+  return cells;
+}
+
+function rectFromCorners(x0: number, y0: number, x1: number, y1: number): GridRect {
+  return {
+    minX: Math.min(x0, x1),
+    minY: Math.min(y0, y1),
+    maxX: Math.max(x0, x1),
+    maxY: Math.max(y0, y1),
+  };
+}
+
+export class CityBuilder extends Phaser.Scene implements PluginScene {
   gridSize: number;
   tileWidth: number;
   tileHeight: number;
   originOffsetX: number;
   originOffsetY: number;
-  cityMap = new Map();
+  cityMap = new CityMap();
+  private tileSprites = new Map<string, Phaser.GameObjects.Image>(); // By anchor key
   selectedSpriteIndex = 0;
   assetSets: Map<string, AssetSet> = new Map();
   selectedAssetSetId = "";
-  currentLayer = 0; // For stacking buildings
+  currentLayer = 0; // Id of the layer being edited
+  layers: MapLayer[] = [createLayer(0)]; // Bottom to top
   hoverSprite: Phaser.GameObjects.Image | null = null;
   hoverGraphics!: Phaser.GameObjects.Graphics;
   gridGraphics!: Phaser.GameObjects.Graphics;
@@ -40,22 +156,103 @@ export class CityBuilder extends Phaser.Scene {
   panStartY = 0;
   panStartScrollX = 0;
   panStartScrollY = 0;
+  readonly eventBus: CityBuilderEventBus;
+  readonly readOnly: boolean;
+  private initialMap: unknown; // Shown by the viewer
   onTileSelect?: (tileIndex: number) => void;
   onGridPositionChange?: (x: number, y: number) => void;
-  private autoSaveTimeout: number | null = null;
-  private readonly AUTO_SAVE_KEY = "oasis-builder-autosave";
-  private readonly AUTO_SAVE_DELAY = 2000; // 2 seconds debounce
+  private defaultGridSize: number;
+  private readonly HISTORY_LIMIT = 100;
+  history: CommandHistory;
+  private pendingEdit: PendingEdit | null = null;
+  private editDepth = 0;
+  private strokeOpen = false; // Pointer edit group open between pointerdown and pointerup
+  private strokeErase = false;
+  private strokeCells = new Set<string>(); // "x,y" cells painted during the current stroke
+  private lastPaintGridX: number | null = null;
+  private lastPaintGridY: number | null = null;
+  currentTool: ToolMode = "brush";
+  private placementTool: ToolMode = "brush"; // Tool to return to after using the eyedropper
+  placementRotation = 0; // Quarter turns clockwise from the selected sprite's own direction
+  placementFlipX = false;
+  private rectStart: { gridX: number; gridY: number; erase: boolean } | null =
+    null;
+  private selectStart: { gridX: number; gridY: number } | null = null;
+  private ghostTiles: ExportedTile[] = [];
+  private ghostSprites: Phaser.GameObjects.Image[] = [];
+  private builderPlugins: CityBuilderPlugin[]; // Scene.plugins is Phaser's
+  private pluginTools = new Map<string, PluginTool>(); // By tool mode
+  private pluginData = new Map<string, unknown>(); // By plugin id, replaced on every change
+  private toolPointer: ToolPointer | null = null; // Plugin tool press in progress
+  private mapRevision = 0; // Counts cell changes
+  private reportedRevision = 0; // Last revision sent with mapChanged
+  // Features built on the scene, see lib/scene-modules.ts
+  readonly autoTiles: AutoTileModule;
+  readonly selection: SelectionModule;
+  readonly prefabs: PrefabsModule;
+  readonly inspector: InspectorModule;
+  readonly tileSearch: TileSearchModule;
+  readonly minimap: MinimapModule;
+  readonly stats: MapStatsModule;
+  readonly pngExport: PngExportModule;
+  readonly scripts: ScriptModule;
+  readonly collab: CollabModule;
+  readonly projects: ProjectsModule;
+  readonly snapshots: SnapshotsModule;
+  readonly serverSync: ServerSyncModule;
+  private sceneModules: SceneModule[]; // The ones with hooks to call
 
   constructor(config: CityBuilderConfig) {
     super({ key: "CityBuilder" });
     this.gridSize = config.gridSize ?? 50;
+    this.defaultGridSize = this.gridSize;
     this.tileWidth = config.tileWidth;
     this.tileHeight = config.tileHeight;
     this.originOffsetX = (this.gridSize * this.tileWidth) / 2;
     this.originOffsetY = 200;
     this.assetConfigList = config.assetConfigs;
+    this.eventBus = config.eventBus;
+    this.readOnly = config.readOnly ?? false;
+    this.initialMap = config.map;
+    this.builderPlugins = config.plugins ?? [];
+    this.builderPlugins.forEach((plugin) => {
+      plugin.tools?.forEach((tool) => {
+        const mode = pluginToolId(plugin, tool);
+        if (this.pluginTools.has(mode)) {
+          console.warn(`Plugin tool ${mode} is registered twice`);
+        }
+        this.pluginTools.set(mode, tool);
+      });
+    });
     this.onTileSelect = config.onTileSelect;
     this.onGridPositionChange = config.onGridPositionChange;
+    this.history = new CommandHistory(this.HISTORY_LIMIT, (state) => {
+      this.eventBus.emit("historyChanged", state);
+    });
+    // The scene only draws the map model and records its changes for undo
+    this.cityMap.subscribe((change) => this.recordCellChange(change));
+    this.cityMap.subscribe((change) => this.renderCellChange(change));
+    this.cityMap.subscribe(() => this.mapRevision++);
+
+    this.autoTiles = new AutoTileModule(this);
+    this.selection = new SelectionModule(this);
+    this.prefabs = new PrefabsModule(this);
+    this.inspector = new InspectorModule(this);
+    this.tileSearch = new TileSearchModule(this);
+    this.minimap = new MinimapModule(this);
+    this.stats = new MapStatsModule(this);
+    this.pngExport = new PngExportModule(this);
+    this.scripts = new ScriptModule(this);
+    this.collab = new CollabModule(this);
+    this.projects = new ProjectsModule(this);
+    this.snapshots = new SnapshotsModule(this);
+    this.serverSync = new ServerSyncModule(this);
+    this.sceneModules = [
+      this.selection,
+      this.tileSearch,
+      this.minimap,
+      this.collab,
+    ];
   }
 
   preload() {
@@ -103,6 +300,11 @@ export class CityBuilder extends Phaser.Scene {
     this.hoverGraphics = this.add.graphics();
     this.hoverGraphics.setDepth(9999); // Keep hover above everything except preview sprite
 
+    this.sceneModules.forEach((module) => module.create?.());
+    this.events.once(Phaser.Scenes.Events.DESTROY, () => {
+      this.sceneModules.forEach((module) => module.destroy?.());
+    });
+
     this.setupInput();
 
     this.cursors = this.input.keyboard!.createCursorKeys();
@@ -111,15 +313,29 @@ export class CityBuilder extends Phaser.Scene {
     // createCursorKeys() adds captures for arrow keys and space which we need to clear
     this.input.keyboard!.clearCaptures();
 
-    // Try to load from local storage first
-    const loadedFromStorage = await this.loadFromLocalStorage();
+    if (this.readOnly) {
+      // The viewer doesn't open the browser's storage at all
+      if (this.initialMap !== undefined) await this.loadMap(this.initialMap);
+      this.fitCameraToMap();
+    } else {
+      // Prefabs are stored separately from the map
+      await this.prefabs.load();
+
+      // Reopen the last project first
+      const loadedFromStorage = await this.projects.openLast();
 
-    if (!loadedFromStorage) {
-      // If no saved data, load the oasis map first, then prefill empty cells with grass
-      await this.loadOasisMap();
-      this.prefillMapWithGrass();
+      if (!loadedFromStorage) {
+        // If no saved data, load the oasis map first, then prefill empty cells with grass
+        await this.loadOasisMap();
+        this.prefillMapWithGrass();
+      }
     }
 
+    // The initial load is not something the user can undo
+    this.history.clear();
+    this.emitLayersChanged();
+    if (!this.readOnly) this.projects.collectUnusedImages();
+
     // Draw grid after everything is loaded
     this.drawVisibleGrid();
     this.time.delayedCall(100, () => {
@@ -179,6 +395,12 @@ export class CityBuilder extends Phaser.Scene {
           }
           : undefined;
 
+      // Support for auto-tile neighbour rules in XML (optional attributes)
+      const autotile = parseAutoTileRule(subtexture);
+
+      // Support for directional variants in XML (optional attributes)
+      const rotation = parseRotationVariant(subtexture);
+
       sourceTexture.add(name, 0, x, y, width, height);
 
       sprites.push({
@@ -189,6 +411,8 @@ export class CityBuilder extends Phaser.Scene {
         height,
         footprint,
         origin,
+        autotile,
+        rotation,
       });
     });
 
@@ -206,26 +430,25 @@ export class CityBuilder extends Phaser.Scene {
     );
 
     // Emit generic asset loaded event
-    window.dispatchEvent(
-      new CustomEvent("phaserAssetSetLoaded", {
-        detail: { assetSet },
-      })
-    );
+    this.eventBus.emit("assetSetLoaded", {
+      assetSet,
+      imagePath: config.imagePath,
+    });
   }
 
   prefillMapWithGrass() {
-    const floorsAssetSet = this.assetSets.get("floors");
+    const { assetSetId, tileName: groundTileName } = GROUND_TILE;
+    const floorsAssetSet = this.assetSets.get(assetSetId);
     if (!floorsAssetSet) {
       console.warn("Floors asset set not found, skipping prefill");
       return;
     }
 
-    // Find grass_02_11 sprite (try with and without .png extension)
     const grassSprite = floorsAssetSet.sprites.find(
-      (s) => s.name === "grass_02_11"
+      (s) => s.name === groundTileName
     );
     if (!grassSprite) {
-      console.warn("grass_02_11 not found in floors asset set. Available sprites:", floorsAssetSet.sprites.map(s => s.name));
+      console.warn(`${groundTileName} not found in floors asset set. Available sprites:`, floorsAssetSet.sprites.map(s => s.name));
       return;
     }
 
@@ -234,6 +457,7 @@ export class CityBuilder extends Phaser.Scene {
     const footprint = grassSprite.footprint || { width: 1, height: 1 };
     const origin = grassSprite.origin || { x: 0.5, y: 0.5 };
 
+    this.ensureLayer(0);
     let filledCount = 0;
     // Fill only empty cells with grass tiles
     for (let gridY = 0; gridY < this.gridSize; gridY++) {
@@ -245,13 +469,7 @@ export class CityBuilder extends Phaser.Scene {
           continue;
         }
 
-        const isoPos = this.gridToIso(gridX, gridY);
-        const sprite = this.add.image(isoPos.x, isoPos.y, textureKey, tileName);
-        sprite.setOrigin(origin.x, origin.y);
-        sprite.setDepth((gridX + gridY) * 100);
-
         this.cityMap.set(key, {
-          sprite,
           tileName,
           textureKey,
           layer: 0,
@@ -263,7 +481,7 @@ export class CityBuilder extends Phaser.Scene {
       }
     }
 
-    console.log(`Prefilled ${filledCount} empty cells with grass_02_11 tiles`);
+    console.log(`Prefilled ${filledCount} empty cells with ${tileName} tiles`);
   }
 
   async loadOasisMap() {
@@ -282,141 +500,367 @@ export class CityBuilder extends Phaser.Scene {
     }
   }
 
-  private async openDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open("OasisBuilderDB", 1);
+  // Empty the scene for another project. Not undoable; callers clear history.
+  resetMap() {
+    this.selection.cancelPaste();
+    this.selection.set(null);
+    this.cityMap.clear();
+    Array.from(this.pluginData.keys()).forEach((id) =>
+      this.writePluginData(id, undefined)
+    );
+    this.assetSets.forEach((assetSet, id) => {
+      if (assetSet.isCustom) this.unloadCustomAssetSet(id);
+    });
+    this.currentLayer = 0;
+    this.applyGridState({
+      gridSize: this.defaultGridSize,
+      originOffsetX: (this.defaultGridSize * this.tileWidth) / 2,
+      originOffsetY: 200,
+      layers: [createLayer(0)],
+    });
+    this.inspector.refresh();
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
+  // The map as the serializer sees it. Without inlineImages, custom images
+  // that are in the image store are referenced by hash.
+  getMapModel(inlineImages: boolean): MapModel {
+    return {
+      gridSize: this.gridSize,
+      originOffsetX: this.originOffsetX,
+      originOffsetY: this.originOffsetY,
+      tileWidth: this.tileWidth,
+      tileHeight: this.tileHeight,
+      layers: this.layers,
+      cells: this.cityMap.cells,
+      customAssets: serializeCustomAssets(
+        this.assetSets.values(),
+        inlineImages
+      ),
+      plugins: this.serializePluginData(),
+    };
+  }
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains("maps")) {
-          db.createObjectStore("maps");
-        }
-      };
-    });
+  // Fill in the image of a saved custom asset that refers to the image store.
+  // Returns null if the image is missing.
+  private async resolveCustomAssetImage(
+    customAsset: SavedCustomAsset
+  ): Promise<CustomAssetData | null> {
+    if (customAsset.imageDataUrl) {
+      return { ...customAsset, imageDataUrl: customAsset.imageDataUrl };
+    }
+    const { imageHash } = customAsset;
+    if (!imageHash) return null;
+
+    // The viewer doesn't use the image store
+    let image: Blob | null = null;
+    if (!this.readOnly) {
+      const request = await runTransaction(
+        ["images"],
+        "readonly",
+        (transaction) => transaction.objectStore("images").get(imageHash)
+      );
+      image = request.result ?? null;
+    }
+    // Images of server maps are fetched once, then kept in the store
+    if (!image) {
+      image = await fetchAsset(imageHash);
+      if (!image) return null;
+      this.serverSync.markAssetUploaded(imageHash);
+      if (!this.readOnly) {
+        const blob = image;
+        await runTransaction(["images"], "readwrite", (transaction) =>
+          transaction.objectStore("images").put(blob, imageHash)
+        );
+      }
+    }
+    return {
+      ...customAsset,
+      imageDataUrl: await blobToDataUrl(image),
+    };
   }
 
-  async loadFromLocalStorage(): Promise<boolean> {
-    try {
-      const db = await this.openDB();
-      const transaction = db.transaction(["maps"], "readonly");
-      const store = transaction.objectStore("maps");
-      const request = store.get(this.AUTO_SAVE_KEY);
-
-      const jsonData = await new Promise<any>((resolve, reject) => {
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-      });
+  // An undoable edit is open
+  get editing(): boolean {
+    return this.editDepth > 0;
+  }
+
+  // Start an undoable edit. Calls nest, so a pointer stroke can group many
+  // placeTile/removeTile calls into a single history entry.
+  beginEdit(label: string) {
+    if (this.editDepth++ > 0) return;
+    this.pendingEdit = {
+      label,
+      cells: new Map(),
+      assets: new Map(),
+      plugins: new Map(),
+      grid: this.getGridState(),
+    };
+  }
 
-      db.close();
+  commitEdit() {
+    if (this.editDepth === 0) return;
+    if (--this.editDepth > 0) return;
 
-      if (!jsonData) {
-        console.log("No auto-save data found");
-        return false;
+    const pending = this.pendingEdit!;
+    this.pendingEdit = null;
+
+    const edit: MapEdit = {
+      cells: new Map(),
+      assets: pending.assets,
+      plugins: new Map(),
+      grid: null,
+    };
+    pending.cells.forEach((before, key) => {
+      const after = this.cityMap.get(key) ?? null;
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        edit.cells.set(key, { before, after });
       }
+    });
+    pending.plugins.forEach((before, id) => {
+      const after = this.pluginData.get(id);
+      if (before !== after) edit.plugins.set(id, { before, after });
+    });
 
-      console.log("Loading map from auto-save...");
-      await this.loadMap(jsonData);
-      console.log("Auto-save loaded successfully");
-      return true;
-    } catch (error) {
-      console.error("Error loading from IndexedDB:", error);
-      return false;
+    const gridAfter = this.getGridState();
+    if (JSON.stringify(pending.grid) !== JSON.stringify(gridAfter)) {
+      edit.grid = { before: pending.grid, after: gridAfter };
+    }
+
+    if (
+      edit.cells.size === 0 &&
+      edit.assets.size === 0 &&
+      edit.plugins.size === 0 &&
+      !edit.grid
+    ) {
+      return;
     }
+
+    this.history.push({
+      label: pending.label,
+      undo: () => this.applyMapEdit(edit, "before"),
+      redo: () => this.applyMapEdit(edit, "after"),
+    });
+    this.projects.scheduleAutoSave();
+    this.inspector.refresh();
   }
 
-  async saveToLocalStorage() {
-    try {
-      const mapData: any[] = [];
-      this.cityMap.forEach((tileData: any, key: string) => {
-        if (!tileData.isAnchor) return;
-
-        const [gridX, gridY, layer] = key.split(",").map(Number);
-        const exportTile: any = {
-          x: gridX,
-          y: gridY,
-          layer: layer || 0,
-          tileName: tileData.tileName,
-          textureKey: tileData.textureKey,
-        };
+  private recordAssetChange(
+    id: string,
+    before: CustomAssetData | null,
+    after: CustomAssetData | null
+  ) {
+    if (!this.pendingEdit) return;
+    const existing = this.pendingEdit.assets.get(id);
+    this.pendingEdit.assets.set(id, {
+      before: existing ? existing.before : before,
+      after,
+    });
+  }
 
-        if (
-          tileData.footprint &&
-          (tileData.footprint.width > 1 || tileData.footprint.height > 1)
-        ) {
-          exportTile.footprint = tileData.footprint;
-        }
+  getPluginData(pluginId: string): unknown {
+    return this.pluginData.get(pluginId);
+  }
 
-        if (
-          tileData.origin &&
-          (tileData.origin.x !== 0.5 || tileData.origin.y !== 0.5)
-        ) {
-          exportTile.origin = tileData.origin;
-        }
+  // Replace a plugin's data (undefined removes it) as an undoable edit. The
+  // data is kept as given, so plugins must not modify it afterwards.
+  setPluginData(pluginId: string, data: unknown) {
+    if (this.pluginData.get(pluginId) === data) return;
+    const plugin = this.builderPlugins.find((p) => p.id === pluginId);
+    this.beginEdit(`Edit ${plugin?.name ?? pluginId}`);
+    this.writePluginData(pluginId, data);
+    this.commitEdit();
+  }
 
-        mapData.push(exportTile);
-      });
+  // Replace a plugin's data as part of the current edit, if there is one
+  writePluginData(pluginId: string, data: unknown) {
+    const before = this.pluginData.get(pluginId);
+    if (before === data) return;
+    if (this.pendingEdit && !this.pendingEdit.plugins.has(pluginId)) {
+      this.pendingEdit.plugins.set(pluginId, before);
+    }
+    if (data === undefined) {
+      this.pluginData.delete(pluginId);
+    } else {
+      this.pluginData.set(pluginId, data);
+    }
+    this.eventBus.emit("pluginDataChanged", { pluginId, data });
+  }
+
+  // Saved form of the plugin data. Data of plugins that aren't enabled is
+  // written back as it was loaded; plugins without a serializer save nothing.
+  serializePluginData(): Record<string, unknown> {
+    const saved: Record<string, unknown> = {};
+    this.pluginData.forEach((data, id) => {
+      const plugin = this.builderPlugins.find((p) => p.id === id);
+      if (!plugin) {
+        saved[id] = data;
+      } else if (plugin.serializer) {
+        saved[id] = plugin.serializer.serialize(data);
+      }
+    });
+    return saved;
+  }
 
-      const customAssets: any[] = [];
-      this.assetSets.forEach((assetSet) => {
-        if (assetSet.isCustom && assetSet.imageDataUrl) {
-          customAssets.push({
-            id: assetSet.id,
-            name: assetSet.name,
-            imageDataUrl: assetSet.imageDataUrl,
-            sprites: assetSet.sprites.map((sprite) => ({
-              name: sprite.name,
-              x: sprite.x,
-              y: sprite.y,
-              width: sprite.width,
-              height: sprite.height,
-              footprint: sprite.footprint,
-              origin: sprite.origin,
-            })),
-          });
+  // Plugin data of a saved map. Throws a MapValidationError if a plugin
+  // rejects its data.
+  deserializePluginData(saved: Record<string, unknown> = {}) {
+    const data = new Map<string, unknown>();
+    const errors: string[] = [];
+    Object.entries(saved).forEach(([id, json]) => {
+      const plugin = this.builderPlugins.find((p) => p.id === id);
+      if (!plugin) {
+        data.set(id, json);
+      } else if (plugin.serializer) {
+        try {
+          data.set(id, plugin.serializer.deserialize(json));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push(`plugins.${id}: ${message}`);
         }
-      });
+      }
+    });
+    if (errors.length > 0) throw new MapValidationError(errors);
+    return data;
+  }
 
-      const jsonData = {
-        version: "4.0",
-        gridSize: this.gridSize,
-        originOffsetX: this.originOffsetX,
-        originOffsetY: this.originOffsetY,
-        tileWidth: this.tileWidth,
-        tileHeight: this.tileHeight,
-        customAssets: customAssets,
-        tiles: mapData,
-        timestamp: new Date().toISOString(),
-      };
+  private async applyMapEdit(edit: MapEdit, side: "before" | "after") {
+    if (edit.grid) this.applyGridState(edit.grid[side]);
 
-      const db = await this.openDB();
-      const transaction = db.transaction(["maps"], "readwrite");
-      const store = transaction.objectStore("maps");
-      store.put(jsonData, this.AUTO_SAVE_KEY);
+    // Asset frames must exist before cells that use them are recreated (undo),
+    // and cells must be gone before their frames are removed (redo)
+    if (side === "before") await this.applyAssetChanges(edit, side);
+    edit.cells.forEach((change, key) => this.cityMap.set(key, change[side]));
+    if (side === "after") await this.applyAssetChanges(edit, side);
+    edit.plugins.forEach((change, id) => this.writePluginData(id, change[side]));
+    this.refreshAfterMapChange();
+  }
 
-      await new Promise<void>((resolve, reject) => {
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = () => reject(transaction.error);
-      });
+  // After cells changed outside of an edit (undo, other editors): redraw the
+  // hover preview and the inspector, and save
+  refreshAfterMapChange() {
+    this.lastHoverGridX = -1;
+    this.lastHoverGridY = -1;
+    this.projects.scheduleAutoSave();
+    this.inspector.refresh();
+  }
 
-      db.close();
-      console.log("Auto-saved to IndexedDB");
-    } catch (error) {
-      console.error("Error saving to IndexedDB:", error);
+  private async applyAssetChanges(edit: MapEdit, side: "before" | "after") {
+    for (const [id, change] of edit.assets) {
+      const snapshot = change[side];
+      if (snapshot) {
+        await this.loadCustomAssetSet(snapshot);
+      } else if (this.assetSets.has(id)) {
+        this.unloadCustomAssetSet(id);
+      }
+    }
+  }
+
+  async undo() {
+    if (this.editDepth > 0) return;
+    await this.history.undo();
+  }
+
+  async redo() {
+    if (this.editDepth > 0) return;
+    await this.history.redo();
+  }
+
+  getGridState(): GridState {
+    return {
+      gridSize: this.gridSize,
+      originOffsetX: this.originOffsetX,
+      originOffsetY: this.originOffsetY,
+      layers: this.layers.map((layer) => ({ ...layer })),
+    };
+  }
+
+  private applyGridState(state: GridState) {
+    this.gridSize = state.gridSize;
+    this.originOffsetX = state.originOffsetX;
+    this.originOffsetY = state.originOffsetY;
+    this.setLayers(state.layers.map((layer) => ({ ...layer })));
+    this.lastCameraScrollX = -Infinity; // Force redraw
+    this.eventBus.emit("gridSizeChanged", { gridSize: this.gridSize });
+  }
+
+  // Anchor cell in the tile schema used by exportMap and the clipboard
+  getExportedTile(key: string): ExportedTile | null {
+    return cellToTile(key, this.cityMap.get(key));
+  }
+
+  // Keep the cell's state from before the pending edit touched it
+  private recordCellChange({ key, before }: CellChange) {
+    if (this.pendingEdit && !this.pendingEdit.cells.has(key)) {
+      this.pendingEdit.cells.set(key, before);
     }
   }
 
-  scheduleAutoSave() {
-    if (this.autoSaveTimeout !== null) {
-      clearTimeout(this.autoSaveTimeout);
+  // Create or destroy the sprite of a changed anchor cell
+  private renderCellChange({ key, after }: CellChange) {
+    this.tileSprites.get(key)?.destroy();
+    this.tileSprites.delete(key);
+    if (after?.isAnchor) {
+      const { x, y } = parseCellKey(key);
+      this.tileSprites.set(key, this.createTileSprite(x, y, after));
     }
+  }
 
-    this.autoSaveTimeout = window.setTimeout(() => {
-      this.saveToLocalStorage();
-      this.autoSaveTimeout = null;
-    }, this.AUTO_SAVE_DELAY);
+  createTileSprite(gridX: number, gridY: number, cell: TileCell) {
+    const placement = this.getTilePlacement(
+      gridX,
+      gridY,
+      cell.footprint,
+      cell.layer
+    );
+    const sprite = this.add.image(
+      placement.x,
+      placement.y,
+      cell.textureKey,
+      cell.tileName
+    );
+    sprite.setOrigin(cell.origin.x, cell.origin.y);
+    sprite.setDepth(placement.depth);
+    sprite.setFlipX(!!cell.flipX);
+    if (cell.tint !== undefined) sprite.setTint(cell.tint);
+    this.applyLayerStyle(sprite, cell);
+    return sprite;
+  }
+
+  // Visibility and opacity a tile sprite gets from its layer
+  applyLayerStyle(
+    sprite: Phaser.GameObjects.Image,
+    cell: Pick<TileCell, "layer" | "alpha">
+  ) {
+    const layer = this.getLayer(cell.layer);
+    sprite.setVisible(layer?.visible ?? true);
+    sprite.setAlpha((cell.alpha ?? 1) * (layer?.opacity ?? 1));
+  }
+
+  // Screen position and depth of a tile anchored at a cell
+  getTilePlacement(
+    gridX: number,
+    gridY: number,
+    footprint: { width: number; height: number },
+    layer: number
+  ) {
+    // Position sprite at the center of the footprint
+    const centerX = gridX + (footprint.width - 1) / 2;
+    const centerY = gridY + (footprint.height - 1) / 2;
+    const isoPos = this.gridToIso(centerX, centerY);
+
+    // Layers missing from the list stack the way all layers used to
+    const index = this.layers.findIndex((l) => l.id === layer);
+    const heightOffset =
+      index >= 0 ? this.layers[index].heightOffset : layer * 30;
+    const order = index >= 0 ? index : layer;
+
+    return {
+      x: isoPos.x,
+      // Offset Y position for stacking (higher layers appear above)
+      y: isoPos.y - heightOffset,
+      // Depth based on center position and the layer's place in the stack
+      depth: (centerX + centerY) * 100 + order * 1000,
+    };
   }
 
   drawVisibleGrid() {
@@ -444,19 +888,23 @@ export class CityBuilder extends Phaser.Scene {
 
     for (let row = minGridY; row <= maxGridY; row++) {
       for (let col = minGridX; col <= maxGridX; col++) {
-        const pos = this.gridToIso(col, row);
-
-        this.gridGraphics.beginPath();
-        this.gridGraphics.moveTo(pos.x, pos.y - this.tileHeight / 2);
-        this.gridGraphics.lineTo(pos.x + this.tileWidth / 2, pos.y);
-        this.gridGraphics.lineTo(pos.x, pos.y + this.tileHeight / 2);
-        this.gridGraphics.lineTo(pos.x - this.tileWidth / 2, pos.y);
-        this.gridGraphics.closePath();
+        this.traceCell(this.gridGraphics, col, row);
         this.gridGraphics.strokePath();
       }
     }
   }
 
+  // Add the diamond outline of a grid cell as the current path
+  traceCell(graphics: Phaser.GameObjects.Graphics, gridX: number, gridY: number) {
+    const pos = this.gridToIso(gridX, gridY);
+    graphics.beginPath();
+    graphics.moveTo(pos.x, pos.y - this.tileHeight / 2);
+    graphics.lineTo(pos.x + this.tileWidth / 2, pos.y);
+    graphics.lineTo(pos.x, pos.y + this.tileHeight / 2);
+    graphics.lineTo(pos.x - this.tileWidth / 2, pos.y);
+    graphics.closePath();
+  }
+
   updateHoverPreview(pointer: Phaser.Input.Pointer) {
     const worldPoint = this.cameras.main.getWorldPoint(
       pointer.x,
@@ -482,48 +930,75 @@ export class CityBuilder extends Phaser.Scene {
       gridPos.gridY >= 0 &&
       gridPos.gridY < this.gridSize
     ) {
-      const assetSet = this.assetSets.get(this.selectedAssetSetId);
-      const sprite = assetSet?.sprites[this.selectedSpriteIndex];
-      const footprint = sprite?.footprint || { width: 1, height: 1 };
+      // The select and eyedropper tools only highlight the cell under the
+      // cursor, plugin tools draw their own overlay
+      const pluginTool = this.pluginTools.get(this.currentTool);
+      const placing =
+        !pluginTool &&
+        this.currentTool !== "select" &&
+        this.currentTool !== "eyedropper";
+      const prefab = placing ? this.prefabs.selected : null;
+      const placement = !placing || prefab ? null : this.getPlacementSprite();
+      const assetSet = placement?.assetSet;
+      const sprite = placement?.sprite;
+      const footprint = prefab
+        ? { width: prefab.width, height: prefab.height }
+        : placement?.footprint || { width: 1, height: 1 };
+      this.collab.sendPresence({
+        x: gridPos.gridX,
+        y: gridPos.gridY,
+        layer: this.currentLayer,
+        width: footprint.width,
+        height: footprint.height,
+      });
 
-      // Draw hover indicator for all footprint tiles
-      this.hoverGraphics.lineStyle(2, 0x00ff00, 0.8);
-      this.hoverGraphics.fillStyle(0x00ff00, 0.2);
+      // Prefabs preview as ghost sprites of all their tiles
+      if (prefab) {
+        if (this.ghostSprites.length === 0) {
+          this.showGhosts(this.prefabs.getTiles(prefab));
+        }
+        this.positionGhosts(gridPos.gridX, gridPos.gridY, false);
+      }
 
-      for (let fx = 0; fx < footprint.width; fx++) {
-        for (let fy = 0; fy < footprint.height; fy++) {
-          const tileX = gridPos.gridX + fx;
-          const tileY = gridPos.gridY + fy;
-          if (tileX >= this.gridSize || tileY >= this.gridSize) continue;
-
-          const isoPos = this.gridToIso(tileX, tileY);
-          this.hoverGraphics.beginPath();
-          this.hoverGraphics.moveTo(
-            isoPos.x,
-            isoPos.y - this.tileHeight / 2
-          );
-          this.hoverGraphics.lineTo(
-            isoPos.x + this.tileWidth / 2,
-            isoPos.y
-          );
-          this.hoverGraphics.lineTo(
-            isoPos.x,
-            isoPos.y + this.tileHeight / 2
-          );
-          this.hoverGraphics.lineTo(
-            isoPos.x - this.tileWidth / 2,
-            isoPos.y
-          );
-          this.hoverGraphics.closePath();
-          this.hoverGraphics.strokePath();
-          this.hoverGraphics.fillPath();
+      if (pluginTool) {
+        this.drawToolOverlay(pluginTool, {
+          gridX: gridPos.gridX,
+          gridY: gridPos.gridY,
+          startX: gridPos.gridX,
+          startY: gridPos.gridY,
+          down: false,
+          erase: false,
+          shiftKey: pointer.event?.shiftKey ?? false,
+        });
+      } else {
+        // Draw hover indicator for all footprint tiles (red on a locked layer)
+        const hoverColor =
+          placing && this.isLayerLocked(this.currentLayer)
+            ? 0xff4444
+            : 0x00ff00;
+        this.hoverGraphics.lineStyle(2, hoverColor, 0.8);
+        this.hoverGraphics.fillStyle(hoverColor, 0.2);
+
+        for (let fx = 0; fx < footprint.width; fx++) {
+          for (let fy = 0; fy < footprint.height; fy++) {
+            const tileX = gridPos.gridX + fx;
+            const tileY = gridPos.gridY + fy;
+            if (tileX >= this.gridSize || tileY >= this.gridSize) continue;
+
+            this.traceCell(this.hoverGraphics, tileX, tileY);
+            this.hoverGraphics.strokePath();
+            this.hoverGraphics.fillPath();
+          }
         }
       }
 
       // Position sprite at the center of the footprint
-      const centerX = gridPos.gridX + (footprint.width - 1) / 2;
-      const centerY = gridPos.gridY + (footprint.height - 1) / 2;
-      const isoPos = this.gridToIso(centerX, centerY);
+      const position = this.getTilePlacement(
+        gridPos.gridX,
+        gridPos.gridY,
+        footprint,
+        this.currentLayer
+      );
 
       if (assetSet && sprite) {
         const textureKey = assetSet.textureKey;
@@ -533,15 +1008,12 @@ export class CityBuilder extends Phaser.Scene {
         if (this.hoverSprite) {
           this.hoverSprite.setTexture(textureKey, tileName);
           this.hoverSprite.setOrigin(origin.x, origin.y);
-          this.hoverSprite.setPosition(
-            isoPos.x,
-            isoPos.y - this.currentLayer * 30
-          );
+          this.hoverSprite.setPosition(position.x, position.y);
           this.hoverSprite.setVisible(true);
         } else {
           this.hoverSprite = this.add.image(
-            isoPos.x,
-            isoPos.y - this.currentLayer * 30,
+            position.x,
+            position.y,
             textureKey,
             tileName
           );
@@ -549,15 +1021,27 @@ export class CityBuilder extends Phaser.Scene {
           this.hoverSprite.setAlpha(0.5);
           this.hoverSprite.setDepth(10000);
         }
+        this.hoverSprite.setFlipX(this.placementFlipX);
+      } else if (this.hoverSprite) {
+        this.hoverSprite.setVisible(false);
       }
 
       if (this.onGridPositionChange) {
         this.onGridPositionChange(gridPos.gridX, gridPos.gridY);
       }
+      this.eventBus.emit("gridPositionChanged", {
+        x: gridPos.gridX,
+        y: gridPos.gridY,
+      });
+      this.inspector.hover(gridPos.gridX, gridPos.gridY);
     } else {
+      this.collab.sendPresence(null);
       if (this.hoverSprite) {
         this.hoverSprite.setVisible(false);
       }
+      if (this.prefabs.selected && !this.selection.pasting) {
+        this.clearGhosts();
+      }
     }
   }
 
@@ -615,13 +1099,36 @@ export class CityBuilder extends Phaser.Scene {
     this.game.canvas.addEventListener("blur", () => {
       this.canvasFocused = false;
       this.spaceKeyDown = false;
-      this.game.canvas.style.cursor = "default";
+      this.game.canvas.style.cursor = this.readOnly ? "grab" : "default";
     });
     // Focus canvas on click
     this.game.canvas.addEventListener("mousedown", () => {
       this.game.canvas.focus();
     });
 
+    this.input.on(
+      "wheel",
+      (
+        _pointer: Phaser.Input.Pointer,
+        _gameObjects: any,
+        _deltaX: number,
+        deltaY: number
+      ) => {
+        const zoomAmount = deltaY > 0 ? -0.03 : 0.03;
+        const newZoom = Phaser.Math.Clamp(
+          this.cameras.main.zoom + zoomAmount,
+          0.15,
+          2
+        );
+        this.cameras.main.zoom = newZoom;
+      }
+    );
+
+    if (this.readOnly) {
+      this.setupViewerInput();
+      return;
+    }
+
     // Track space key for pan mode (only when not typing)
     this.input.keyboard!.on("keydown-SPACE", () => {
       if (this.isUserTyping()) return;
@@ -636,7 +1143,107 @@ export class CityBuilder extends Phaser.Scene {
       }
     });
 
+    // Undo / redo (Ctrl+Z, Ctrl+Shift+Z, Ctrl+Y)
+    this.input.keyboard!.on("keydown-Z", (event: KeyboardEvent) => {
+      if (this.isUserTyping() || !(event.ctrlKey || event.metaKey)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        this.redo();
+      } else {
+        this.undo();
+      }
+    });
+
+    this.input.keyboard!.on("keydown-Y", (event: KeyboardEvent) => {
+      if (this.isUserTyping() || !(event.ctrlKey || event.metaKey)) return;
+      event.preventDefault();
+      this.redo();
+    });
+
+    // Rotate / flip the sprite being placed while its preview is shown
+    this.input.keyboard!.on("keydown-R", (event: KeyboardEvent) => {
+      if (this.isUserTyping() || event.ctrlKey || event.metaKey) return;
+      if (!this.hoverSprite?.visible) return;
+      this.rotatePlacement();
+    });
+
+    this.input.keyboard!.on("keydown-F", (event: KeyboardEvent) => {
+      if (this.isUserTyping() || event.ctrlKey || event.metaKey) return;
+      if (!this.hoverSprite?.visible) return;
+      this.flipPlacement();
+    });
+
+    // Eyedropper tool
+    this.input.keyboard!.on("keydown-I", (event: KeyboardEvent) => {
+      if (this.isUserTyping() || event.ctrlKey || event.metaKey) return;
+      this.setTool("eyedropper");
+    });
+
+    // Plugin shortcuts, checked on every key press
+    const shortcuts = this.builderPlugins.flatMap((plugin) => plugin.shortcuts ?? []);
+    if (shortcuts.length > 0) {
+      this.input.keyboard!.on("keydown", (event: KeyboardEvent) => {
+        if (this.isUserTyping()) return;
+        const shortcut = shortcuts.find((s) => matchesShortcut(s, event));
+        if (!shortcut) return;
+        event.preventDefault();
+        shortcut.run(this);
+      });
+    }
+
+    // Delete the selected tiles
+    const deleteSelection = () => {
+      if (this.isUserTyping()) return;
+      this.selection.delete();
+    };
+    this.input.keyboard!.on("keydown-DELETE", deleteSelection);
+    this.input.keyboard!.on("keydown-BACKSPACE", deleteSelection);
+
+    // Escape cancels a pending paste, then clears the selection
+    this.input.keyboard!.on("keydown-ESC", () => {
+      if (this.isUserTyping()) return;
+      if (this.selection.pasting) {
+        this.selection.cancelPaste();
+      } else if (!this.selection.moving) {
+        this.selection.set(null);
+      }
+    });
+
+    // Copy / cut / paste go through the system clipboard so selections can be
+    // pasted into other tabs. Only handled while the canvas has focus.
+    const onCopy = (event: ClipboardEvent) => {
+      if (!this.canvasFocused || this.isUserTyping()) return;
+      const text = this.selection.copy();
+      if (!text) return;
+      event.clipboardData?.setData("text/plain", text);
+      event.preventDefault();
+    };
+    const onCut = (event: ClipboardEvent) => {
+      if (!this.canvasFocused || this.isUserTyping()) return;
+      const text = this.selection.cut();
+      if (!text) return;
+      event.clipboardData?.setData("text/plain", text);
+      event.preventDefault();
+    };
+    const onPaste = (event: ClipboardEvent) => {
+      if (!this.canvasFocused || this.isUserTyping()) return;
+      if (this.selection.pasteText(event.clipboardData?.getData("text/plain"))) {
+        event.preventDefault();
+      }
+    };
+    window.addEventListener("copy", onCopy);
+    window.addEventListener("cut", onCut);
+    window.addEventListener("paste", onPaste);
+    this.events.once(Phaser.Scenes.Events.DESTROY, () => {
+      window.removeEventListener("copy", onCopy);
+      window.removeEventListener("cut", onCut);
+      window.removeEventListener("paste", onPaste);
+    });
+
     this.input.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+      // Ignore edits while an undo/redo is still being applied
+      if (this.history.isBusy) return;
+
       if (this.spaceKeyDown && pointer.leftButtonDown()) {
         // Start panning with Space + Left Click
         this.isPanning = true;
@@ -645,10 +1252,83 @@ export class CityBuilder extends Phaser.Scene {
         this.panStartScrollX = this.cameras.main.scrollX;
         this.panStartScrollY = this.cameras.main.scrollY;
         this.game.canvas.style.cursor = "grabbing";
-      } else if (pointer.leftButtonDown()) {
-        this.placeTile(pointer);
-      } else if (pointer.rightButtonDown()) {
-        this.removeTile(pointer);
+        return;
+      }
+
+      const erase = pointer.rightButtonDown();
+      if (!erase && !pointer.leftButtonDown()) return;
+      const { gridX, gridY } = this.pointerToGrid(pointer);
+
+      // A pending paste takes the next click, whatever the tool
+      if (this.selection.pasting) {
+        if (erase) {
+          this.selection.cancelPaste();
+        } else {
+          this.selection.pasteAt(gridX, gridY);
+        }
+        return;
+      }
+
+      // Alt+click picks the tile under the cursor with any tool
+      if (
+        this.currentTool === "eyedropper" ||
+        (!erase && pointer.event.altKey)
+      ) {
+        if (!erase && this.pickTileAt(gridX, gridY)) {
+          if (this.currentTool === "eyedropper") {
+            this.setTool(this.placementTool);
+          }
+        }
+        return;
+      }
+
+      const pluginTool = this.pluginTools.get(this.currentTool);
+      if (pluginTool) {
+        this.beginStroke(pluginTool.name);
+        this.toolPointer = {
+          gridX,
+          gridY,
+          startX: gridX,
+          startY: gridY,
+          down: true,
+          erase,
+          shiftKey: pointer.event.shiftKey,
+        };
+        pluginTool.onPointerDown?.(this.toolPointer, this);
+        this.drawToolOverlay(pluginTool, this.toolPointer);
+        return;
+      }
+
+      switch (this.currentTool) {
+        case "brush":
+          this.beginStroke(erase ? "Erase" : "Paint");
+          this.strokeErase = erase;
+          this.paintAt(gridX, gridY, erase);
+          break;
+        case "rectangle":
+          if (!this.isInBounds(gridX, gridY)) return;
+          this.rectStart = { gridX, gridY, erase };
+          this.updateRectanglePreview(gridX, gridY);
+          break;
+        case "fill":
+          if (erase) {
+            this.removeTileAt(gridX, gridY);
+          } else {
+            this.floodFill(gridX, gridY);
+          }
+          break;
+        case "select":
+          if (erase) {
+            this.selection.set(null);
+          } else if (this.selection.contains(gridX, gridY)) {
+            this.selection.beginMove(gridX, gridY);
+          } else if (this.isInBounds(gridX, gridY)) {
+            // Clicking a cell with the select tool pins it in the inspector
+            this.inspector.pin(gridX, gridY);
+            this.selectStart = { gridX, gridY };
+            this.selection.set(rectFromCorners(gridX, gridY, gridX, gridY));
+          }
+          break;
       }
     });
 
@@ -660,294 +1340,1286 @@ export class CityBuilder extends Phaser.Scene {
           (this.panStartY - pointer.y) / this.cameras.main.zoom;
         this.cameras.main.scrollX = this.panStartScrollX + deltaX;
         this.cameras.main.scrollY = this.panStartScrollY + deltaY;
+      } else if (this.selection.pasting) {
+        const { gridX, gridY } = this.pointerToGrid(pointer);
+        this.selection.updatePastePreview(gridX, gridY);
+      } else if (this.selection.moving) {
+        const { gridX, gridY } = this.pointerToGrid(pointer);
+        this.selection.updateMove(gridX, gridY);
+      } else if (this.selectStart) {
+        const { gridX, gridY } = this.pointerToGrid(pointer);
+        this.selection.set(
+          this.clampRect(
+            rectFromCorners(
+              this.selectStart.gridX,
+              this.selectStart.gridY,
+              gridX,
+              gridY
+            )
+          )
+        );
+      } else if (this.rectStart) {
+        const { gridX, gridY } = this.pointerToGrid(pointer);
+        this.updateRectanglePreview(gridX, gridY);
+      } else if (this.toolPointer) {
+        this.updateToolPointer(pointer);
       } else {
         this.updateHoverPreview(pointer);
+        if (this.strokeOpen && this.currentTool === "brush") {
+          const { gridX, gridY } = this.pointerToGrid(pointer);
+          this.paintAt(gridX, gridY, this.strokeErase);
+        }
       }
     });
 
-    this.input.on("pointerup", () => {
+    this.input.on("pointerup", (pointer: Phaser.Input.Pointer) => {
       if (this.isPanning) {
         this.isPanning = false;
         this.game.canvas.style.cursor = this.spaceKeyDown
           ? "grab"
           : "default";
       }
+      this.finishPointerEdit(pointer);
     });
 
-    this.input.on(
-      "wheel",
-      (
-        _pointer: Phaser.Input.Pointer,
-        _gameObjects: any,
-        _deltaX: number,
-        deltaY: number
-      ) => {
-        const zoomAmount = deltaY > 0 ? -0.03 : 0.03;
-        const newZoom = Phaser.Math.Clamp(
-          this.cameras.main.zoom + zoomAmount,
-          0.15,
-          2
-        );
-        this.cameras.main.zoom = newZoom;
-      }
-    );
+    // Releasing the button outside the canvas still ends the stroke
+    this.input.on("pointerupoutside", (pointer: Phaser.Input.Pointer) => {
+      this.finishPointerEdit(pointer);
+    });
   }
 
-  placeTile(pointer: Phaser.Input.Pointer) {
+  // The viewer pans with any button, without holding Space. Arrow keys and
+  // the wheel work as in the editor.
+  private setupViewerInput() {
+    this.game.canvas.style.cursor = "grab";
+
+    this.input.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+      this.isPanning = true;
+      this.panStartX = pointer.x;
+      this.panStartY = pointer.y;
+      this.panStartScrollX = this.cameras.main.scrollX;
+      this.panStartScrollY = this.cameras.main.scrollY;
+      this.game.canvas.style.cursor = "grabbing";
+    });
+
+    this.input.on("pointermove", (pointer: Phaser.Input.Pointer) => {
+      if (!this.isPanning) return;
+      const deltaX = (this.panStartX - pointer.x) / this.cameras.main.zoom;
+      const deltaY = (this.panStartY - pointer.y) / this.cameras.main.zoom;
+      this.cameras.main.scrollX = this.panStartScrollX + deltaX;
+      this.cameras.main.scrollY = this.panStartScrollY + deltaY;
+    });
+
+    const stopPanning = () => {
+      this.isPanning = false;
+      this.game.canvas.style.cursor = "grab";
+    };
+    this.input.on("pointerup", stopPanning);
+    this.input.on("pointerupoutside", stopPanning);
+  }
+
+  // Everything edited between pointerdown and pointerup is one undo step
+  beginStroke(label: string) {
+    this.endStroke();
+    this.beginEdit(label);
+    this.strokeOpen = true;
+    this.strokeErase = false;
+    this.strokeCells.clear();
+    this.lastPaintGridX = null;
+    this.lastPaintGridY = null;
+  }
+
+  endStroke() {
+    if (!this.strokeOpen) return;
+    this.strokeOpen = false;
+    this.strokeCells.clear();
+    this.commitEdit();
+  }
+
+  // Complete whatever drag the pointer started (stroke, rectangle, selection,
+  // plugin tool press)
+  finishPointerEdit(pointer: Phaser.Input.Pointer) {
+    const { gridX, gridY } = this.pointerToGrid(pointer);
+    if (this.rectStart) {
+      this.finishRectangle(gridX, gridY);
+    }
+    this.selection.finishMove(gridX, gridY);
+    if (this.toolPointer) {
+      const toolPointer = { ...this.toolPointer, gridX, gridY };
+      this.toolPointer = null;
+      this.pluginTools.get(this.currentTool)?.onPointerUp?.(toolPointer, this);
+      // Back to the hover overlay
+      this.lastHoverGridX = -1;
+      this.lastHoverGridY = -1;
+      this.updateHoverPreview(pointer);
+    }
+    this.selectStart = null;
+    this.endStroke();
+  }
+
+  // Follow the pointer while a plugin tool is pressed, once per cell
+  private updateToolPointer(pointer: Phaser.Input.Pointer) {
+    const tool = this.pluginTools.get(this.currentTool);
+    if (!tool || !this.toolPointer) return;
+    const { gridX, gridY } = this.pointerToGrid(pointer);
+    const shiftKey = pointer.event.shiftKey;
+    if (
+      gridX === this.toolPointer.gridX &&
+      gridY === this.toolPointer.gridY &&
+      shiftKey === this.toolPointer.shiftKey
+    ) {
+      return;
+    }
+    this.toolPointer = { ...this.toolPointer, gridX, gridY, shiftKey };
+    tool.onPointerMove?.(this.toolPointer, this);
+    this.drawToolOverlay(tool, this.toolPointer);
+  }
+
+  // Highlight the cells a plugin tool asks for, the hovered cell by default
+  private drawToolOverlay(tool: PluginTool, pointer: ToolPointer) {
+    this.hoverGraphics.clear();
+    const overlay = tool.overlay
+      ? tool.overlay(pointer, this)
+      : { cells: [{ x: pointer.gridX, y: pointer.gridY }] };
+    if (!overlay) return;
+
+    const color = overlay.color ?? 0x00ff00;
+    this.hoverGraphics.lineStyle(2, color, 0.8);
+    this.hoverGraphics.fillStyle(color, 0.2);
+    overlay.cells.forEach(({ x, y }) => {
+      if (!this.isInBounds(x, y)) return;
+      this.traceCell(this.hoverGraphics, x, y);
+      this.hoverGraphics.strokePath();
+      this.hoverGraphics.fillPath();
+    });
+  }
+
+  setTool(tool: ToolMode) {
+    if (tool !== this.currentTool) {
+      // Let the UI follow tool changes made with hotkeys
+      this.eventBus.emit("toolChanged", { tool });
+    }
+    this.currentTool = tool;
+    if (tool === "brush" || tool === "rectangle" || tool === "fill") {
+      this.placementTool = tool;
+    }
+    this.rectStart = null;
+    this.selectStart = null;
+    this.toolPointer = null;
+    if (tool !== "select") {
+      this.selection.set(null);
+    }
+    if (!this.selection.pasting) {
+      this.clearGhosts();
+    }
+    this.lastHoverGridX = -1;
+    this.lastHoverGridY = -1;
+  }
+
+  pointerToGrid(pointer: Phaser.Input.Pointer) {
     const worldPoint = this.cameras.main.getWorldPoint(
       pointer.x,
       pointer.y
     );
-    const gridPos = this.isoToGrid(worldPoint.x, worldPoint.y);
+    return this.isoToGrid(worldPoint.x, worldPoint.y);
+  }
 
-    if (
-      gridPos.gridX < 0 ||
-      gridPos.gridX >= this.gridSize ||
-      gridPos.gridY < 0 ||
-      gridPos.gridY >= this.gridSize
-    ) return;
+  isInBounds(gridX: number, gridY: number) {
+    return (
+      gridX >= 0 &&
+      gridX < this.gridSize &&
+      gridY >= 0 &&
+      gridY < this.gridSize
+    );
+  }
 
+  getSelectedSprite() {
     const assetSet = this.assetSets.get(this.selectedAssetSetId);
-    const spriteData = assetSet?.sprites[this.selectedSpriteIndex];
-    if (!assetSet || !spriteData) return;
+    const sprite = assetSet?.sprites[this.selectedSpriteIndex];
+    if (!assetSet || !sprite) return null;
+    return { assetSet, sprite };
+  }
 
-    const footprint = spriteData.footprint || { width: 1, height: 1 };
-    const origin = spriteData.origin || { x: 0.5, y: 0.5 };
-    const textureKey = assetSet.textureKey;
-    const tileName = spriteData.name;
+  // Footprint of whatever the placement tools will place
+  getSelectedFootprint() {
+    const prefab = this.prefabs.selected;
+    if (prefab) return { width: prefab.width, height: prefab.height };
+    return this.getPlacementSprite()?.footprint || { width: 1, height: 1 };
+  }
 
-    // Check if all footprint cells are within bounds
-    for (let fx = 0; fx < footprint.width; fx++) {
-      for (let fy = 0; fy < footprint.height; fy++) {
-        const tileX = gridPos.gridX + fx;
-        const tileY = gridPos.gridY + fy;
-        if (tileX >= this.gridSize || tileY >= this.gridSize) return;
-      }
+  // The selected sprite as it will be placed: its rotation variant, the
+  // (possibly swapped) footprint and the flip
+  getPlacementSprite() {
+    const selected = this.getSelectedSprite();
+    if (!selected) return null;
+
+    const rotated = this.placementRotation
+      ? rotateSprite(
+        selected.assetSet.sprites,
+        selected.sprite,
+        this.placementRotation
+      )
+      : null;
+    return {
+      assetSet: selected.assetSet,
+      sprite: rotated?.sprite ?? selected.sprite,
+      footprint: rotated?.footprint ??
+        selected.sprite.footprint ?? { width: 1, height: 1 },
+      flipX: this.placementFlipX,
+    };
+  }
+
+  // R: turn the placement clockwise to the next directional variant
+  rotatePlacement() {
+    const selected = this.getSelectedSprite();
+    if (
+      !selected ||
+      !rotateSprite(selected.assetSet.sprites, selected.sprite, 1)
+    ) {
+      return;
     }
+    this.placementRotation = (this.placementRotation + 1) % 4;
+    this.refreshPlacementPreview();
+  }
 
-    // Clear any existing tiles in the footprint area
-    for (let fx = 0; fx < footprint.width; fx++) {
-      for (let fy = 0; fy < footprint.height; fy++) {
-        const tileX = gridPos.gridX + fx;
-        const tileY = gridPos.gridY + fy;
-        const key = `${tileX},${tileY},${this.currentLayer}`;
-        if (this.cityMap.has(key)) {
-          const existing = this.cityMap.get(key);
-          // Only destroy sprite if it's the anchor cell
-          if (existing.isAnchor) {
-            existing.sprite.destroy();
-          }
-          this.cityMap.delete(key);
+  // F: mirror the placement horizontally
+  flipPlacement() {
+    this.placementFlipX = !this.placementFlipX;
+    this.refreshPlacementPreview();
+  }
+
+  private refreshPlacementPreview() {
+    this.lastHoverGridX = -1;
+    this.lastHoverGridY = -1;
+    this.updateHoverPreview(this.input.activePointer);
+    this.emitPlacementChanged();
+  }
+
+  emitPlacementChanged() {
+    const placement = this.getPlacementSprite();
+    this.eventBus.emit("placementChanged", {
+      direction: placement?.sprite.rotation?.direction ?? null,
+      flipX: this.placementFlipX,
+    });
+  }
+
+  // Brush: paint (or erase) every cell between the last painted cell and this
+  // one, so fast drags don't leave gaps
+  paintAt(gridX: number, gridY: number, erase: boolean) {
+    if (gridX === this.lastPaintGridX && gridY === this.lastPaintGridY) return;
+
+    const cells =
+      this.lastPaintGridX === null || this.lastPaintGridY === null
+        ? [{ gridX, gridY }]
+        : gridLine(this.lastPaintGridX, this.lastPaintGridY, gridX, gridY);
+    this.lastPaintGridX = gridX;
+    this.lastPaintGridY = gridY;
+
+    const footprint = this.getSelectedFootprint();
+
+    cells.forEach((cell) => {
+      if (erase) {
+        this.removeTileAt(cell.gridX, cell.gridY);
+        return;
+      }
+
+      // Don't let a multi-tile sprite overwrite one placed earlier in the stroke
+      const footprintKeys: string[] = [];
+      for (let fx = 0; fx < footprint.width; fx++) {
+        for (let fy = 0; fy < footprint.height; fy++) {
+          footprintKeys.push(`${cell.gridX + fx},${cell.gridY + fy}`);
         }
       }
-    }
+      if (footprintKeys.some((key) => this.strokeCells.has(key))) return;
 
-    // Position sprite at the center of the footprint
-    const centerX = gridPos.gridX + (footprint.width - 1) / 2;
-    const centerY = gridPos.gridY + (footprint.height - 1) / 2;
-    const isoPos = this.gridToIso(centerX, centerY);
+      if (this.placeTileAt(cell.gridX, cell.gridY)) {
+        footprintKeys.forEach((key) => this.strokeCells.add(key));
+      }
+    });
+  }
 
-    // Offset Y position for stacking (higher layers appear above)
-    const yOffset = this.currentLayer * 30;
-    const sprite = this.add.image(
-      isoPos.x,
-      isoPos.y - yOffset,
-      textureKey,
-      tileName
+  // Anchor positions that tile a rectangle with the selected footprint
+  getRectanglePlacements(
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    footprint: { width: number; height: number }
+  ) {
+    const minX = Math.max(0, Math.min(startX, endX));
+    const maxX = Math.min(this.gridSize - 1, Math.max(startX, endX));
+    const minY = Math.max(0, Math.min(startY, endY));
+    const maxY = Math.min(this.gridSize - 1, Math.max(startY, endY));
+
+    const placements: Array<{ gridX: number; gridY: number }> = [];
+    for (let y = minY; y + footprint.height - 1 <= maxY; y += footprint.height) {
+      for (let x = minX; x + footprint.width - 1 <= maxX; x += footprint.width) {
+        placements.push({ gridX: x, gridY: y });
+      }
+    }
+    return { minX, maxX, minY, maxY, placements };
+  }
+
+  updateRectanglePreview(gridX: number, gridY: number) {
+    if (!this.rectStart) return;
+
+    const erase = this.rectStart.erase;
+    const footprint = erase
+      ? { width: 1, height: 1 }
+      : this.getSelectedFootprint();
+    const { minX, maxX, minY, maxY, placements } = this.getRectanglePlacements(
+      this.rectStart.gridX,
+      this.rectStart.gridY,
+      gridX,
+      gridY,
+      footprint
     );
-    sprite.setOrigin(origin.x, origin.y);
-    // Depth based on center position
-    sprite.setDepth((centerX + centerY) * 100 + this.currentLayer * 1000);
-
-    // Store anchor cell with sprite
-    const anchorKey = `${gridPos.gridX},${gridPos.gridY},${this.currentLayer}`;
-    this.cityMap.set(anchorKey, {
-      sprite,
-      tileName,
-      textureKey,
-      layer: this.currentLayer,
-      footprint,
-      origin,
-      isAnchor: true,
-    });
+    const color = erase ? 0xff4444 : 0x00ff00;
 
-    // Mark all other footprint cells (non-anchor)
-    for (let fx = 0; fx < footprint.width; fx++) {
-      for (let fy = 0; fy < footprint.height; fy++) {
-        if (fx === 0 && fy === 0) continue; // Skip anchor
-        const tileX = gridPos.gridX + fx;
-        const tileY = gridPos.gridY + fy;
-        const key = `${tileX},${tileY},${this.currentLayer}`;
-        this.cityMap.set(key, {
-          sprite: null,
-          tileName,
-          textureKey,
-          layer: this.currentLayer,
-          footprint,
-          origin,
-          isAnchor: false,
-          anchorKey,
-        });
+    if (this.hoverSprite) {
+      this.hoverSprite.setVisible(false);
+    }
+    this.clearGhosts();
+
+    // Shade the whole rectangle
+    this.hoverGraphics.fillStyle(color, 0.15);
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        this.traceCell(this.hoverGraphics, x, y);
+        this.hoverGraphics.fillPath();
       }
     }
 
-    // Schedule auto-save
-    this.scheduleAutoSave();
+    // Outline every footprint that will be placed
+    this.hoverGraphics.lineStyle(2, color, 0.8);
+    placements.forEach(({ gridX: anchorX, gridY: anchorY }) => {
+      for (let fx = 0; fx < footprint.width; fx++) {
+        for (let fy = 0; fy < footprint.height; fy++) {
+          this.traceCell(this.hoverGraphics, anchorX + fx, anchorY + fy);
+          this.hoverGraphics.strokePath();
+        }
+      }
+    });
+
+    // Force the normal hover preview to redraw once the drag ends
+    this.lastHoverGridX = -1;
+    this.lastHoverGridY = -1;
   }
 
-  removeTile(pointer: Phaser.Input.Pointer) {
-    const worldPoint = this.cameras.main.getWorldPoint(
-      pointer.x,
-      pointer.y
+  finishRectangle(gridX: number, gridY: number) {
+    const start = this.rectStart;
+    this.rectStart = null;
+    this.hoverGraphics.clear();
+    if (!start) return;
+
+    const footprint = start.erase
+      ? { width: 1, height: 1 }
+      : this.getSelectedFootprint();
+    const { placements } = this.getRectanglePlacements(
+      start.gridX,
+      start.gridY,
+      gridX,
+      gridY,
+      footprint
     );
-    const gridPos = this.isoToGrid(worldPoint.x, worldPoint.y);
 
+    this.beginEdit(start.erase ? "Erase rectangle" : "Fill rectangle");
+    placements.forEach((cell) => {
+      if (start.erase) {
+        this.removeTileAt(cell.gridX, cell.gridY);
+      } else {
+        this.placeTileAt(cell.gridX, cell.gridY);
+      }
+    });
+    this.commitEdit();
+  }
+
+  // Replace the 4-connected region of cells on the current layer that hold the
+  // same tileName/textureKey (or are all empty) with the selected sprite/prefab
+  floodFill(startX: number, startY: number) {
+    const selected = this.getPlacementSprite();
+    const prefab = this.prefabs.selected;
+    if ((!selected && !prefab) || !this.isInBounds(startX, startY)) return;
+
+    const layer = this.currentLayer;
+    const signatureAt = (gridX: number, gridY: number) => {
+      const tileData = this.cityMap.get(`${gridX},${gridY},${layer}`);
+      return tileData ? `${tileData.textureKey}/${tileData.tileName}` : "";
+    };
+
+    const target = signatureAt(startX, startY);
     if (
-      gridPos.gridX < 0 ||
-      gridPos.gridX >= this.gridSize ||
-      gridPos.gridY < 0 ||
-      gridPos.gridY >= this.gridSize
-    ) return;
+      !prefab &&
+      target === `${selected!.assetSet.textureKey}/${selected!.sprite.name}`
+    ) {
+      return;
+    }
 
-    const key = `${gridPos.gridX},${gridPos.gridY},${this.currentLayer}`;
+    const region = new Set<string>([`${startX},${startY}`]);
+    const queue = [{ gridX: startX, gridY: startY }];
+    while (queue.length > 0) {
+      const { gridX, gridY } = queue.pop()!;
+      const neighbours = [
+        { gridX: gridX + 1, gridY },
+        { gridX: gridX - 1, gridY },
+        { gridX, gridY: gridY + 1 },
+        { gridX, gridY: gridY - 1 },
+      ];
+      neighbours.forEach((next) => {
+        const key = `${next.gridX},${next.gridY}`;
+        if (
+          region.has(key) ||
+          !this.isInBounds(next.gridX, next.gridY) ||
+          signatureAt(next.gridX, next.gridY) !== target
+        ) {
+          return;
+        }
+        region.add(key);
+        queue.push(next);
+      });
+    }
 
-    if (this.cityMap.has(key)) {
-      const tileData = this.cityMap.get(key);
+    // Place footprints row by row wherever they fit entirely inside the region
+    const footprint = this.getSelectedFootprint();
+    const covered = new Set<string>();
+    const cells = Array.from(region)
+      .map((key) => key.split(",").map(Number))
+      .sort((a, b) => a[1] - b[1] || a[0] - b[0]);
 
-      // Find the anchor cell
-      let anchorKey = key;
-      if (!tileData.isAnchor && tileData.anchorKey) {
-        anchorKey = tileData.anchorKey;
+    this.beginEdit("Flood fill");
+    cells.forEach(([gridX, gridY]) => {
+      const footprintKeys: string[] = [];
+      for (let fx = 0; fx < footprint.width; fx++) {
+        for (let fy = 0; fy < footprint.height; fy++) {
+          footprintKeys.push(`${gridX + fx},${gridY + fy}`);
+        }
+      }
+      if (footprintKeys.some((key) => !region.has(key) || covered.has(key))) {
+        return;
       }
+      if (this.placeTileAt(gridX, gridY)) {
+        footprintKeys.forEach((key) => covered.add(key));
+      }
+    });
+    this.commitEdit();
+  }
 
-      const anchorData = this.cityMap.get(anchorKey);
-      if (anchorData) {
-        // Parse anchor position
-        const [anchorX, anchorY, layer] = anchorKey
-          .split(",")
-          .map(Number);
-        const footprint = anchorData.footprint || { width: 1, height: 1 };
+  clampRect(rect: GridRect): GridRect {
+    const clamp = (value: number) =>
+      Math.max(0, Math.min(value, this.gridSize - 1));
+    return {
+      minX: clamp(rect.minX),
+      minY: clamp(rect.minY),
+      maxX: clamp(rect.maxX),
+      maxY: clamp(rect.maxY),
+    };
+  }
 
-        // Remove all footprint cells
-        for (let fx = 0; fx < footprint.width; fx++) {
-          for (let fy = 0; fy < footprint.height; fy++) {
-            const cellKey = `${anchorX + fx},${anchorY + fy},${layer}`;
-            this.cityMap.delete(cellKey);
-          }
-        }
+  // Whole tiles (all footprint cells) overlapping a rectangle, as anchors in
+  // absolute grid coordinates
+  getTilesInRect(rect: GridRect, allLayers: boolean): ExportedTile[] {
+    return this.cityMap
+      .queryRect(rect, allLayers ? undefined : this.currentLayer)
+      .map((key) => this.getExportedTile(key)!);
+  }
+
+  placeTiles(tiles: ExportedTile[], offsetX: number, offsetY: number) {
+    tiles.forEach((tile) => {
+      this.placeTileData(tile.x + offsetX, tile.y + offsetY, tile.layer, {
+        tileName: tile.tileName,
+        textureKey: tile.textureKey,
+        footprint: tile.footprint || { width: 1, height: 1 },
+        origin: tile.origin || { x: 0.5, y: 0.5 },
+        flipX: tile.flipX,
+        tint: tile.tint,
+        alpha: tile.alpha,
+      });
+    });
+  }
+
+  // Semi-transparent preview sprites for pasted or moved tiles
+  showGhosts(tiles: ExportedTile[]) {
+    this.clearGhosts();
+    this.ghostTiles = tiles;
+    this.ghostSprites = tiles.map((tile) => {
+      const origin = tile.origin || { x: 0.5, y: 0.5 };
+      const sprite = this.add.image(0, 0, tile.textureKey, tile.tileName);
+      sprite.setOrigin(origin.x, origin.y);
+      sprite.setAlpha(0.6 * (tile.alpha ?? 1));
+      sprite.setFlipX(!!tile.flipX);
+      if (tile.tint !== undefined) sprite.setTint(tile.tint);
+      return sprite;
+    });
+    if (this.hoverSprite) {
+      this.hoverSprite.setVisible(false);
+    }
+  }
 
-        // Destroy the sprite
-        if (anchorData.sprite) {
-          anchorData.sprite.destroy();
+  positionGhosts(offsetX: number, offsetY: number, outline = true) {
+    if (outline) {
+      this.hoverGraphics.clear();
+      this.hoverGraphics.lineStyle(2, 0x3b82f6, 0.8);
+    }
+
+    this.ghostTiles.forEach((tile, index) => {
+      const footprint = tile.footprint || { width: 1, height: 1 };
+      const gridX = tile.x + offsetX;
+      const gridY = tile.y + offsetY;
+      const placement = this.getTilePlacement(
+        gridX,
+        gridY,
+        footprint,
+        tile.layer
+      );
+      const sprite = this.ghostSprites[index];
+      sprite.setPosition(placement.x, placement.y);
+      // Above every placed tile, in the same order among themselves
+      sprite.setDepth(placement.depth + 100000);
+
+      if (!outline) return;
+      for (let fx = 0; fx < footprint.width; fx++) {
+        for (let fy = 0; fy < footprint.height; fy++) {
+          this.traceCell(this.hoverGraphics, gridX + fx, gridY + fy);
+          this.hoverGraphics.strokePath();
         }
+      }
+    });
+  }
+
+  clearGhosts() {
+    this.ghostSprites.forEach((sprite) => sprite.destroy());
+    this.ghostSprites = [];
+    this.ghostTiles = [];
+    this.hoverGraphics.clear();
+    // Force the normal hover preview to redraw afterwards
+    this.lastHoverGridX = -1;
+    this.lastHoverGridY = -1;
+  }
 
-        // Schedule auto-save
-        this.scheduleAutoSave();
+  // Draw tiles into a small square PNG, in the same order the scene sorts
+  // them. Used for prefab and project thumbnails.
+  renderThumbnail(tiles: ExportedTile[], size = 92): string {
+    const sprites = tiles
+      .filter(
+        (tile) =>
+          this.textures.exists(tile.textureKey) &&
+          this.textures.get(tile.textureKey).has(tile.tileName)
+      )
+      .map((tile) => {
+        const frame = this.textures.getFrame(tile.textureKey, tile.tileName);
+        const origin = tile.origin || { x: 0.5, y: 0.5 };
+        const placement = this.getTilePlacement(
+          tile.x,
+          tile.y,
+          tile.footprint || { width: 1, height: 1 },
+          tile.layer
+        );
+        return {
+          frame,
+          flipX: !!tile.flipX,
+          alpha: tile.alpha ?? 1,
+          left: placement.x - origin.x * frame.cutWidth,
+          top: placement.y - origin.y * frame.cutHeight,
+          depth: placement.depth,
+        };
+      })
+      .sort((a, b) => a.depth - b.depth);
+    if (sprites.length === 0) return "";
+
+    const minX = Math.min(...sprites.map((s) => s.left));
+    const minY = Math.min(...sprites.map((s) => s.top));
+    const maxX = Math.max(...sprites.map((s) => s.left + s.frame.cutWidth));
+    const maxY = Math.max(...sprites.map((s) => s.top + s.frame.cutHeight));
+    const scale = Math.min(size / (maxX - minX), size / (maxY - minY));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return "";
+
+    const offsetX = (size - (maxX - minX) * scale) / 2;
+    const offsetY = (size - (maxY - minY) * scale) / 2;
+    sprites.forEach(({ frame, flipX, alpha, left, top }) => {
+      ctx.save();
+      ctx.globalAlpha = alpha;
+      ctx.translate(
+        offsetX + (left - minX) * scale,
+        offsetY + (top - minY) * scale
+      );
+      // Mirror within the frame, like Phaser's flipX
+      if (flipX) {
+        ctx.translate(frame.cutWidth * scale, 0);
+        ctx.scale(-1, 1);
       }
+      ctx.drawImage(
+        frame.source.image as CanvasImageSource,
+        frame.cutX,
+        frame.cutY,
+        frame.cutWidth,
+        frame.cutHeight,
+        0,
+        0,
+        frame.cutWidth * scale,
+        frame.cutHeight * scale
+      );
+      ctx.restore();
+    });
+    return canvas.toDataURL();
+  }
+
+  placeTile(pointer: Phaser.Input.Pointer) {
+    const { gridX, gridY } = this.pointerToGrid(pointer);
+    this.placeTileAt(gridX, gridY);
+  }
+
+  // Place the selected sprite (or prefab) with its anchor at the given cell on
+  // the current layer. Returns false if nothing was placed.
+  placeTileAt(gridX: number, gridY: number): boolean {
+    const prefab = this.prefabs.selected;
+    if (prefab) return this.prefabs.placeAt(gridX, gridY, prefab);
+
+    const selected = this.getPlacementSprite();
+    if (!selected) return false;
+
+    return this.placeTileData(gridX, gridY, this.currentLayer, {
+      tileName: selected.sprite.name,
+      textureKey: selected.assetSet.textureKey,
+      footprint: selected.footprint,
+      origin: selected.sprite.origin || { x: 0.5, y: 0.5 },
+      flipX: selected.flipX,
+    });
+  }
+
+  // Place any tile with its anchor at the given cell, replacing whatever
+  // overlaps its footprint. Returns false if it doesn't fit on the grid.
+  placeTileData(
+    gridX: number,
+    gridY: number,
+    layer: number,
+    tile: TileData
+  ): boolean {
+    if (!this.isInBounds(gridX, gridY)) return false;
+    if (this.isLayerLocked(layer)) return false;
+
+    const { footprint } = tile;
+
+    // Check if all footprint cells are within bounds
+    if (
+      gridX + footprint.width > this.gridSize ||
+      gridY + footprint.height > this.gridSize
+    ) {
+      return false;
+    }
+
+    this.beginEdit("Place tile");
+    this.ensureLayer(layer);
+    // Replaces any tiles overlapping the footprint
+    this.cityMap.place(gridX, gridY, layer, tile);
+
+    this.autoTiles.refresh(gridX, gridY, footprint, layer);
+
+    // Records the history entry and schedules auto-save
+    this.commitEdit();
+    return true;
+  }
+
+  removeTile(pointer: Phaser.Input.Pointer) {
+    const { gridX, gridY } = this.pointerToGrid(pointer);
+    this.removeTileAt(gridX, gridY);
+  }
+
+  // Remove the whole tile (all footprint cells) occupying a cell.
+  // Returns false if the cell was empty or its layer is locked.
+  removeTileAt(
+    gridX: number,
+    gridY: number,
+    layer = this.currentLayer
+  ): boolean {
+    if (!this.isInBounds(gridX, gridY)) return false;
+    if (this.isLayerLocked(layer)) return false;
+
+    if (!this.cityMap.getAt(gridX, gridY, layer)) return false;
+
+    this.beginEdit("Remove tile");
+    const removed = this.cityMap.remove(gridX, gridY, layer);
+    if (removed) {
+      const { x, y } = parseCellKey(removed.key);
+      this.autoTiles.refresh(x, y, removed.cell.footprint, layer);
+    }
+    this.commitEdit();
+    return true;
+  }
+
+  getTileSprite(anchorKey: string): Phaser.GameObjects.Image | undefined {
+    return this.tileSprites.get(anchorKey);
+  }
+
+  findSpriteData(textureKey: string, tileName: string) {
+    for (const assetSet of this.assetSets.values()) {
+      if (assetSet.textureKey !== textureKey) continue;
+      const sprite = assetSet.sprites.find((s) => s.name === tileName);
+      if (sprite) return { assetSet, sprite };
     }
+    return null;
+  }
+
+  // Camera
+
+  centerCameraOn(point: GridPoint) {
+    const world = this.gridToIso(point.x - 0.5, point.y - 0.5);
+    this.cameras.main.centerOn(world.x, world.y);
+  }
+
+  // Zoom out (or in) until the whole grid fits in the view, and centre it
+  fitCameraToMap() {
+    const cam = this.cameras.main;
+    const zoom = Math.min(
+      cam.width / (this.gridSize * this.tileWidth),
+      cam.height / (this.gridSize * this.tileHeight)
+    );
+    cam.zoom = Phaser.Math.Clamp(zoom, 0.15, 2);
+    this.centerCameraOn({ x: this.gridSize / 2, y: this.gridSize / 2 });
+  }
+
+  // Eyedropper: select the sprite of the tile at a cell on the current layer.
+  // Returns false if the cell is empty or its sprite is no longer loaded.
+  pickTileAt(gridX: number, gridY: number): boolean {
+    const key = `${gridX},${gridY},${this.currentLayer}`;
+    let tileData = this.cityMap.get(key);
+    if (tileData && !tileData.isAnchor && tileData.anchorKey) {
+      tileData = this.cityMap.get(tileData.anchorKey);
+    }
+    if (!tileData) return false;
+
+    const found = this.findSpriteData(tileData.textureKey, tileData.tileName);
+    if (!found) return false;
+
+    const index = found.assetSet.sprites.indexOf(found.sprite);
+    this.setSelectedTile(index, found.assetSet.id);
+    if (this.placementFlipX !== !!tileData.flipX) {
+      this.flipPlacement();
+    }
+    this.onTileSelect?.(index);
+    this.eventBus.emit("tilePicked", {
+      assetSetId: found.assetSet.id,
+      index,
+    });
+    return true;
   }
 
   setSelectedTile(index: number, assetSetId?: string) {
+    this.prefabs.select(null);
     this.selectedSpriteIndex = index;
+    // A newly selected frame starts out facing its own direction
+    this.placementRotation = 0;
     if (assetSetId && this.assetSets.has(assetSetId)) {
       this.selectedAssetSetId = assetSetId;
     }
     // Force hover update by resetting last position
     this.lastHoverGridX = -1;
     this.lastHoverGridY = -1;
+    this.emitPlacementChanged();
   }
 
   setLayer(layer: number) {
-    this.currentLayer = Math.max(0, Math.min(layer, 10)); // Max 10 layers
+    if (!this.getLayer(layer)) return;
+    this.currentLayer = layer;
+    this.emitLayersChanged();
     this.lastHoverGridX = -1;
     this.lastHoverGridY = -1;
+    // Single-layer clipboard content and prefabs follow the current layer
+    if (!this.selection.refreshPaste()) {
+      this.clearGhosts();
+    }
     console.log("Current layer:", this.currentLayer);
   }
 
+  getLayer(id: number): MapLayer | undefined {
+    return this.layers.find((layer) => layer.id === id);
+  }
+
+  isLayerLocked(id: number): boolean {
+    return !!this.getLayer(id)?.locked;
+  }
+
+  emitLayersChanged() {
+    this.eventBus.emit("layersChanged", {
+      layers: this.layers.map((layer) => ({ ...layer })),
+      currentLayer: this.currentLayer,
+    });
+  }
+
+  // Replace the layer list and restyle every placed tile. Not undoable by
+  // itself; callers wrap it in an edit.
+  setLayers(layers: MapLayer[]) {
+    this.layers = layers.length > 0 ? layers : [createLayer(0)];
+    if (!this.getLayer(this.currentLayer)) {
+      this.currentLayer = this.layers[0].id;
+    }
+
+    this.tileSprites.forEach((sprite, key) => {
+      const cell = this.cityMap.get(key)!;
+      const { x, y } = parseCellKey(key);
+      const placement = this.getTilePlacement(x, y, cell.footprint, cell.layer);
+      sprite.setPosition(placement.x, placement.y);
+      sprite.setDepth(placement.depth);
+      this.applyLayerStyle(sprite, cell);
+    });
+
+    this.lastHoverGridX = -1;
+    this.lastHoverGridY = -1;
+    this.emitLayersChanged();
+  }
+
+  // Add a layer for tiles that refer to a layer id the list doesn't have
+  // (prefabs and clipboard content stacked above the current layer)
+  ensureLayer(id: number) {
+    if (this.getLayer(id)) return;
+    this.setLayers([...this.layers, createLayer(id)]);
+  }
+
+  // Add an empty layer directly above the current one and make it current
+  addLayer(name?: string): MapLayer {
+    const id = Math.max(...this.layers.map((layer) => layer.id)) + 1;
+    const index = this.layers.findIndex((l) => l.id === this.currentLayer);
+    const below = this.layers[index];
+    const layer: MapLayer = {
+      ...createLayer(id, name?.trim() || undefined),
+      heightOffset: (below?.heightOffset ?? 0) + 30,
+    };
+
+    this.beginEdit("Add layer");
+    const layers = [...this.layers];
+    layers.splice(index + 1, 0, layer);
+    this.currentLayer = id;
+    this.setLayers(layers);
+    this.commitEdit();
+    return layer;
+  }
+
+  // Delete a layer and every tile on it. The last layer and locked layers
+  // can't be removed.
+  removeLayer(id: number): boolean {
+    const layer = this.getLayer(id);
+    if (!layer || layer.locked || this.layers.length <= 1) return false;
+
+    this.beginEdit("Delete layer");
+    this.cityMap
+      .findKeys((cell) => cell.layer === id)
+      .forEach((key) => this.cityMap.set(key, null));
+    this.setLayers(this.layers.filter((l) => l.id !== id));
+    this.commitEdit();
+    return true;
+  }
+
+  updateLayer(id: number, changes: MapLayerChanges) {
+    if (!this.getLayer(id)) return;
+    const label =
+      changes.visible !== undefined
+        ? changes.visible
+          ? "Show layer"
+          : "Hide layer"
+        : changes.locked !== undefined
+          ? changes.locked
+            ? "Lock layer"
+            : "Unlock layer"
+          : "Edit layer";
+
+    this.beginEdit(label);
+    this.setLayers(
+      this.layers.map((layer) =>
+        layer.id === id
+          ? {
+              ...layer,
+              ...changes,
+              id,
+              name: changes.name?.trim() || layer.name,
+              opacity: Math.max(
+                0,
+                Math.min(changes.opacity ?? layer.opacity, 1)
+              ),
+            }
+          : layer
+      )
+    );
+    this.commitEdit();
+  }
+
+  // Draw a layer's tiles at another opacity without changing the layer, while
+  // its slider is dragged. Setting the opacity with updateLayer afterwards is
+  // the single undoable edit.
+  previewLayerOpacity(id: number, opacity: number) {
+    const alpha = Math.max(0, Math.min(opacity, 1));
+    this.tileSprites.forEach((sprite, key) => {
+      const cell = this.cityMap.get(key);
+      if (cell?.layer === id) sprite.setAlpha((cell.alpha ?? 1) * alpha);
+    });
+  }
+
+  // Move a layer up (+1) or down (-1) the stack
+  moveLayer(id: number, delta: number) {
+    const index = this.layers.findIndex((layer) => layer.id === id);
+    const target = index + delta;
+    if (index < 0 || target < 0 || target >= this.layers.length) return;
+
+    this.beginEdit("Reorder layers");
+    const layers = [...this.layers];
+    const [layer] = layers.splice(index, 1);
+    layers.splice(target, 0, layer);
+    this.setLayers(layers);
+    this.commitEdit();
+  }
+
+  setTileDimensions(tileWidth: number, tileHeight: number) {
+    this.tileWidth = tileWidth;
+    this.tileHeight = tileHeight;
+    this.lastCameraScrollX = -Infinity; // Force redraw
+    this.tileSearch.refresh();
+  }
+
   setGridVisible(visible: boolean) {
     this.gridVisible = visible;
     this.lastCameraScrollX = -Infinity; // Force redraw
   }
 
-  expandGrid(amount: number) {
-    this.gridSize = Math.max(5, this.gridSize + amount);
+  // Resize the grid without recording an edit
+  setGridSize(gridSize: number) {
+    this.gridSize = gridSize;
     this.lastCameraScrollX = -Infinity; // Force redraw
-    window.dispatchEvent(
-      new CustomEvent("phaserGridSizeChanged", {
-        detail: { gridSize: this.gridSize },
-      })
+    this.eventBus.emit("gridSizeChanged", { gridSize });
+  }
+
+  expandGrid(amount: number) {
+    this.beginEdit("Resize grid");
+    // Bigger grids couldn't be saved (see parseMapDocument)
+    this.setGridSize(
+      Math.min(MAX_GRID_SIZE, Math.max(5, this.gridSize + amount))
     );
-    // Schedule auto-save when grid size changes
-    this.scheduleAutoSave();
+    // Records the history entry and schedules auto-save
+    this.commitEdit();
   }
 
-  exportMap() {
-    const mapData: any[] = [];
-    this.cityMap.forEach((tileData: any, key: string) => {
-      // Only export anchor cells (avoid duplicates for multi-tile sprites)
-      if (!tileData.isAnchor) return;
-
-      const [gridX, gridY, layer] = key.split(",").map(Number);
-      const exportTile: any = {
-        x: gridX,
-        y: gridY,
-        layer: layer || 0,
-        tileName: tileData.tileName,
-        textureKey: tileData.textureKey,
+  // Copy of a custom asset set as it would be saved, or null for built-in sets
+  snapshotCustomAsset(id: string): CustomAssetData | null {
+    const assetSet = this.assetSets.get(id);
+    if (!assetSet?.isCustom || !assetSet.imageDataUrl) return null;
+    return {
+      id: assetSet.id,
+      name: assetSet.name,
+      imageDataUrl: assetSet.imageDataUrl,
+      imageHash: assetSet.imageHash,
+      sprites: assetSet.sprites.map((sprite) => ({ ...sprite })),
+    };
+  }
+
+  // Load (or reload) a custom asset set from its image data URL
+  async loadCustomAssetSet(customAsset: CustomAssetData): Promise<void> {
+    const image = await this.decodeCustomAssetImage(customAsset);
+    this.addCustomAssetSet(customAsset, image);
+  }
+
+  private decodeCustomAssetImage(
+    customAsset: CustomAssetData
+  ): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => {
+        console.error(`Failed to load custom asset image: ${customAsset.name}`);
+        reject(new Error(`Failed to load custom asset: ${customAsset.name}`));
       };
+      img.src = customAsset.imageDataUrl;
+    });
+  }
 
-      // Include footprint if it's multi-tile
-      if (
-        tileData.footprint &&
-        (tileData.footprint.width > 1 || tileData.footprint.height > 1)
-      ) {
-        exportTile.footprint = tileData.footprint;
-      }
+  // Add a custom asset set whose image is already loaded
+  private addCustomAssetSet(
+    customAsset: CustomAssetData,
+    image: HTMLImageElement
+  ) {
+    const textureKey = `texture_${customAsset.id}`;
+    const sprites = customAsset.sprites.map((sprite) => ({ ...sprite }));
+    this.replaceTexture(textureKey, image, sprites);
 
-      // Include origin if it's not the default
-      if (
-        tileData.origin &&
-        (tileData.origin.x !== 0.5 || tileData.origin.y !== 0.5)
-      ) {
-        exportTile.origin = tileData.origin;
+    const assetSet: AssetSet = {
+      id: customAsset.id,
+      name: customAsset.name,
+      textureKey,
+      xmlKey: `custom_${customAsset.id}`,
+      sprites,
+      isCustom: true,
+      imageDataUrl: customAsset.imageDataUrl,
+      imageHash: customAsset.imageHash,
+    };
+    this.assetSets.set(customAsset.id, assetSet);
+
+    // Emit event for UI to update
+    this.eventBus.emit("assetSetLoaded", {
+      assetSet,
+      imagePath: customAsset.imageDataUrl,
+    });
+  }
+
+  // Swap a texture synchronously, recreating placed sprites that use it.
+  // The new image must already be loaded so there is no async gap in which
+  // a sprite could render with a destroyed glTexture.
+  private replaceTexture(
+    textureKey: string,
+    image: HTMLImageElement,
+    sprites: SpriteData[]
+  ) {
+    // Destroy hover sprite before texture manipulation
+    if (this.hoverSprite) {
+      this.hoverSprite.destroy();
+      this.hoverSprite = null;
+    }
+
+    // Temporarily destroy all placed sprites using this texture
+    const keysToRecreate: string[] = [];
+    this.tileSprites.forEach((sprite, key) => {
+      if (this.cityMap.get(key)?.textureKey === textureKey) {
+        sprite.destroy();
+        keysToRecreate.push(key);
       }
+    });
+    keysToRecreate.forEach((key) => this.tileSprites.delete(key));
 
-      mapData.push(exportTile);
+    if (this.textures.exists(textureKey)) {
+      this.textures.remove(textureKey);
+    }
+    this.textures.addImage(textureKey, image);
+    const texture = this.textures.get(textureKey);
+    sprites.forEach((sprite) => {
+      texture.add(sprite.name, 0, sprite.x, sprite.y, sprite.width, sprite.height);
     });
+    this.minimap.forgetSpriteColors(textureKey);
 
-    // Export custom assets
-    const customAssets: any[] = [];
-    this.assetSets.forEach((assetSet) => {
-      if (assetSet.isCustom && assetSet.imageDataUrl) {
-        customAssets.push({
-          id: assetSet.id,
-          name: assetSet.name,
-          imageDataUrl: assetSet.imageDataUrl,
-          sprites: assetSet.sprites.map((sprite) => ({
-            name: sprite.name,
-            x: sprite.x,
-            y: sprite.y,
-            width: sprite.width,
-            height: sprite.height,
-            footprint: sprite.footprint,
-            origin: sprite.origin,
-          })),
-        });
+    keysToRecreate.forEach((key) => {
+      const { x, y } = parseCellKey(key);
+      const cell = this.cityMap.get(key)!;
+      this.tileSprites.set(key, this.createTileSprite(x, y, cell));
+    });
+
+    // Reset hover position to force recreation of hover sprite on next move
+    this.lastHoverGridX = -1;
+    this.lastHoverGridY = -1;
+  }
+
+  // Remove a custom asset set and its texture. Not undoable by itself.
+  unloadCustomAssetSet(id: string) {
+    const textureKey = `texture_${id}`;
+
+    // Reset selection if this asset set was selected
+    if (this.selectedAssetSetId === id) {
+      const remainingIds = Array.from(this.assetSets.keys()).filter(
+        (k) => k !== id
+      );
+      this.selectedAssetSetId = remainingIds[0] || "";
+      this.selectedSpriteIndex = 0;
+    }
+
+    // Clear hover sprite if it uses this texture
+    if (this.hoverSprite) {
+      this.hoverSprite.setVisible(false);
+    }
+
+    // Remove the asset set first, then the texture
+    this.assetSets.delete(id);
+
+    // Use a small delay to ensure all references are cleared before removing
+    // texture, unless the set was loaded again in the meantime (undo)
+    setTimeout(() => {
+      if (!this.assetSets.has(id) && this.textures.exists(textureKey)) {
+        this.textures.remove(textureKey);
       }
+    }, 100);
+
+    this.eventBus.emit("assetSetRemoved", { id });
+  }
+
+  async addCustomAsset(customAsset: CustomAssetData): Promise<boolean> {
+    const before = this.snapshotCustomAsset(customAsset.id);
+    try {
+      await this.loadCustomAssetSet(customAsset);
+    } catch {
+      return false;
+    }
+    console.log(
+      `Added custom asset set: ${customAsset.name} with ${customAsset.sprites.length} sprites`
+    );
+
+    this.beginEdit("Add asset set");
+    this.recordAssetChange(customAsset.id, before, customAsset);
+    this.commitEdit();
+    return true;
+  }
+
+  // Append a sprite image below the existing content of a custom sheet
+  async addSpriteToAsset(
+    assetId: string,
+    imageDataUrl: string,
+    sprite: SpriteData
+  ): Promise<boolean> {
+    const before = this.snapshotCustomAsset(assetId);
+    if (!before) return false;
+
+    const img = new Image();
+    const loaded = await new Promise<boolean>((resolve) => {
+      img.onload = () => resolve(true);
+      img.onerror = () => resolve(false);
+      img.src = imageDataUrl;
     });
+    if (!loaded) {
+      console.error("Failed to load sprite image");
+      return false;
+    }
 
-    const jsonData = {
-      version: "4.0",
-      gridSize: this.gridSize,
-      originOffsetX: this.originOffsetX,
-      originOffsetY: this.originOffsetY,
-      tileWidth: this.tileWidth,
-      tileHeight: this.tileHeight,
-      customAssets: customAssets,
-      tiles: mapData,
-      timestamp: new Date().toISOString(),
+    const existingSource = this.textures
+      .get(`texture_${assetId}`)
+      .getSourceImage() as HTMLImageElement;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(existingSource.width, img.width);
+    canvas.height = existingSource.height + img.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return false;
+
+    // Draw existing texture, then the new sprite below existing content
+    ctx.drawImage(existingSource, 0, 0);
+    const newSpriteY = existingSource.height;
+    ctx.drawImage(img, 0, newSpriteY);
+
+    const after: CustomAssetData = {
+      ...before,
+      imageDataUrl: canvas.toDataURL(),
+      imageHash: undefined,
+      sprites: [
+        ...before.sprites,
+        { ...sprite, x: 0, y: newSpriteY, width: img.width, height: img.height },
+      ],
     };
 
+    try {
+      await this.loadCustomAssetSet(after);
+    } catch {
+      return false;
+    }
+    console.log(`Added sprite ${sprite.name} to asset set ${assetId}`);
+
+    this.beginEdit("Add sprite");
+    this.recordAssetChange(assetId, before, after);
+    this.commitEdit();
+    return true;
+  }
+
+  // Remove a single sprite from a custom asset set, along with its placements
+  async removeSpriteFromAsset(
+    assetId: string,
+    spriteIndex: number
+  ): Promise<boolean> {
+    const before = this.snapshotCustomAsset(assetId);
+    if (!before) return false;
+    if (spriteIndex < 0 || spriteIndex >= before.sprites.length) return false;
+
+    const textureKey = `texture_${assetId}`;
+    const removedSprite = before.sprites[spriteIndex];
+    const remainingSprites = before.sprites.filter((_, i) => i !== spriteIndex);
+
+    // Rebuild the sheet with the remaining sprites packed vertically
+    const existingSource = this.textures
+      .get(textureKey)
+      .getSourceImage() as HTMLImageElement;
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, ...remainingSprites.map((s) => s.width));
+    canvas.height = Math.max(
+      1,
+      remainingSprites.reduce((total, s) => total + s.height, 0)
+    );
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return false;
+
+    let yOffset = 0;
+    const packedSprites = remainingSprites.map((s) => {
+      ctx.drawImage(
+        existingSource,
+        s.x,
+        s.y,
+        s.width,
+        s.height,
+        0,
+        yOffset,
+        s.width,
+        s.height
+      );
+      const packed = { ...s, x: 0, y: yOffset };
+      yOffset += s.height;
+      return packed;
+    });
+
+    const after: CustomAssetData = {
+      ...before,
+      imageDataUrl: canvas.toDataURL(),
+      imageHash: undefined,
+      sprites: packedSprites,
+    };
+
+    this.beginEdit("Delete sprite");
+    try {
+      // Remove all placed tiles that use this specific sprite
+      this.cityMap
+        .findKeys(
+          (cell) =>
+            cell.textureKey === textureKey &&
+            cell.tileName === removedSprite.name
+        )
+        .forEach((key) => this.cityMap.set(key, null));
+
+      await this.loadCustomAssetSet(after);
+      this.recordAssetChange(assetId, before, after);
+    } catch (error) {
+      console.error("Error removing sprite:", error);
+      return false;
+    } finally {
+      this.commitEdit();
+    }
+
+    // Update selected sprite index if needed
+    if (
+      this.selectedAssetSetId === assetId &&
+      this.selectedSpriteIndex >= packedSprites.length
+    ) {
+      this.selectedSpriteIndex = Math.max(0, packedSprites.length - 1);
+    }
+    return true;
+  }
+
+  removeCustomAsset(id: string): boolean {
+    if (!this.assetSets.has(id)) return false;
+    const textureKey = `texture_${id}`;
+
+    this.beginEdit("Delete asset set");
+
+    // First, remove all placed tiles that use this texture
+    this.cityMap
+      .findKeys((cell) => cell.textureKey === textureKey)
+      .forEach((key) => this.cityMap.set(key, null));
+
+    this.recordAssetChange(id, this.snapshotCustomAsset(id), null);
+    this.unloadCustomAssetSet(id);
+
+    this.commitEdit();
+    return true;
+  }
+
+  exportMap() {
+    // Export custom assets with their images inlined so the file is portable,
+    // along with the prefab library
+    const jsonData = serializeMap({
+      ...this.getMapModel(true),
+      prefabs: this.prefabs.getAll(),
+    });
+
     const dataStr = JSON.stringify(jsonData, null, 2);
     const dataBlob = new Blob([dataStr], { type: "application/json" });
     const url = URL.createObjectURL(dataBlob);
@@ -957,167 +2629,104 @@ export class CityBuilder extends Phaser.Scene {
     link.click();
     URL.revokeObjectURL(url);
 
-    console.log("Map exported with", mapData.length, "tiles");
+    console.log("Map exported with", jsonData.tiles.length, "tiles");
   }
 
-  async loadMap(jsonData: any) {
-    try {
-      // Clear existing map
-      this.cityMap.forEach((tileData: any) => {
-        if (tileData.sprite) tileData.sprite.destroy();
-      });
-      this.cityMap.clear();
+  // The map as exported, without the prefab library, for links to the viewer
+  getShareableMap(): MapDocument {
+    return serializeMap(this.getMapModel(true));
+  }
 
-      // Restore origin offset from save data, or compute from gridSize for legacy maps
-      if (jsonData.originOffsetX !== undefined) {
-        this.originOffsetX = jsonData.originOffsetX;
-        this.originOffsetY = jsonData.originOffsetY ?? 200;
-      } else if (jsonData.gridSize) {
-        this.originOffsetX = (jsonData.gridSize * this.tileWidth) / 2;
-        this.originOffsetY = 200;
-      }
+  // Load saved map JSON of any supported version. Throws a MapValidationError,
+  // leaving the current map untouched, if the map is rejected.
+  async loadMap(data: unknown) {
+    await this.applyMap(await this.prepareMap(data));
+  }
 
-      // Load custom assets first if they exist
-      if (jsonData.customAssets && jsonData.customAssets.length > 0) {
-        console.log(`Loading ${jsonData.customAssets.length} custom assets...`);
-
-        for (const customAsset of jsonData.customAssets) {
-          const textureKey = `texture_${customAsset.id}`;
-
-          // Load the image as a texture
-          await new Promise<void>((resolve, reject) => {
-            const img = new Image();
-            img.onload = () => {
-              try {
-                // Remove existing texture if it exists
-                if (this.textures.exists(textureKey)) {
-                  this.textures.remove(textureKey);
-                }
-
-                // Add texture to Phaser
-                this.textures.addImage(textureKey, img);
-                const sourceTexture = this.textures.get(textureKey);
-
-                // Add frames for each sprite
-                customAsset.sprites.forEach((sprite: any) => {
-                  sourceTexture.add(
-                    sprite.name,
-                    0,
-                    sprite.x,
-                    sprite.y,
-                    sprite.width,
-                    sprite.height
-                  );
-                });
-
-                // Create asset set
-                const assetSet = {
-                  id: customAsset.id,
-                  name: customAsset.name,
-                  textureKey,
-                  xmlKey: `custom_${customAsset.id}`,
-                  sprites: customAsset.sprites,
-                  isCustom: true,
-                  imageDataUrl: customAsset.imageDataUrl,
-                };
-
-                this.assetSets.set(customAsset.id, assetSet);
-                console.log(`Loaded custom asset: ${customAsset.name}`);
-
-                // Emit event for UI to update
-                window.dispatchEvent(
-                  new CustomEvent("phaserAssetSetLoaded", {
-                    detail: { assetSet, imagePath: customAsset.imageDataUrl },
-                  })
-                );
-
-                resolve();
-              } catch (error) {
-                console.error("Error adding texture:", error);
-                reject(error);
-              }
-            };
-            img.onerror = () => {
-              console.error(`Failed to load custom asset image: ${customAsset.name}`);
-              reject(new Error(`Failed to load custom asset: ${customAsset.name}`));
-            };
-            img.src = customAsset.imageDataUrl;
-          });
+  // Everything loading a map needs that can fail: the checked map and the
+  // loaded images of its custom assets. Throws a MapValidationError naming
+  // each asset whose image can't be loaded.
+  async prepareMap(data: unknown): Promise<PreparedMap> {
+    const map = deserializeMap(data);
+    const pluginData = this.deserializePluginData(map.plugins);
+
+    const assets: PreparedMap["assets"] = [];
+    const errors: string[] = [];
+    for (const [index, savedAsset] of map.customAssets.entries()) {
+      const path = `customAssets[${index}]`;
+      try {
+        const customAsset = await this.resolveCustomAssetImage(savedAsset);
+        if (!customAsset) {
+          errors.push(`${path}: the image of ${savedAsset.name} is missing`);
+          continue;
         }
+        const image = await this.decodeCustomAssetImage(customAsset);
+        assets.push({ customAsset, image });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${path}: ${message}`);
       }
+    }
+    if (errors.length > 0) throw new MapValidationError(errors);
 
-      // Load tiles from JSON
-      jsonData.tiles.forEach((tile: any) => {
-        const footprint = tile.footprint || { width: 1, height: 1 };
-        const origin = tile.origin || { x: 0.5, y: 0.5 };
-        const layer = tile.layer || 0;
-
-        // Handle legacy textureKey format (convert old format to new)
-        let textureKey = tile.textureKey;
-        if (textureKey === "cityTiles") textureKey = "texture_tiles";
-        else if (textureKey === "cityDetails")
-          textureKey = "texture_details";
-        else if (textureKey === "buildingTiles")
-          textureKey = "texture_buildings";
-        else if (!textureKey.startsWith("texture_"))
-          textureKey = `texture_${textureKey}`;
-
-        // Position sprite at the center of the footprint
-        const centerX = tile.x + (footprint.width - 1) / 2;
-        const centerY = tile.y + (footprint.height - 1) / 2;
-        const isoPos = this.gridToIso(centerX, centerY);
-        const yOffset = layer * 30;
-
-        const sprite = this.add.image(
-          isoPos.x,
-          isoPos.y - yOffset,
-          textureKey,
-          tile.tileName
-        );
-        sprite.setOrigin(origin.x, origin.y);
-        sprite.setDepth((centerX + centerY) * 100 + layer * 1000);
-
-        // Store anchor cell
-        const anchorKey = `${tile.x},${tile.y},${layer}`;
-        this.cityMap.set(anchorKey, {
-          sprite,
-          tileName: tile.tileName,
-          textureKey,
-          layer,
-          footprint,
-          origin,
-          isAnchor: true,
-        });
+    return { map, pluginData, assets };
+  }
 
-        // Mark all other footprint cells
-        for (let fx = 0; fx < footprint.width; fx++) {
-          for (let fy = 0; fy < footprint.height; fy++) {
-            if (fx === 0 && fy === 0) continue;
-            const cellKey = `${tile.x + fx},${tile.y + fy},${layer}`;
-            this.cityMap.set(cellKey, {
-              sprite: null,
-              tileName: tile.tileName,
-              textureKey,
-              layer,
-              footprint,
-              origin,
-              isAnchor: false,
-              anchorKey,
-            });
-          }
-        }
+  // Replace the map with a prepared one, as a single undoable edit
+  async applyMap({ map, pluginData, assets }: PreparedMap) {
+    this.beginEdit("Load map");
+    try {
+      this.cityMap.clear();
+      Array.from(this.pluginData.keys()).forEach((id) => {
+        if (!pluginData.has(id)) this.writePluginData(id, undefined);
+      });
+      pluginData.forEach((value, id) => this.writePluginData(id, value));
+
+      this.setGridSize(map.gridSize);
+      this.originOffsetX = map.originOffsetX;
+      this.originOffsetY = map.originOffsetY;
+      this.setLayers(map.layers);
+
+      // Custom assets first, so the cells using them can be drawn
+      assets.forEach(({ customAsset, image }) => {
+        const before = this.snapshotCustomAsset(customAsset.id);
+        this.addCustomAssetSet(customAsset, image);
+        this.recordAssetChange(customAsset.id, before, customAsset);
       });
 
-      console.log("Map loaded with", jsonData.tiles.length, "tiles");
+      map.cells.forEach((cell, key) => this.cityMap.set(key, cell));
 
-      // Save to local storage after importing a map
-      this.saveToLocalStorage();
-    } catch (error) {
-      console.error("Error loading map:", error);
+      // Prefabs are a library rather than map content, so they are merged
+      // in and not part of the undoable edit
+      if (map.prefabs && map.prefabs.length > 0 && !this.readOnly) {
+        await this.prefabs.add(map.prefabs);
+      }
+
+      console.log("Map loaded with", map.cells.size, "cells");
+    } finally {
+      this.commitEdit();
     }
   }
 
+  // Tell the UI a stored map (of a project or snapshot) couldn't be loaded
+  reportLoadFailure(source: string, error: unknown) {
+    this.eventBus.emit("mapLoadFailed", {
+      source,
+      errors:
+        error instanceof MapValidationError
+          ? error.errors
+          : [error instanceof Error ? error.message : String(error)],
+    });
+  }
+
   update() {
+    // Once per frame, however many cells an edit changed
+    this.sceneModules.forEach((module) => module.update?.());
+    if (this.mapRevision !== this.reportedRevision) {
+      this.reportedRevision = this.mapRevision;
+      this.eventBus.emit("mapChanged", { revision: this.mapRevision });
+    }
+
     // Don't handle keys when user is typing in input fields
     if (this.isUserTyping()) return;
 
@@ -1147,6 +2756,7 @@ export class CityBuilder extends Phaser.Scene {
       this.lastCameraScrollY = cam.scrollY;
       this.lastCameraZoom = cam.zoom;
       this.drawVisibleGrid();
+      this.sceneModules.forEach((module) => module.cameraMoved?.());
     }
   }
 }
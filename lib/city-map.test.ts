@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { CellChange, CityMap, TileData } from "./city-map";
+
+const house: TileData = {
+  tileName: "house_01",
+  textureKey: "texture_buildings",
+  footprint: { width: 2, height: 3 },
+  origin: { x: 0.5, y: 1 },
+};
+
+const grass: TileData = {
+  tileName: "grass_01_01",
+  textureKey: "texture_floors",
+  footprint: { width: 1, height: 1 },
+  origin: { x: 0.5, y: 0.5 },
+};
+
+describe("place", () => {
+  it("links every footprint cell to the anchor", () => {
+    const map = new CityMap();
+    expect(map.place(3, 4, 1, house)).toBe("3,4,1");
+    expect(map.size).toBe(6);
+
+    expect(map.get("3,4,1")).toMatchObject({
+      tileName: "house_01",
+      layer: 1,
+      isAnchor: true,
+    });
+    expect(map.get("3,4,1")?.anchorKey).toBeUndefined();
+    ["4,4,1", "3,5,1", "4,6,1"].forEach((key) => {
+      expect(map.get(key)).toMatchObject({
+        tileName: "house_01",
+        isAnchor: false,
+        anchorKey: "3,4,1",
+      });
+      expect(map.getAnchorKey(key)).toBe("3,4,1");
+    });
+    expect(map.getAt(5, 4, 1)).toBeUndefined();
+  });
+
+  it("replaces the whole of every tile it overlaps", () => {
+    const map = new CityMap();
+    map.place(3, 4, 0, house);
+    map.place(4, 6, 0, grass);
+
+    expect(map.size).toBe(1);
+    expect(map.get("4,6,0")).toMatchObject({
+      tileName: "grass_01_01",
+      isAnchor: true,
+    });
+  });
+
+  it("keeps tiles on other layers", () => {
+    const map = new CityMap();
+    map.place(3, 4, 0, house);
+    map.place(3, 4, 1, grass);
+    expect(map.getAnchorKey("4,5,0")).toBe("3,4,0");
+    expect(map.size).toBe(7);
+  });
+});
+
+describe("remove", () => {
+  it("removes the whole tile from any of its cells", () => {
+    const map = new CityMap();
+    map.place(3, 4, 0, house);
+    map.place(5, 4, 0, grass);
+
+    expect(map.remove(4, 6, 0)).toMatchObject({
+      key: "3,4,0",
+      cell: { tileName: "house_01", isAnchor: true },
+    });
+    expect(Array.from(map.cells.keys())).toEqual(["5,4,0"]);
+    expect(map.remove(4, 6, 0)).toBeNull();
+  });
+
+  it("leaves cells in the footprint that belong to another tile", () => {
+    const other = new CityMap();
+    other.place(4, 6, 0, grass);
+    const map = new CityMap();
+    map.place(3, 4, 0, house);
+    map.set("4,6,0", other.get("4,6,0")!);
+
+    map.remove(3, 4, 0);
+    expect(Array.from(map.cells.keys())).toEqual(["4,6,0"]);
+  });
+
+  it("removes a footprint cell whose anchor is gone on its own", () => {
+    const map = new CityMap();
+    map.place(3, 4, 0, house);
+    map.set("3,4,0", null);
+
+    expect(map.getAnchorKey("4,5,0")).toBeNull();
+    expect(map.remove(4, 5, 0)).toBeNull();
+    expect(map.has("4,5,0")).toBe(false);
+    expect(map.size).toBe(4);
+  });
+});
+
+describe("subscribe", () => {
+  it("reports every cell write with its before and after", () => {
+    const map = new CityMap();
+    const changes: CellChange[] = [];
+    map.subscribe((change) => changes.push(change));
+
+    map.place(0, 0, 0, { ...house, footprint: { width: 2, height: 1 } });
+    expect(changes).toMatchObject([
+      { key: "0,0,0", before: null, after: { isAnchor: true } },
+      { key: "1,0,0", before: null, after: { anchorKey: "0,0,0" } },
+    ]);
+
+    changes.length = 0;
+    const anchor = map.get("0,0,0");
+    map.remove(1, 0, 0);
+    expect(changes).toHaveLength(2);
+    expect(changes[0]).toEqual({ key: "0,0,0", before: anchor, after: null });
+    expect(changes.every((change) => change.after === null)).toBe(true);
+  });
+
+  it("skips writes that change nothing and stops after unsubscribing", () => {
+    const map = new CityMap();
+    const changes: CellChange[] = [];
+    const unsubscribe = map.subscribe((change) => changes.push(change));
+
+    map.set("2,2,0", null);
+    expect(changes).toHaveLength(0);
+
+    unsubscribe();
+    map.place(2, 2, 0, grass);
+    expect(changes).toHaveLength(0);
+  });
+
+  it("reports each removed cell when the map is cleared", () => {
+    const map = new CityMap();
+    map.place(3, 4, 0, house);
+    const removed: string[] = [];
+    map.subscribe(({ key, after }) => {
+      if (!after) removed.push(key);
+    });
+
+    map.clear();
+    expect(removed).toHaveLength(6);
+    expect(map.size).toBe(0);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Headless city map model
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * Cells are keyed "x,y,layer". A tile covers a footprint of cells: the anchor
+ * cell at its top corner, plus cells pointing back at the anchor. Every write
+ * is reported to subscribers, which is how the scene keeps its sprites and
+ * undo history in step with the model.
+ */
+
+import { GridRect, TileCell } from "./game-types";
+import { cellKey, pickInstanceProps } from "./map-serializer";
+
+export interface CellChange {
+  key: string;
+  before: TileCell | null;
+  after: TileCell | null;
+}
+
+export type CellChangeListener = (change: CellChange) => void;
+
+// What a placed tile is made of; the model fills in the per-cell fields
+export type TileData = Pick<
+  TileCell,
+  "tileName" | "textureKey" | "footprint" | "origin" | "flipX" | "tint" | "alpha"
+>;
+
+export function parseCellKey(key: string) {
+  const [x, y, layer] = key.split(",").map(Number);
+  return { x, y, layer: layer || 0 };
+}
+
+export class CityMap {
+  private cellMap = new Map<string, TileCell>();
+  private listeners = new Set<CellChangeListener>();
+
+  /**
+   * Read-only view of every cell, in the order they were written
+   */
+  get cells(): ReadonlyMap<string, TileCell> {
+    return this.cellMap;
+  }
+
+  get size() {
+    return this.cellMap.size;
+  }
+
+  get(key: string): TileCell | undefined {
+    return this.cellMap.get(key);
+  }
+
+  getAt(x: number, y: number, layer: number): TileCell | undefined {
+    return this.cellMap.get(cellKey(x, y, layer));
+  }
+
+  has(key: string): boolean {
+    return this.cellMap.has(key);
+  }
+
+  forEach(callback: (cell: TileCell, key: string) => void) {
+    this.cellMap.forEach((cell, key) => callback(cell, key));
+  }
+
+  /**
+   * Calls the listener after every cell write. Returns an unsubscribe function.
+   */
+  subscribe(listener: CellChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Replaces the contents of a single cell. Cells are stored as given and
+   * never modified afterwards, so callers must not modify them either.
+   */
+  set(key: string, cell: TileCell | null) {
+    const before = this.cellMap.get(key) ?? null;
+    if (!before && !cell) return;
+
+    if (cell) {
+      this.cellMap.set(key, cell);
+    } else {
+      this.cellMap.delete(key);
+    }
+    const change: CellChange = { key, before, after: cell };
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  clear() {
+    Array.from(this.cellMap.keys()).forEach((key) => this.set(key, null));
+  }
+
+  /**
+   * Key of the anchor of the tile covering a cell, or null if the cell is
+   * empty or its anchor is gone
+   */
+  getAnchorKey(key: string): string | null {
+    const cell = this.cellMap.get(key);
+    if (!cell) return null;
+    const anchorKey = cell.isAnchor ? key : cell.anchorKey;
+    return anchorKey && this.cellMap.has(anchorKey) ? anchorKey : null;
+  }
+
+  /**
+   * Places a tile with its anchor at the given cell, first removing every
+   * tile that overlaps its footprint. Returns the anchor key.
+   */
+  place(x: number, y: number, layer: number, tile: TileData): string {
+    const { tileName, textureKey, footprint, origin } = tile;
+    const shared = {
+      tileName,
+      textureKey,
+      layer,
+      footprint,
+      origin,
+      ...pickInstanceProps(tile),
+    };
+
+    for (let fx = 0; fx < footprint.width; fx++) {
+      for (let fy = 0; fy < footprint.height; fy++) {
+        this.remove(x + fx, y + fy, layer);
+      }
+    }
+
+    const anchorKey = cellKey(x, y, layer);
+    this.set(anchorKey, { ...shared, isAnchor: true });
+    for (let fx = 0; fx < footprint.width; fx++) {
+      for (let fy = 0; fy < footprint.height; fy++) {
+        if (fx === 0 && fy === 0) continue;
+        this.set(cellKey(x + fx, y + fy, layer), {
+          ...shared,
+          isAnchor: false,
+          anchorKey,
+        });
+      }
+    }
+    return anchorKey;
+  }
+
+  /**
+   * Removes the whole tile (every footprint cell) covering a cell. Returns
+   * the removed anchor, or null if the cell was empty. An orphaned footprint
+   * cell whose anchor is gone is removed on its own.
+   */
+  remove(
+    x: number,
+    y: number,
+    layer: number
+  ): { key: string; cell: TileCell } | null {
+    const key = cellKey(x, y, layer);
+    if (!this.cellMap.has(key)) return null;
+
+    const anchorKey = this.getAnchorKey(key);
+    if (!anchorKey) {
+      this.set(key, null);
+      return null;
+    }
+
+    const anchor = this.cellMap.get(anchorKey)!;
+    const { x: anchorX, y: anchorY } = parseCellKey(anchorKey);
+    for (let fx = 0; fx < anchor.footprint.width; fx++) {
+      for (let fy = 0; fy < anchor.footprint.height; fy++) {
+        const footprintKey = cellKey(anchorX + fx, anchorY + fy, layer);
+        const cell = this.cellMap.get(footprintKey);
+        // Only cells that still belong to this anchor
+        if (
+          cell &&
+          (footprintKey === anchorKey || cell.anchorKey === anchorKey)
+        ) {
+          this.set(footprintKey, null);
+        }
+      }
+    }
+    // A cell that claimed the anchor without being in its footprint
+    this.set(key, null);
+    return { key: anchorKey, cell: anchor };
+  }
+
+  /**
+   * Anchor keys of the tiles with any footprint cell inside a rectangle, on
+   * one layer or all of them
+   */
+  queryRect(rect: GridRect, layer?: number): string[] {
+    const anchorKeys = new Set<string>();
+    this.cellMap.forEach((cell, key) => {
+      const { x, y } = parseCellKey(key);
+      if (layer !== undefined && cell.layer !== layer) return;
+      if (x < rect.minX || x > rect.maxX || y < rect.minY || y > rect.maxY) {
+        return;
+      }
+      const anchorKey = this.getAnchorKey(key);
+      if (anchorKey) anchorKeys.add(anchorKey);
+    });
+    return Array.from(anchorKeys);
+  }
+
+  /**
+   * Keys of the cells matching a predicate, e.g. every cell of a texture
+   */
+  findKeys(predicate: (cell: TileCell, key: string) => boolean): string[] {
+    const keys: string[] = [];
+    this.cellMap.forEach((cell, key) => {
+      if (predicate(cell, key)) keys.push(key);
+    });
+    return keys;
+  }
+}
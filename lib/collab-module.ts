@@ -0,0 +1,462 @@
+/**
+ * Collaboration: shares the map with the other editors in a room of the
+ * collaboration server (client in lib/collab.ts) and draws their cursors
+ *
+ * Cells written here are sent once per frame, even during a stroke; other
+ * editors' cells are applied between local edits, so they never become part
+ * of the undo history. Layers, custom asset sets and plugin data are shared
+ * the same way, as values in the form a saved map has them; other editors'
+ * values are applied before their cells, which may use them.
+ */
+
+import Phaser from "phaser";
+import {
+  CellOp,
+  CollabClient,
+  CollabStamp,
+  CollabWelcome,
+  ValueOp,
+} from "./collab";
+import type { CollabPresence, CollabState } from "./game-types";
+import { parseCustomAsset, parseLayers } from "./map-schema";
+import { ModuleScene, SceneModule } from "./scene-modules";
+
+// "asset:<id>" and "plugin:<id>" into their kind and id
+function splitValueKey(key: string): [string, string] {
+  const colon = key.indexOf(":");
+  return [key.slice(0, colon), key.slice(colon + 1)];
+}
+
+export class CollabModule implements SceneModule {
+  private scene: ModuleScene;
+  private client: CollabClient | null = null; // Connection to a room
+  private projectId: string | null = null; // Project open when joining
+  private state: CollabState = {
+    status: "disconnected",
+    room: null,
+    name: null,
+    color: null,
+    peers: [],
+  };
+  private welcome: CollabWelcome | null = null; // Joined, waiting for the edit in progress
+  private outbox = new Set<string>(); // Keys of cells written locally, sent once per frame
+  private inbox: CellOp[] = []; // Other editors' writes, applied between local edits
+  private grid: { gridSize: number; stamp: CollabStamp } | null = null; // Like the inbox
+  private roomGridSize = 0; // Grid size the room has
+  private applyingRemote = false; // Writing other editors' cells, which aren't sent back
+  private valueOutbox = new Set<string>(); // Keys of values changed locally
+  private valueInbox: ValueOp[] = [];
+  private roomValues = new Map<string, string>(); // JSON the room has by key, not sent again
+  private loadingValues = false; // Other editors' cells wait for their asset images
+  private presenceGraphics!: Phaser.GameObjects.Graphics;
+  private presenceLabels = new Map<string, Phaser.GameObjects.Text>(); // Names, by editor id
+  private presenceDirty = false; // Redraw other editors' cursors on the next frame
+  private stopListening: Array<() => void>;
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+    scene.cityMap.subscribe(({ key }) => {
+      if (this.client && !this.applyingRemote) this.outbox.add(key);
+    });
+    const { eventBus } = scene;
+    this.stopListening = [
+      // A room shares the map of one project
+      eventBus.on("projectsChanged", ({ currentProjectId }) => {
+        if (currentProjectId !== this.projectId) this.leave();
+      }),
+      eventBus.on("layersChanged", () => this.valueChanged("layers")),
+      eventBus.on("assetSetLoaded", ({ assetSet }) => {
+        if (assetSet.isCustom) this.valueChanged(`asset:${assetSet.id}`);
+      }),
+      eventBus.on("assetSetRemoved", ({ id }) =>
+        this.valueChanged(`asset:${id}`)
+      ),
+      eventBus.on("pluginDataChanged", ({ pluginId }) =>
+        this.valueChanged(`plugin:${pluginId}`)
+      ),
+    ];
+  }
+
+  create() {
+    this.presenceGraphics = this.scene.add.graphics();
+    this.presenceGraphics.setDepth(9996);
+  }
+
+  update() {
+    if (this.client?.connected) this.flush();
+    if (this.presenceDirty) this.drawPresence();
+  }
+
+  cameraMoved() {
+    if (this.presenceLabels.size > 0) this.presenceDirty = true;
+  }
+
+  destroy() {
+    this.stopListening.forEach((stop) => stop());
+    this.leave();
+  }
+
+  getState(): CollabState {
+    return this.state;
+  }
+
+  private setState(changes: Partial<CollabState>) {
+    this.state = { ...this.state, ...changes };
+    this.scene.eventBus.emit("collabChanged", this.state);
+  }
+
+  // Join a room of the collaboration server at url. The first editor in a
+  // new room brings the map; the open project of everyone joining later is
+  // replaced by the room's map.
+  join(url: string, room: string, name: string) {
+    if (this.scene.readOnly) return;
+    this.leave();
+    try {
+      this.client = new CollabClient(url, room, name, {
+        onWelcome: (welcome) => {
+          this.welcome = welcome;
+        },
+        onCells: (ops) => {
+          this.inbox = this.inbox.concat(ops);
+        },
+        onValues: (ops) => {
+          this.valueInbox = this.valueInbox.concat(ops);
+        },
+        onGrid: (gridSize, stamp) => {
+          this.grid = { gridSize, stamp };
+        },
+        onPeersChanged: (peers) => {
+          this.presenceDirty = true;
+          this.setState({ peers });
+        },
+        onPresenceChanged: () => {
+          this.presenceDirty = true;
+        },
+        onClose: (message) => this.leave(message),
+      });
+    } catch {
+      this.setState({
+        message: `${url} isn't the address of a collaboration server`,
+      });
+      return;
+    }
+    this.projectId = this.scene.projects.currentId;
+    this.setState({
+      status: "connecting",
+      room,
+      name,
+      color: null,
+      peers: [],
+      message: undefined,
+    });
+  }
+
+  // Leave the room, keeping the map as it is. message explains why, when
+  // the connection was lost.
+  leave(message?: string) {
+    if (!this.client) return;
+    this.client.close();
+    this.client = null;
+    this.welcome = null;
+    this.outbox.clear();
+    this.inbox = [];
+    this.grid = null;
+    this.valueOutbox.clear();
+    this.valueInbox = [];
+    this.roomValues.clear();
+    this.presenceDirty = true;
+    this.setState({
+      status: "disconnected",
+      room: null,
+      name: null,
+      color: null,
+      peers: [],
+      message,
+    });
+  }
+
+  // Show the other editors where this one's cursor is, null when it left
+  // the map
+  sendPresence(presence: CollabPresence | null) {
+    this.client?.sendPresence(presence);
+  }
+
+  // Once per frame while connected
+  private flush() {
+    const client = this.client!;
+    const { cityMap } = this.scene;
+    if (this.welcome) {
+      if (this.scene.editing) return;
+      this.enterRoom(this.welcome);
+      this.welcome = null;
+    }
+
+    // Values first, as the cells may use them. Local changes wait for other
+    // editors' values, which may replace them.
+    if (
+      this.valueOutbox.size > 0 &&
+      this.valueInbox.length === 0 &&
+      !this.loadingValues
+    ) {
+      this.sendValues();
+    }
+    if (this.outbox.size > 0) {
+      client.sendCells(
+        Array.from(this.outbox, (key) => ({
+          key,
+          value: cityMap.get(key) ?? null,
+        }))
+      );
+      this.outbox.clear();
+    }
+    // Read after entering the room, which may have resized the grid
+    const { gridSize } = this.scene;
+    if (gridSize !== this.roomGridSize) {
+      client.sendGrid(gridSize);
+      this.roomGridSize = gridSize;
+    }
+
+    if (this.scene.editing || this.loadingValues) return;
+    if (this.grid) {
+      this.applyGrid(this.grid.gridSize, this.grid.stamp);
+      this.grid = null;
+    }
+    if (this.valueInbox.length > 0) {
+      const ops = this.valueInbox;
+      this.valueInbox = [];
+      this.loadingValues = true;
+      this.applyValues(ops).finally(() => {
+        this.loadingValues = false;
+      });
+      return;
+    }
+    if (this.inbox.length > 0) {
+      const ops = this.inbox;
+      this.inbox = [];
+      this.applyCells(ops);
+    }
+  }
+
+  private enterRoom({ color, seed, ops, values, grid }: CollabWelcome) {
+    const { cityMap } = this.scene;
+    if (seed) {
+      // Everyone starts from this map
+      this.getValueKeys().forEach((key) => this.valueOutbox.add(key));
+      cityMap.forEach((_, key) => this.outbox.add(key));
+      this.roomGridSize = 0;
+    } else {
+      // Edits made while connecting are lost along with the rest of the map
+      this.outbox.clear();
+      this.scene.selection.cancelPaste();
+      this.scene.selection.set(null);
+      const roomKeys = new Set(ops.map((op) => op.key));
+      this.applyingRemote = true;
+      try {
+        cityMap
+          .findKeys((_, key) => !roomKeys.has(key))
+          .forEach((key) => cityMap.set(key, null));
+      } finally {
+        this.applyingRemote = false;
+      }
+      const roomValueKeys = new Set(values.map((op) => op.key));
+      this.valueOutbox.clear();
+      this.getValueKeys()
+        .filter((key) => !roomValueKeys.has(key))
+        .forEach((key) => this.removeValue(key));
+      if (grid) this.applyGrid(grid.gridSize, grid.stamp);
+      // Applied on the next frames, values first
+      this.valueInbox = values.concat(this.valueInbox);
+      this.inbox = ops.concat(this.inbox);
+      this.roomGridSize = this.scene.gridSize;
+      // Undoing would bring back the map from before joining, for everyone
+      this.scene.history.clear();
+    }
+    this.setState({
+      status: "connected",
+      color,
+      peers: this.client!.getPeers(),
+    });
+  }
+
+  private applyCells(ops: CellOp[]) {
+    this.applyingRemote = true;
+    try {
+      ops.forEach((op) => {
+        if (!this.client!.acceptCell(op)) return;
+        if (op.value) this.scene.ensureLayer(op.value.layer);
+        this.scene.cityMap.set(op.key, op.value);
+      });
+    } finally {
+      this.applyingRemote = false;
+    }
+    this.scene.refreshAfterMapChange();
+  }
+
+  private valueChanged(key: string) {
+    if (this.client) this.valueOutbox.add(key);
+  }
+
+  // Keys of the values this editor has
+  private getValueKeys(): string[] {
+    const { scene } = this;
+    const keys = ["layers"];
+    scene.assetSets.forEach((assetSet, id) => {
+      if (assetSet.isCustom) keys.push(`asset:${id}`);
+    });
+    Object.keys(scene.serializePluginData()).forEach((id) =>
+      keys.push(`plugin:${id}`)
+    );
+    return keys;
+  }
+
+  // A value as a saved map has it, null if there is none
+  private getValue(key: string): unknown {
+    const { scene } = this;
+    if (key === "layers") return scene.layers;
+    const [kind, id] = splitValueKey(key);
+    if (kind === "asset") {
+      const customAsset = scene.snapshotCustomAsset(id);
+      if (!customAsset) return null;
+      // Other editors store the image themselves
+      return { ...customAsset, imageHash: undefined };
+    }
+    return scene.serializePluginData()[id] ?? null;
+  }
+
+  // Send the values changed since the last frame, unless the room already
+  // has them (e.g. they were just received)
+  private sendValues() {
+    const changed: Array<{ key: string; value: unknown }> = [];
+    this.valueOutbox.forEach((key) => {
+      const value = this.getValue(key);
+      const json = JSON.stringify(value);
+      if (json === (this.roomValues.get(key) ?? "null")) return;
+      this.roomValues.set(key, json);
+      changed.push({ key, value });
+    });
+    this.valueOutbox.clear();
+
+    const tooLarge = this.client!.sendValues(changed);
+    if (tooLarge.length > 0) {
+      const names = tooLarge.map((key) => {
+        const id = splitValueKey(key)[1];
+        return this.scene.assetSets.get(id)?.name ?? id;
+      });
+      this.setState({
+        message: `${names.join(", ")} can't be shared: too large to send`,
+      });
+    }
+  }
+
+  private async applyValues(ops: ValueOp[]) {
+    const client = this.client;
+    for (let i = 0; i < ops.length; i++) {
+      if (this.client !== client) return; // Left the room meanwhile
+      if (this.scene.editing) {
+        // An edit began while an image loaded; the rest waits for its end
+        this.valueInbox = ops.slice(i).concat(this.valueInbox);
+        break;
+      }
+      const op = ops[i];
+      if (!client!.acceptValue(op)) continue;
+      try {
+        await this.applyValue(op.key, op.value);
+      } catch (error) {
+        console.warn(`Ignored ${op.key} shared by another editor:`, error);
+      }
+      // Whatever was applied, the room has it
+      this.roomValues.set(op.key, JSON.stringify(this.getValue(op.key)));
+    }
+    this.scene.projects.scheduleAutoSave();
+  }
+
+  // Throws if the value is rejected
+  private async applyValue(key: string, value: unknown) {
+    const { scene } = this;
+    if (value === null) {
+      this.removeValue(key);
+    } else if (key === "layers") {
+      scene.setLayers(parseLayers(value));
+      // Cells may be on layers another editor didn't know of yet
+      scene.cityMap.forEach((cell) => scene.ensureLayer(cell.layer));
+    } else {
+      const [kind, id] = splitValueKey(key);
+      if (kind === "asset") {
+        const customAsset = parseCustomAsset(value);
+        if (customAsset.id !== id) throw new Error(`Expected asset ${id}`);
+        await scene.loadCustomAssetSet(customAsset);
+      } else {
+        const data = scene.deserializePluginData({ [id]: value }).get(id);
+        scene.writePluginData(id, data);
+      }
+    }
+  }
+
+  private removeValue(key: string) {
+    const { scene } = this;
+    const [kind, id] = splitValueKey(key);
+    if (kind === "asset") {
+      if (scene.assetSets.get(id)?.isCustom) scene.unloadCustomAssetSet(id);
+    } else if (kind === "plugin") {
+      scene.writePluginData(id, undefined);
+    }
+  }
+
+  private applyGrid(gridSize: number, stamp: CollabStamp) {
+    if (!this.client!.acceptGrid(stamp)) return;
+    this.roomGridSize = gridSize;
+    this.scene.setGridSize(gridSize);
+    this.scene.projects.scheduleAutoSave();
+  }
+
+  // Other editors' cursors: the footprint they would place, in their colour,
+  // and their name
+  private drawPresence() {
+    const { scene } = this;
+    const graphics = this.presenceGraphics;
+    this.presenceDirty = false;
+    graphics.clear();
+    const shown = new Set<string>();
+
+    this.client?.getPeers().forEach(({ id, name, color, presence }) => {
+      if (!presence) return;
+      const fill = Phaser.Display.Color.HexStringToColor(color).color;
+      graphics.lineStyle(2, fill, 0.9);
+      graphics.fillStyle(fill, 0.25);
+      for (let fx = 0; fx < presence.width; fx++) {
+        for (let fy = 0; fy < presence.height; fy++) {
+          const x = presence.x + fx;
+          const y = presence.y + fy;
+          if (x >= scene.gridSize || y >= scene.gridSize) continue;
+          scene.traceCell(graphics, x, y);
+          graphics.strokePath();
+          graphics.fillPath();
+        }
+      }
+
+      let label = this.presenceLabels.get(id);
+      if (!label) {
+        label = scene.add.text(0, 0, name, {
+          fontFamily: "sans-serif",
+          fontSize: "14px",
+          color: "#ffffff",
+          backgroundColor: color,
+          padding: { x: 4, y: 2 },
+        });
+        label.setOrigin(0.5, 1);
+        label.setDepth(10001);
+        this.presenceLabels.set(id, label);
+      }
+      const top = scene.gridToIso(presence.x, presence.y);
+      label.setPosition(top.x, top.y - scene.tileHeight / 2);
+      label.setScale(1 / scene.cameras.main.zoom); // Same size at any zoom
+      shown.add(id);
+    });
+
+    this.presenceLabels.forEach((label, id) => {
+      if (shown.has(id)) return;
+      label.destroy();
+      this.presenceLabels.delete(id);
+    });
+  }
+}
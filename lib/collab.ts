@@ -0,0 +1,343 @@
+/**
+ * Client of the collaboration server (server/collab-server.mjs)
+ * No Phaser or React dependencies (uses WebSocket)
+ *
+ * Editors in a room share the map as a last-writer-wins map of cells keyed
+ * "x,y,layer". Every write of a cell (or its removal) carries a Lamport stamp,
+ * and an editor only applies a write that is newer than the one it has for
+ * that cell, so everyone ends up with the same cells whatever order
+ * concurrent writes arrive in. The rest of the map is shared as values written
+ * the same way: the layer list ("layers"), custom asset sets ("asset:<id>")
+ * and plugin data ("plugin:<id>").
+ */
+
+import { CollabPeer, CollabPresence, TileCell } from "./game-types";
+
+export interface CollabStamp {
+  clock: number; // Lamport clock of the write
+  client: string; // Id of the writing editor, breaks ties
+}
+
+export interface CellOp {
+  key: string;
+  value: TileCell | null; // Null removes the cell
+  stamp: CollabStamp;
+}
+
+export interface ValueOp {
+  key: string; // "layers", "asset:<id>" or "plugin:<id>"
+  value: unknown; // As saved in a map; null removes the asset or plugin data
+  stamp: CollabStamp;
+}
+
+export interface CollabWelcome {
+  color: string; // Own cursor colour
+  seed: boolean; // First in a new room: everyone starts from this map
+  ops: CellOp[]; // The room's map, to replace the local one unless seeding
+  values: ValueOp[];
+  grid: { gridSize: number; stamp: CollabStamp } | null;
+}
+
+export interface CollabHandlers {
+  onWelcome: (welcome: CollabWelcome) => void;
+  onCells: (ops: CellOp[]) => void; // Written by other editors
+  onValues: (ops: ValueOp[]) => void;
+  onGrid: (gridSize: number, stamp: CollabStamp) => void;
+  onPeersChanged: (peers: CollabPeer[]) => void; // Joined or left
+  onPresenceChanged: (peers: CollabPeer[]) => void;
+  onClose: (message: string) => void; // Not called after close()
+}
+
+// Seeding a large map is split up, as the server limits message size
+const OPS_PER_MESSAGE = 2000;
+const MAX_MESSAGE_SIZE = 16 * 1024 * 1024; // The server closes on larger ones
+
+// How often the server hears how far this editor's clock got, so it can
+// forget removals everyone has seen
+const ACK_INTERVAL = 5000; // ms
+
+// The grid size is a last-writer-wins value of its own
+const GRID_KEY = "grid";
+
+const KEY_PATTERN = /^\d+,\d+,\d+$/;
+const VALUE_KEY_PATTERN = /^(layers|(asset|plugin):\S{1,128})$/;
+
+/**
+ * Whether write a wins over write b (which may not exist)
+ */
+export function isNewerStamp(a: CollabStamp, b?: CollabStamp): boolean {
+  if (!b) return true;
+  return a.clock !== b.clock ? a.clock > b.clock : a.client > b.client;
+}
+
+/**
+ * Server address used unless the user enters another one:
+ * NEXT_PUBLIC_COLLAB_URL, or port 3001 of the host serving the editor
+ */
+export function getDefaultCollabUrl(): string {
+  if (process.env.NEXT_PUBLIC_COLLAB_URL) {
+    return process.env.NEXT_PUBLIC_COLLAB_URL;
+  }
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.hostname}:3001`;
+}
+
+const isCount = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 1;
+
+// Other editors' cells are checked before the scene draws them
+function isTileCell(value: unknown, layer: number): value is TileCell {
+  const cell = value as Partial<TileCell> | null;
+  return (
+    typeof cell === "object" &&
+    cell !== null &&
+    typeof cell.tileName === "string" &&
+    typeof cell.textureKey === "string" &&
+    cell.layer === layer &&
+    isCount(cell.footprint?.width) &&
+    isCount(cell.footprint?.height) &&
+    typeof cell.origin?.x === "number" &&
+    typeof cell.origin?.y === "number" &&
+    typeof cell.isAnchor === "boolean"
+  );
+}
+
+function isStamp(value: unknown): value is CollabStamp {
+  const stamp = value as Partial<CollabStamp> | null;
+  return (
+    typeof stamp === "object" &&
+    stamp !== null &&
+    Number.isSafeInteger(stamp.clock) &&
+    typeof stamp.client === "string"
+  );
+}
+
+function readOps(ops: unknown): CellOp[] {
+  if (!Array.isArray(ops)) return [];
+  return ops.filter(
+    (op) =>
+      typeof op?.key === "string" &&
+      KEY_PATTERN.test(op.key) &&
+      isStamp(op.stamp) &&
+      (op.value === null ||
+        isTileCell(op.value, Number(op.key.split(",")[2])))
+  );
+}
+
+// Values are checked by the collaboration module as it applies them
+function readValues(ops: unknown): ValueOp[] {
+  if (!Array.isArray(ops)) return [];
+  return ops.filter(
+    (op) =>
+      typeof op?.key === "string" &&
+      VALUE_KEY_PATTERN.test(op.key) &&
+      op.value !== undefined &&
+      isStamp(op.stamp)
+  );
+}
+
+export class CollabClient {
+  readonly room: string;
+  private socket: WebSocket;
+  private handlers: CollabHandlers;
+  private id: string | null = null; // Assigned by the server on joining
+  private clock = 0;
+  private stamps = new Map<string, CollabStamp>(); // Newest write by key
+  private peers = new Map<string, CollabPeer>();
+  private lastPresence = "null"; // JSON, to skip unchanged presence
+  private ackedClock = 0;
+  private ackTimer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+
+  /**
+   * Connects to ws://server/room. Throws if the server URL is malformed.
+   */
+  constructor(
+    url: string,
+    room: string,
+    name: string,
+    handlers: CollabHandlers
+  ) {
+    this.room = room;
+    this.handlers = handlers;
+    this.socket = new WebSocket(
+      `${url.replace(/\/+$/, "")}/${encodeURIComponent(room)}`
+    );
+    this.socket.onopen = () => this.send({ type: "hello", name });
+    this.socket.onmessage = (event) => this.receive(event.data);
+    this.socket.onclose = () => {
+      this.stopAcks();
+      if (this.closed) return;
+      this.closed = true;
+      this.handlers.onClose(
+        this.id
+          ? "The connection to the collaboration server was lost"
+          : "The collaboration server can't be reached"
+      );
+    };
+  }
+
+  // Joined the room and still connected
+  get connected(): boolean {
+    return this.id !== null && !this.closed;
+  }
+
+  getPeers(): CollabPeer[] {
+    return Array.from(this.peers.values());
+  }
+
+  /**
+   * Whether a write received from the server wins over what this editor
+   * has for the cell. The caller applies the cell only if it does.
+   */
+  acceptCell(op: CellOp): boolean {
+    return this.accept(op.key, op.stamp);
+  }
+
+  acceptGrid(stamp: CollabStamp): boolean {
+    return this.accept(GRID_KEY, stamp);
+  }
+
+  acceptValue(op: ValueOp): boolean {
+    return this.accept(op.key, op.stamp);
+  }
+
+  /**
+   * Send cells written by this editor, with their current value
+   */
+  sendCells(cells: Array<{ key: string; value: TileCell | null }>) {
+    for (let i = 0; i < cells.length; i += OPS_PER_MESSAGE) {
+      const ops = cells
+        .slice(i, i + OPS_PER_MESSAGE)
+        .map(({ key, value }) => ({ key, value, stamp: this.stamp(key) }));
+      this.send({ type: "cells", ops });
+    }
+  }
+
+  /**
+   * Send values written by this editor, one per message as custom asset
+   * sets carry their image. Returns the keys of values too large to send.
+   */
+  sendValues(values: Array<{ key: string; value: unknown }>): string[] {
+    const tooLarge: string[] = [];
+    values.forEach(({ key, value }) => {
+      // Leaves room for the rest of the message
+      if (JSON.stringify(value).length > MAX_MESSAGE_SIZE - 1024) {
+        tooLarge.push(key);
+        return;
+      }
+      const op = { key, value, stamp: this.stamp(key) };
+      this.send({ type: "values", ops: [op] });
+    });
+    return tooLarge;
+  }
+
+  sendGrid(gridSize: number) {
+    this.send({ type: "grid", gridSize, stamp: this.stamp(GRID_KEY) });
+  }
+
+  /**
+   * Share the cell under the cursor, or null when it is off the map
+   */
+  sendPresence(presence: CollabPresence | null) {
+    const json = JSON.stringify(presence);
+    if (json === this.lastPresence) return;
+    this.lastPresence = json;
+    this.send({ type: "presence", presence });
+  }
+
+  close() {
+    this.closed = true;
+    this.stopAcks();
+    this.socket.close();
+  }
+
+  // Every write this editor sends from now on is stamped newer than its clock
+  private sendAck() {
+    if (this.clock <= this.ackedClock) return;
+    this.ackedClock = this.clock;
+    this.send({ type: "ack", clock: this.clock });
+  }
+
+  private stopAcks() {
+    if (this.ackTimer) clearInterval(this.ackTimer);
+    this.ackTimer = null;
+  }
+
+  private accept(key: string, stamp: CollabStamp): boolean {
+    this.clock = Math.max(this.clock, stamp.clock);
+    if (!isNewerStamp(stamp, this.stamps.get(key))) return false;
+    this.stamps.set(key, stamp);
+    return true;
+  }
+
+  // Stamp a local write, newer than every write seen so far
+  private stamp(key: string): CollabStamp {
+    const stamp = { clock: ++this.clock, client: this.id ?? "" };
+    this.stamps.set(key, stamp);
+    return stamp;
+  }
+
+  private send(message: object) {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private receive(data: unknown) {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    switch (message?.type) {
+      case "welcome":
+        this.id = message.id;
+        this.clock = Math.max(this.clock, Number(message.clock) || 0);
+        this.ackedClock = this.clock;
+        this.ackTimer ??= setInterval(() => this.sendAck(), ACK_INTERVAL);
+        (message.peers ?? []).forEach((peer: CollabPeer) =>
+          this.peers.set(peer.id, peer)
+        );
+        this.handlers.onWelcome({
+          color: message.color,
+          seed: !!message.seed,
+          ops: readOps(message.ops),
+          values: readValues(message.values),
+          grid:
+            isCount(message.grid?.gridSize) && isStamp(message.grid.stamp)
+              ? message.grid
+              : null,
+        });
+        this.handlers.onPeersChanged(this.getPeers());
+        break;
+      case "cells":
+        this.handlers.onCells(readOps(message.ops));
+        break;
+      case "values":
+        this.handlers.onValues(readValues(message.ops));
+        break;
+      case "grid":
+        if (isCount(message.gridSize) && isStamp(message.stamp)) {
+          this.handlers.onGrid(message.gridSize, message.stamp);
+        }
+        break;
+      case "join":
+        this.peers.set(message.peer.id, message.peer);
+        this.handlers.onPeersChanged(this.getPeers());
+        break;
+      case "leave":
+        this.peers.delete(message.id);
+        this.handlers.onPeersChanged(this.getPeers());
+        break;
+      case "presence": {
+        const peer = this.peers.get(message.id);
+        if (!peer) return;
+        this.peers.set(peer.id, { ...peer, presence: message.presence });
+        this.handlers.onPresenceChanged(this.getPeers());
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Undo/redo command history
+ * Pure TypeScript with no Phaser or React dependencies
+ */
+
+export interface Command {
+  label: string;
+  undo(): void | Promise<void>;
+  redo(): void | Promise<void>;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private busy = false;
+  readonly limit: number;
+  private onChange?: (state: HistoryState) => void;
+
+  constructor(limit: number, onChange?: (state: HistoryState) => void) {
+    this.limit = Math.max(1, limit);
+    this.onChange = onChange;
+  }
+
+  /**
+   * Records a command that has already been applied.
+   * Clears the redo stack and drops the oldest entries past the limit.
+   */
+  push(command: Command) {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  async undo(): Promise<boolean> {
+    if (this.busy || this.undoStack.length === 0) return false;
+    const command = this.undoStack.pop()!;
+    this.busy = true;
+    try {
+      await command.undo();
+      this.redoStack.push(command);
+    } finally {
+      this.busy = false;
+      this.notify();
+    }
+    return true;
+  }
+
+  async redo(): Promise<boolean> {
+    if (this.busy || this.redoStack.length === 0) return false;
+    const command = this.redoStack.pop()!;
+    this.busy = true;
+    try {
+      await command.redo();
+      this.undoStack.push(command);
+    } finally {
+      this.busy = false;
+      this.notify();
+    }
+    return true;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  get isBusy() {
+    return this.busy;
+  }
+
+  getState(): HistoryState {
+    const undoTop = this.undoStack[this.undoStack.length - 1];
+    const redoTop = this.redoStack[this.redoStack.length - 1];
+    return {
+      canUndo: !this.busy && !!undoTop,
+      canRedo: !this.busy && !!redoTop,
+      undoLabel: undoTop?.label ?? null,
+      redoLabel: redoTop?.label ?? null,
+    };
+  }
+
+  private notify() {
+    this.onChange?.(this.getState());
+  }
+}
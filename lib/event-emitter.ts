@@ -0,0 +1,40 @@
+/**
+ * Strongly typed event emitter
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * Events is a map from event name to payload type, so emit() only accepts
+ * known events with the right payload and listeners receive it typed.
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Adds a listener. Returns a function that removes it again.
+   */
+  on<K extends keyof Events>(
+    type: K,
+    listener: EventListener<Events[K]>
+  ): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    const listeners = this.listeners.get(type) as
+      | Set<EventListener<Events[K]>>
+      | undefined;
+    listeners?.forEach((listener) => listener(payload));
+  }
+}
@@ -1,4 +1,6 @@
 import { AssetConfig } from "./game-types";
+import { CityBuilderPlugin } from "./plugins";
+import { lineToolPlugin } from "./line-tool-plugin";
 
 // Default asset configurations
 export const DEFAULT_ASSET_CONFIGS: AssetConfig[] = [
@@ -21,3 +23,12 @@ export const DEFAULT_ASSET_CONFIGS: AssetConfig[] = [
     xmlPath: "/assets/roads_sheet.xml",
   }
 ]
+
+// Empty cells of a new map are filled with this tile
+export const GROUND_TILE = {
+  assetSetId: "floors",
+  tileName: "grass_02_11",
+};
+
+// Plugins loaded into every game (see lib/plugins.ts)
+export const ENABLED_PLUGINS: CityBuilderPlugin[] = [lineToolPlugin];
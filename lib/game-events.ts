@@ -0,0 +1,65 @@
+/**
+ * Events the city builder scene reports to the UI, by name with their payload
+ */
+
+import type { HistoryState } from "./command-history";
+import type { TypedEventEmitter } from "./event-emitter";
+import type { RotationDirection } from "./rotation";
+import type { GridPoint } from "./minimap";
+import type {
+  AssetSet,
+  CollabState,
+  GridRect,
+  InspectedTile,
+  MapLayer,
+  Prefab,
+  ProjectInfo,
+  ServerSyncStatus,
+  ToolMode,
+} from "./game-types";
+
+export interface CityBuilderEvents {
+  // imagePath is the sheet of configured sets and the data URL of custom sets
+  assetSetLoaded: { assetSet: AssetSet; imagePath: string };
+  assetSetRemoved: { id: string };
+  gridPositionChanged: { x: number; y: number }; // Cell under the cursor
+  gridSizeChanged: { gridSize: number };
+  historyChanged: HistoryState;
+  mapChanged: { revision: number }; // At most once per frame, after cell changes
+  // A stored map was rejected; source names it, e.g. the project
+  mapLoadFailed: { source: string; errors: string[] };
+  selectionChanged: {
+    selection: GridRect | null;
+    allLayers: boolean;
+    hasClipboard: boolean;
+    pasting: boolean;
+  };
+  prefabsChanged: { prefabs: Prefab[] };
+  toolChanged: { tool: ToolMode }; // Also sent for hotkeys
+  placementChanged: { direction: RotationDirection | null; flipX: boolean };
+  layersChanged: { layers: MapLayer[]; currentLayer: number };
+  projectsChanged: { projects: ProjectInfo[]; currentProjectId: string | null };
+  // Saving a project linked to a server map; message explains errors
+  serverSyncChanged: {
+    projectId: string;
+    status: ServerSyncStatus;
+    message?: string;
+  };
+  collabChanged: CollabState; // Also when other editors join or leave
+  tilePicked: { assetSetId: string; index: number }; // Eyedropper
+  pluginDataChanged: { pluginId: string; data: unknown };
+  tileSearchChanged: { matches: number }; // Find and replace highlight
+  // Only while the minimap is enabled
+  minimapChanged: {
+    cells: Array<{ x: number; y: number; color: number | null }>;
+  };
+  cameraChanged: { view: GridPoint[] }; // Corners, see getCameraView
+  inspectorChanged: {
+    x: number;
+    y: number;
+    pinned: boolean;
+    tiles: InspectedTile[];
+  };
+}
+
+export type CityBuilderEventBus = TypedEventEmitter<CityBuilderEvents>;
@@ -1,3 +1,6 @@
+import type { AutoTileRule } from "./autotile";
+import type { RotationVariant } from "./rotation";
+
 export interface SpriteData {
   name: string;
   x: number;
@@ -6,6 +9,8 @@ export interface SpriteData {
   height: number;
   footprint?: { width: number; height: number }; // For multi-tile support
   origin?: { x: number; y: number }; // Anchor point (default: 0.5, 0.65 for legacy assets)
+  autotile?: AutoTileRule; // Neighbour rules for auto-tiling road/water sheets
+  rotation?: RotationVariant; // Directional frame of a rotatable sprite
 }
 
 export interface AssetSet {
@@ -16,6 +21,7 @@ export interface AssetSet {
   sprites: SpriteData[];
   isCustom?: boolean; // Indicates if this is a custom asset (not a default one)
   imageDataUrl?: string; // Data URL for custom assets (for export/import)
+  imageHash?: string; // Key of the image in the IndexedDB image store, once stored
 }
 
 export interface AssetConfig {
@@ -24,3 +30,220 @@ export interface AssetConfig {
   imagePath: string;
   xmlPath: string;
 }
+
+// Serializable state of a single cityMap cell (everything except the Phaser sprite)
+export interface TileCell {
+  tileName: string;
+  textureKey: string;
+  layer: number;
+  footprint: { width: number; height: number };
+  origin: { x: number; y: number };
+  isAnchor: boolean;
+  anchorKey?: string; // Set on non-anchor footprint cells
+  flipX?: boolean; // Per-instance, mirrored on every footprint cell
+  tint?: number; // 0xRRGGBB
+  alpha?: number; // 0-1, omitted when opaque
+}
+
+// A named map layer. Cells refer to layers by id; the order of the layer list
+// (bottom to top) decides how layers stack.
+export interface MapLayer {
+  id: number;
+  name: string;
+  heightOffset: number; // Pixels tiles on this layer are raised by
+  visible: boolean;
+  locked: boolean; // Locked layers can't be painted or erased
+  opacity: number; // 0-1, multiplied with each tile's own alpha
+}
+
+// Layer settings editable from the layers panel
+export type MapLayerChanges = Partial<Omit<MapLayer, "id">>;
+
+// Per-instance properties editable after placement (null clears the tint)
+export interface TileInstanceChanges {
+  origin?: { x: number; y: number };
+  flipX?: boolean;
+  tint?: number | null;
+  alpha?: number;
+}
+
+// One layer's contents at an inspected cell
+export interface InspectedTile {
+  key: string;
+  layer: number;
+  layerName: string;
+  tileName: string;
+  textureKey: string;
+  assetSetId: string | null;
+  assetSetName: string | null;
+  footprint: { width: number; height: number };
+  origin: { x: number; y: number };
+  isAnchor: boolean;
+  anchorKey: string; // The cell's own key for anchors
+  depth: number;
+  flipX: boolean;
+  tint: number | null;
+  alpha: number;
+}
+
+// Custom asset set as stored in saved maps
+export interface CustomAssetData {
+  id: string;
+  name: string;
+  imageDataUrl: string;
+  imageHash?: string; // Only while the data URL is unchanged since it was stored
+  sprites: SpriteData[];
+}
+
+// Editing tool active in the scene. Plugin tools are "<plugin id>:<tool id>".
+export type ToolMode =
+  | "brush"
+  | "rectangle"
+  | "fill"
+  | "select"
+  | "eyedropper"
+  | `${string}:${string}`;
+
+// Tile as written by exportMap (anchor cells only)
+export interface ExportedTile {
+  x: number;
+  y: number;
+  layer: number;
+  tileName: string;
+  textureKey: string;
+  footprint?: { width: number; height: number }; // Only when larger than 1x1
+  origin?: { x: number; y: number }; // Only when not the default 0.5, 0.5
+  flipX?: boolean; // Only when flipped
+  tint?: number; // Only when tinted
+  alpha?: number; // Only when not opaque
+}
+
+// Inclusive rectangle of grid cells
+export interface GridRect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Reusable group of tiles saved from a selection, placed like one large sprite
+export interface Prefab {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  tiles: ExportedTile[]; // x/y relative to the top corner, layer relative to the lowest layer
+  thumbnail?: string; // PNG data URL
+}
+
+// A named map stored in IndexedDB. The map JSON is stored separately under the
+// same id, so listing projects doesn't read every map.
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamps
+  modifiedAt: string;
+  thumbnail?: string; // PNG data URL, rendered on autosave
+  // Map on the server this project is linked to. Autosaves also go there,
+  // as long as the server's revision is still the one last saved.
+  server?: { id: string; revision: number };
+}
+
+// An autosave snapshot of a project's map. The map JSON is stored separately
+// under the same id.
+export interface SnapshotInfo {
+  id: string;
+  projectId: string;
+  timestamp: string; // ISO
+  size: number; // Approximate size of the map JSON in bytes
+  tileCount: number;
+  thumbnail?: string; // PNG data URL
+}
+
+// A map stored by the server (app/api/maps). Every save makes a new revision.
+export interface ServerMapInfo {
+  id: string;
+  name: string;
+  revision: number;
+  createdAt: string; // ISO timestamps
+  modifiedAt: string;
+  tileCount: number;
+}
+
+// One saved revision of a server map, newest first in its history
+export interface ServerMapRevision {
+  revision: number;
+  name: string;
+  modifiedAt: string; // ISO
+  tileCount: number;
+  // Autosaved: when the first of the autosaves it replaced was made (ISO)
+  autosavedSince?: string;
+}
+
+// Progress of saving a linked project to the server. A conflict means the
+// server map was saved from elsewhere since.
+export type ServerSyncStatus = "saving" | "saved" | "conflict" | "error";
+
+// Cell under another editor's cursor, with the footprint they would place
+export interface CollabPresence {
+  x: number;
+  y: number;
+  layer: number;
+  width: number;
+  height: number;
+}
+
+// Another editor in the same collaboration room
+export interface CollabPeer {
+  id: string;
+  name: string;
+  color: string; // CSS hex colour of their cursor
+  presence: CollabPresence | null; // Null while off the map
+}
+
+// Connection to the collaboration server; message explains a lost connection
+export interface CollabState {
+  status: "disconnected" | "connecting" | "connected";
+  room: string | null;
+  name: string | null; // Own name and colour, once connected
+  color: string | null;
+  peers: CollabPeer[];
+  message?: string;
+}
+
+// A script saved in the script console of a project
+export interface SavedScript {
+  id: string;
+  projectId: string;
+  name: string;
+  code: string;
+  modifiedAt: string; // ISO
+}
+
+// Custom asset set as saved in map JSON. The image is either inline (exported
+// files, older saves) or a hash into the IndexedDB image store (or, for server
+// maps, of an image served by app/api/assets).
+export interface SavedCustomAsset {
+  id: string;
+  name: string;
+  imageDataUrl?: string;
+  imageHash?: string;
+  sprites: SpriteData[];
+}
+
+// Saved map, as written by autosave and exportMap and returned by the map
+// schema validator (lib/map-schema.ts)
+export interface MapDocument {
+  version: string;
+  gridSize: number;
+  originOffsetX: number;
+  originOffsetY: number;
+  tileWidth?: number;
+  tileHeight?: number;
+  layers?: MapLayer[]; // Bottom to top; omitted when all are default layers
+  customAssets: SavedCustomAsset[];
+  prefabs?: Prefab[];
+  plugins?: Record<string, unknown>; // Plugin data by plugin id
+  tiles: ExportedTile[]; // Anchor cells only
+  timestamp?: string; // ISO
+}
@@ -0,0 +1,134 @@
+/**
+ * Tile inspector: reports what each layer holds at the hovered (or pinned)
+ * cell, and edits the per-instance properties of those tiles
+ */
+
+import type {
+  InspectedTile,
+  TileCell,
+  TileInstanceChanges,
+} from "./game-types";
+import { pickInstanceProps } from "./map-serializer";
+import { ModuleScene } from "./scene-modules";
+
+export class InspectorModule {
+  private scene: ModuleScene;
+  private enabled = false;
+  private pinned = false; // Keep the cell instead of following the hover
+  private cell: { gridX: number; gridY: number } | null = null;
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.refresh();
+  }
+
+  setPinned(pinned: boolean) {
+    this.pinned = pinned;
+    this.refresh();
+  }
+
+  // The pointer is over a cell
+  hover(gridX: number, gridY: number) {
+    if (!this.pinned) this.inspect(gridX, gridY);
+  }
+
+  // Keep inspecting a cell, e.g. one clicked with the select tool
+  pin(gridX: number, gridY: number) {
+    if (!this.enabled) return;
+    this.pinned = true;
+    this.inspect(gridX, gridY);
+  }
+
+  private inspect(gridX: number, gridY: number) {
+    this.cell = { gridX, gridY };
+    this.refresh();
+  }
+
+  // Report the cell again, e.g. after an edit
+  refresh() {
+    if (!this.enabled || !this.cell) return;
+    const { gridX, gridY } = this.cell;
+    this.scene.eventBus.emit("inspectorChanged", {
+      x: gridX,
+      y: gridY,
+      pinned: this.pinned,
+      tiles: this.getTiles(gridX, gridY),
+    });
+  }
+
+  // Contents of every layer at a cell, bottom layer first
+  private getTiles(gridX: number, gridY: number): InspectedTile[] {
+    const { scene } = this;
+    const tiles: InspectedTile[] = [];
+    for (const { id: layer, name: layerName } of scene.layers) {
+      const key = `${gridX},${gridY},${layer}`;
+      const tileData = scene.cityMap.get(key);
+      if (!tileData) continue;
+
+      const anchorKey = tileData.isAnchor ? key : tileData.anchorKey ?? key;
+      const found = scene.findSpriteData(
+        tileData.textureKey,
+        tileData.tileName
+      );
+      tiles.push({
+        key,
+        layer,
+        layerName,
+        tileName: tileData.tileName,
+        textureKey: tileData.textureKey,
+        assetSetId: found?.assetSet.id ?? null,
+        assetSetName: found?.assetSet.name ?? null,
+        footprint: tileData.footprint,
+        origin: tileData.origin,
+        isAnchor: tileData.isAnchor,
+        anchorKey,
+        depth: scene.getTileSprite(anchorKey)?.depth ?? 0,
+        flipX: !!tileData.flipX,
+        tint: tileData.tint ?? null,
+        alpha: tileData.alpha ?? 1,
+      });
+    }
+    return tiles;
+  }
+
+  // Change per-instance properties of the tile covering a cell (applied to
+  // every cell of its footprint) as one undoable edit
+  updateTile(key: string, changes: TileInstanceChanges) {
+    const { cityMap } = this.scene;
+    const tileData = cityMap.get(key);
+    if (!tileData) return;
+    const anchorKey = tileData.isAnchor ? key : tileData.anchorKey;
+    const anchor = anchorKey ? cityMap.get(anchorKey) : null;
+    if (!anchorKey || !anchor) return;
+
+    const [anchorX, anchorY, layer] = anchorKey.split(",").map(Number);
+    const instance = pickInstanceProps({
+      flipX: changes.flipX ?? anchor.flipX,
+      tint: changes.tint === undefined ? anchor.tint : changes.tint,
+      alpha: changes.alpha ?? anchor.alpha,
+    });
+    const origin = changes.origin ?? anchor.origin;
+
+    this.scene.beginEdit("Edit tile");
+    for (let fx = 0; fx < anchor.footprint.width; fx++) {
+      for (let fy = 0; fy < anchor.footprint.height; fy++) {
+        const cellKey = `${anchorX + fx},${anchorY + fy},${layer}`;
+        const cell = cityMap.get(cellKey);
+        if (!cell || (cellKey !== anchorKey && cell.anchorKey !== anchorKey)) {
+          continue;
+        }
+        // Drop the old per-instance fields before applying the new ones
+        const next: TileCell = { ...cell, origin };
+        delete next.flipX;
+        delete next.tint;
+        delete next.alpha;
+        cityMap.set(cellKey, { ...next, ...instance });
+      }
+    }
+    this.scene.commitEdit();
+  }
+}
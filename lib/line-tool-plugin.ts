@@ -0,0 +1,96 @@
+/**
+ * Line tool plugin: drag to place the selected tile along a straight line
+ *
+ * Also an example of the plugin API (lib/plugins.ts): a tool with a hover
+ * overlay and a keyboard shortcut.
+ */
+
+import { Slash } from "lucide-react";
+import {
+  CityBuilderPlugin,
+  PluginScene,
+  PluginTool,
+  ToolPointer,
+  pluginToolId,
+} from "./plugins";
+
+// Cells from the start of the press to the pointer. Shift keeps the line
+// along a grid axis or diagonal.
+function getLineCells({ startX, startY, gridX, gridY, shiftKey }: ToolPointer) {
+  let dx = gridX - startX;
+  let dy = gridY - startY;
+  if (shiftKey) {
+    if (Math.abs(dx) > 2 * Math.abs(dy)) {
+      dy = 0;
+    } else if (Math.abs(dy) > 2 * Math.abs(dx)) {
+      dx = 0;
+    } else {
+      const length = Math.max(Math.abs(dx), Math.abs(dy));
+      dx = Math.sign(dx) * length;
+      dy = Math.sign(dy) * length;
+    }
+  }
+
+  const steps = Math.max(Math.abs(dx), Math.abs(dy));
+  const cells = [{ x: startX, y: startY }];
+  for (let i = 1; i <= steps; i++) {
+    cells.push({
+      x: startX + Math.round((dx * i) / steps),
+      y: startY + Math.round((dy * i) / steps),
+    });
+  }
+  return cells;
+}
+
+function drawLine(pointer: ToolPointer, scene: PluginScene) {
+  const footprint = scene.getSelectedFootprint();
+  const covered = new Set<string>(); // Don't overwrite tiles placed earlier in the line
+
+  getLineCells(pointer).forEach(({ x, y }) => {
+    if (pointer.erase) {
+      scene.removeTileAt(x, y);
+      return;
+    }
+    const footprintKeys: string[] = [];
+    for (let fx = 0; fx < footprint.width; fx++) {
+      for (let fy = 0; fy < footprint.height; fy++) {
+        footprintKeys.push(`${x + fx},${y + fy}`);
+      }
+    }
+    if (footprintKeys.some((key) => covered.has(key))) return;
+
+    if (scene.placeTileAt(x, y)) {
+      footprintKeys.forEach((key) => covered.add(key));
+    }
+  });
+}
+
+const lineTool: PluginTool = {
+  id: "line",
+  name: "Line",
+  icon: Slash,
+  description: "Line (L, drag to draw, Shift to keep it straight)",
+  onPointerUp: drawLine,
+  overlay(pointer, scene) {
+    const locked = scene.isLayerLocked(scene.currentLayer);
+    return {
+      cells: pointer.down
+        ? getLineCells(pointer)
+        : [{ x: pointer.gridX, y: pointer.gridY }],
+      color: locked ? 0xff4444 : pointer.erase ? 0xffaa00 : 0x00ff00,
+    };
+  },
+};
+
+export const lineToolPlugin: CityBuilderPlugin = {
+  id: "line",
+  name: "Line tool",
+  tools: [lineTool],
+  shortcuts: [
+    {
+      key: "l",
+      description: "Line tool",
+      run: (scene) => scene.setTool(pluginToolId(lineToolPlugin, lineTool)),
+    },
+  ],
+};
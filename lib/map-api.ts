@@ -0,0 +1,130 @@
+/**
+ * Client of the server map storage (app/api/maps and app/api/assets)
+ * No Phaser or React dependencies (uses fetch)
+ */
+
+import { MapDocument, ServerMapInfo, ServerMapRevision } from "./game-types";
+
+export class ServerMapError extends Error {
+  readonly status: number; // 0 when the server couldn't be reached
+  readonly errors: string[]; // Validation errors of a rejected map
+
+  constructor(message: string, status: number, errors: string[] = []) {
+    super(message);
+    this.name = "ServerMapError";
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+// The map has been saved from elsewhere since the revision a save was based on
+export class MapConflictError extends ServerMapError {
+  readonly revision: number; // The server's current revision
+
+  constructor(message: string, revision: number) {
+    super(message, 409);
+    this.name = "MapConflictError";
+    this.revision = revision;
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new ServerMapError("The map server can't be reached", 0);
+  }
+  if (response.status === 204) return undefined as T;
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = body?.error ?? `The map server answered ${response.status}`;
+    if (response.status === 409) {
+      throw new MapConflictError(message, body?.revision ?? -1);
+    }
+    throw new ServerMapError(message, response.status, body?.errors ?? []);
+  }
+  return body as T;
+}
+
+const sendJson = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+const mapUrl = (id: string) => `/api/maps/${encodeURIComponent(id)}`;
+
+export async function listServerMaps(): Promise<ServerMapInfo[]> {
+  return (await request<{ maps: ServerMapInfo[] }>("/api/maps")).maps;
+}
+
+/**
+ * A map at its current revision, or at an earlier one from its history
+ */
+export function getServerMap(
+  id: string,
+  revision?: number
+): Promise<{ info: ServerMapInfo; map: MapDocument }> {
+  const query = revision === undefined ? "" : `?revision=${revision}`;
+  return request(`${mapUrl(id)}${query}`);
+}
+
+export async function getServerMapHistory(
+  id: string
+): Promise<ServerMapRevision[]> {
+  const { revisions } = await request<{ revisions: ServerMapRevision[] }>(
+    `${mapUrl(id)}/history`
+  );
+  return revisions;
+}
+
+export function createServerMap(
+  name: string,
+  map: MapDocument
+): Promise<ServerMapInfo> {
+  return request("/api/maps", sendJson("POST", { name, map }));
+}
+
+/**
+ * Save a new revision based on the given one. Autosaves replace a recent
+ * autosaved revision in the map's history. Throws a MapConflictError if the
+ * map has been saved since.
+ */
+export function updateServerMap(
+  id: string,
+  revision: number,
+  map: MapDocument,
+  options: { name?: string; autosave?: boolean } = {}
+): Promise<ServerMapInfo> {
+  return request(mapUrl(id), sendJson("PUT", { revision, map, ...options }));
+}
+
+export function deleteServerMap(id: string): Promise<void> {
+  return request(mapUrl(id), { method: "DELETE" });
+}
+
+/**
+ * Upload a custom asset image, returning the hash maps refer to it by
+ */
+export async function uploadAsset(image: Blob): Promise<string> {
+  const { hash } = await request<{ hash: string }>("/api/assets", {
+    method: "POST",
+    headers: { "Content-Type": image.type || "application/octet-stream" },
+    body: image,
+  });
+  return hash;
+}
+
+/**
+ * An uploaded image, or null if the server doesn't have it
+ */
+export async function fetchAsset(hash: string): Promise<Blob | null> {
+  try {
+    const response = await fetch(`/api/assets/${encodeURIComponent(hash)}`);
+    return response.ok ? await response.blob() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  createClipboard,
+  parseClipboard,
+  serializeClipboard,
+} from "./map-clipboard";
+
+const tile = (x: number, y: number) => ({
+  x,
+  y,
+  layer: 0,
+  tileName: "grass_01_01",
+  textureKey: "texture_floors",
+});
+
+describe("parseClipboard", () => {
+  it("reads a copied selection back", () => {
+    const clipboard = createClipboard([tile(4, 5), tile(6, 5)], false);
+    expect(parseClipboard(serializeClipboard(clipboard))).toEqual(clipboard);
+  });
+
+  it("pastes whole maps with all their layers and legacy keys", () => {
+    const clipboard = parseClipboard(
+      JSON.stringify({
+        version: "1.0",
+        tiles: [{ x: 2, y: 3, tileName: "road", textureKey: "cityTiles" }],
+      })
+    );
+    expect(clipboard).toMatchObject({
+      allLayers: true,
+      width: 1,
+      height: 1,
+      tiles: [{ x: 0, y: 0, layer: 0, textureKey: "texture_tiles" }],
+    });
+  });
+
+  it("rejects text that isn't a map or has invalid tiles", () => {
+    expect(parseClipboard("not json")).toBeNull();
+    expect(parseClipboard("[]")).toBeNull();
+    expect(parseClipboard(JSON.stringify({ tiles: [] }))).toBeNull();
+    expect(
+      parseClipboard(
+        JSON.stringify({
+          tiles: [{ ...tile(0, 0), footprint: { width: 0, height: 1 } }],
+        })
+      )
+    ).toBeNull();
+    expect(
+      parseClipboard(
+        JSON.stringify({ tiles: [{ ...tile(0, 0), origin: { x: "a" } }] })
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Clipboard format for copied map selections
+ * Pure functions with no Phaser or React dependencies
+ *
+ * Tiles use the same schema exportMap writes, with x/y relative to the
+ * top corner of the copied content, so selections can be pasted between
+ * browser tabs (and whole exported maps can be pasted as a selection).
+ */
+
+import { ExportedTile, GridRect } from "./game-types";
+import { parseTiles } from "./map-schema";
+
+export interface MapClipboard {
+  version: string;
+  kind: "selection";
+  width: number;
+  height: number;
+  allLayers: boolean; // false: tiles come from one layer and paste onto the current one
+  tiles: ExportedTile[];
+}
+
+/**
+ * Bounding rectangle of a set of tiles, including their whole footprints
+ */
+export function getTileBounds(tiles: ExportedTile[]): GridRect {
+  return {
+    minX: Math.min(...tiles.map((t) => t.x)),
+    minY: Math.min(...tiles.map((t) => t.y)),
+    maxX: Math.max(...tiles.map((t) => t.x + (t.footprint?.width ?? 1) - 1)),
+    maxY: Math.max(...tiles.map((t) => t.y + (t.footprint?.height ?? 1) - 1)),
+  };
+}
+
+/**
+ * Builds a clipboard from tiles in absolute grid coordinates
+ */
+export function createClipboard(
+  tiles: ExportedTile[],
+  allLayers: boolean
+): MapClipboard {
+  const bounds = getTileBounds(tiles);
+  return {
+    version: "4.0",
+    kind: "selection",
+    width: bounds.maxX - bounds.minX + 1,
+    height: bounds.maxY - bounds.minY + 1,
+    allLayers,
+    tiles: tiles.map((tile) => ({
+      ...tile,
+      x: tile.x - bounds.minX,
+      y: tile.y - bounds.minY,
+    })),
+  };
+}
+
+export function serializeClipboard(clipboard: MapClipboard): string {
+  return JSON.stringify(clipboard);
+}
+
+/**
+ * Parses clipboard text. Accepts copied selections as well as whole exported
+ * maps (anything with a tiles array). Returns null if the text is not a map
+ * or any of its tiles is invalid.
+ */
+export function parseClipboard(text: string): MapClipboard | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof data !== "object" || data === null) return null;
+  const { tiles: rawTiles, kind, allLayers } = data as Record<string, unknown>;
+
+  let tiles: ExportedTile[];
+  try {
+    // Tiles are checked like the tiles of a loaded map
+    tiles = parseTiles(rawTiles);
+  } catch {
+    return null;
+  }
+  if (tiles.length === 0) return null;
+
+  // Whole maps keep their layers; copied selections say whether they did
+  return createClipboard(
+    tiles,
+    kind === "selection" ? !!allLayers : true
+  );
+}
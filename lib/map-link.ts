@@ -0,0 +1,121 @@
+/**
+ * Maps carried in links to the read-only viewer
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * The map JSON is deflated and written as base64url into the fragment
+ * (#map=...). Browsers don't send the fragment to the server, so a link
+ * holds the whole map and works without any storage.
+ */
+
+const FRAGMENT_PREFIX = "#map=";
+
+// Browsers cut longer URLs (Chrome allows about 2 MB)
+export const MAX_LINK_LENGTH = 2 * 1000 * 1000;
+
+// Unpacked size of a linked map. Real maps that fit in a link stay far below
+// it; a crafted link could otherwise unpack to gigabytes.
+const MAX_MAP_BYTES = 64 * 1024 * 1024;
+
+// Id of the viewer route for maps in the link, and for maps opened from a file
+export const LINKED_MAP_ID = "shared";
+export const LOCAL_MAP_ID = "local";
+
+async function transform(bytes: Uint8Array, stream: GenericTransformStream) {
+  const input = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream();
+  const output = input.pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Decompress, giving up with null as soon as the output grows past maxBytes
+async function inflate(
+  bytes: Uint8Array,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  const reader = new Blob([bytes as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  // In chunks, as fromCharCode takes its characters as arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Link to the viewer showing the given saved map. Throws if the link would
+ * be too long for browsers to open.
+ */
+export async function createViewerLink(
+  origin: string,
+  map: unknown
+): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(map));
+  const compressed = await transform(json, new CompressionStream("deflate"));
+  const link = `${origin}/view/${LINKED_MAP_ID}${FRAGMENT_PREFIX}${toBase64Url(
+    compressed
+  )}`;
+  if (link.length > MAX_LINK_LENGTH) {
+    throw new Error(
+      "The map is too large to share as a link. Export it and open the " +
+        "file in the viewer instead."
+    );
+  }
+  return link;
+}
+
+/**
+ * Whether a URL fragment (location.hash) carries a map
+ */
+export function hasLinkedMap(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX);
+}
+
+/**
+ * The saved map carried by a URL fragment, still to be validated
+ */
+export async function readLinkedMap(hash: string): Promise<unknown> {
+  try {
+    const compressed = fromBase64Url(hash.slice(FRAGMENT_PREFIX.length));
+    const json = await inflate(compressed, MAX_MAP_BYTES);
+    if (json) return JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error("The map in this link is damaged or incomplete");
+  }
+  const megabytes = MAX_MAP_BYTES / (1024 * 1024);
+  throw new Error(`The map in this link unpacks to more than ${megabytes} MB`);
+}
@@ -0,0 +1,749 @@
+/**
+ * Saved map format: version migrations and validation
+ * Pure functions with no Phaser or React dependencies
+ *
+ * Map JSON of any supported version is migrated step by step up to
+ * MAP_VERSION, then checked field by field. A document that passes can be
+ * loaded without further checks; one that doesn't is rejected as a whole with
+ * a list of errors, each naming the offending field (e.g. "tiles[3].x").
+ */
+
+import {
+  AutoTileCorner,
+  AutoTileEdge,
+  AutoTileRule,
+  CORNER_OFFSETS,
+  EDGE_OFFSETS,
+} from "./autotile";
+import {
+  CustomAssetData,
+  ExportedTile,
+  MapDocument,
+  MapLayer,
+  Prefab,
+  SavedCustomAsset,
+  SpriteData,
+} from "./game-types";
+import { ROTATION_DIRECTIONS, RotationVariant } from "./rotation";
+
+export const MAP_VERSION = "4.0";
+
+// Largest grid a map can have; beyond this the scene can't draw it smoothly
+export const MAX_GRID_SIZE = 1000;
+
+// Errors past this many are summarised, a broken file can have thousands
+const MAX_ERRORS = 20;
+
+// Grid defaults of maps saved before the grid was part of the map
+const LEGACY_TILE_WIDTH = 132;
+const LEGACY_GRID_SIZE = 50;
+
+export class MapValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid map: ${errors[0]}`);
+    this.name = "MapValidationError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Default settings of a layer. Layers of maps saved before layers had
+ * settings keep their old 30px stacking.
+ */
+export function createLayer(id: number, name?: string): MapLayer {
+  return {
+    id,
+    name: name ?? (id === 0 ? "Ground" : `Layer ${id}`),
+    heightOffset: id * 30,
+    visible: true,
+    locked: false,
+    opacity: 1,
+  };
+}
+
+// A validated map, with the layer list filled in for every layer tiles use
+export type ParsedMapDocument = MapDocument & { layers: MapLayer[] };
+
+type RawMap = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawMap {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: RawMap) => RawMap;
+}
+
+// Texture keys of the sheets in the first release
+const FIRST_RELEASE_TEXTURE_KEYS: Record<string, string> = {
+  cityTiles: "texture_tiles",
+  cityDetails: "texture_details",
+  buildingTiles: "texture_buildings",
+};
+
+/**
+ * Current texture key of a key saved by any build. Earlier builds wrote
+ * first-release and un-prefixed keys into files of every version, so this
+ * runs on every map after migrating; keys that are already current are
+ * returned unchanged.
+ */
+export function normalizeTextureKey(textureKey: string): string {
+  if (textureKey in FIRST_RELEASE_TEXTURE_KEYS) {
+    return FIRST_RELEASE_TEXTURE_KEYS[textureKey];
+  }
+  return textureKey.startsWith("texture_")
+    ? textureKey
+    : `texture_${textureKey}`;
+}
+
+function normalizeTiles(tiles: unknown): unknown {
+  if (!Array.isArray(tiles)) return tiles;
+  return tiles.map((tile: unknown) =>
+    isObject(tile) && typeof tile.textureKey === "string"
+      ? { ...tile, textureKey: normalizeTextureKey(tile.textureKey) }
+      : tile
+  );
+}
+
+// Texture keys of the map's tiles and of the tiles of its prefabs
+function normalizeTextureKeys(data: RawMap): RawMap {
+  const normalized: RawMap = { ...data, tiles: normalizeTiles(data.tiles) };
+  if (Array.isArray(data.prefabs)) {
+    normalized.prefabs = data.prefabs.map((prefab: unknown) =>
+      isObject(prefab)
+        ? { ...prefab, tiles: normalizeTiles(prefab.tiles) }
+        : prefab
+    );
+  }
+  return normalized;
+}
+
+// In order; each step takes a map of its "from" version to its "to" version
+const MIGRATIONS: Migration[] = [
+  {
+    // Sheets were renamed after the first release, and texture keys later
+    // gained the texture_ prefix of the asset set textures. Both are handled
+    // by normalizeTextureKeys, which runs on maps of every version.
+    from: "1.0",
+    to: "2.0",
+    migrate: (data) => data,
+  },
+  {
+    from: "2.0",
+    to: "3.0",
+    migrate: (data) => data,
+  },
+  {
+    // The grid size and origin became part of the map. Older maps used the
+    // default grid, centred horizontally 200px from the top.
+    from: "3.0",
+    to: "4.0",
+    migrate: (data) => {
+      const gridSize = data.gridSize ?? LEGACY_GRID_SIZE;
+      if (data.originOffsetX !== undefined || typeof gridSize !== "number") {
+        return { ...data, gridSize };
+      }
+      const tileWidth =
+        typeof data.tileWidth === "number" ? data.tileWidth : LEGACY_TILE_WIDTH;
+      return {
+        ...data,
+        gridSize,
+        originOffsetX: (gridSize * tileWidth) / 2,
+        originOffsetY: 200,
+      };
+    },
+  },
+];
+
+/**
+ * Runs the migrations from a map's version up to MAP_VERSION, then brings
+ * legacy texture keys up to date. Maps without a version are from the first
+ * release. Returns null for unknown versions.
+ */
+export function migrateMap(data: RawMap): RawMap | null {
+  let version = data.version === undefined ? "1.0" : String(data.version);
+  let migrated = data;
+  while (version !== MAP_VERSION) {
+    const step = MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) return null;
+    migrated = { ...step.migrate(migrated), version: step.to };
+    version = step.to;
+  }
+  return normalizeTextureKeys(migrated);
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+interface NumberRule {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return "nothing";
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+function describeRule(rule: NumberRule): string {
+  const kind = rule.integer ? "an integer" : "a number";
+  if (rule.min !== undefined && rule.max !== undefined) {
+    return `${kind} from ${rule.min} to ${rule.max}`;
+  }
+  if (rule.min !== undefined) return `${kind} of at least ${rule.min}`;
+  return kind;
+}
+
+// Collects errors with the path of the field they are about
+class Checker {
+  readonly errors: string[] = [];
+  private skipped = 0;
+
+  fail(path: string, message: string) {
+    if (this.errors.length < MAX_ERRORS) {
+      this.errors.push(`${path}: ${message}`);
+    } else {
+      this.skipped++;
+    }
+  }
+
+  get count() {
+    return this.errors.length + this.skipped;
+  }
+
+  // All errors, with the ones past MAX_ERRORS summarised
+  report(): string[] {
+    return this.skipped > 0
+      ? [...this.errors, `...and ${this.skipped} more problems`]
+      : this.errors;
+  }
+
+  number(
+    value: unknown,
+    path: string,
+    rule: NumberRule = {}
+  ): value is number {
+    const ok =
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      (!rule.integer || Number.isInteger(value)) &&
+      (rule.min === undefined || value >= rule.min) &&
+      (rule.max === undefined || value <= rule.max);
+    if (!ok) {
+      this.fail(
+        path,
+        `expected ${describeRule(rule)}, got ${describeValue(value)}`
+      );
+    }
+    return ok;
+  }
+
+  string(value: unknown, path: string): value is string {
+    const ok = typeof value === "string" && value.length > 0;
+    if (!ok) this.fail(path, `expected text, got ${describeValue(value)}`);
+    return ok;
+  }
+
+  boolean(value: unknown, path: string): value is boolean {
+    const ok = typeof value === "boolean";
+    if (!ok) {
+      this.fail(path, `expected true or false, got ${describeValue(value)}`);
+    }
+    return ok;
+  }
+
+  oneOf<T extends string>(
+    value: unknown,
+    path: string,
+    options: readonly T[]
+  ): value is T {
+    const ok = options.includes(value as T);
+    if (!ok) {
+      this.fail(
+        path,
+        `expected one of ${options.join(", ")}, got ${describeValue(value)}`
+      );
+    }
+    return ok;
+  }
+
+  object(value: unknown, path: string): value is RawMap {
+    const ok = isObject(value);
+    if (!ok) {
+      this.fail(path, `expected an object, got ${describeValue(value)}`);
+    }
+    return ok;
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    const ok = Array.isArray(value);
+    if (!ok) this.fail(path, `expected a list, got ${describeValue(value)}`);
+    return ok;
+  }
+
+  // Checks the fields of an object, returning the value if they all passed
+  check<T>(
+    value: unknown,
+    path: string,
+    fields: (value: RawMap) => T
+  ): T | null {
+    if (!this.object(value, path)) return null;
+    const before = this.count;
+    const result = fields(value);
+    return this.count === before ? result : null;
+  }
+}
+
+function checkSize(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (size) => {
+    c.number(size.width, `${path}.width`, { integer: true, min: 1 });
+    c.number(size.height, `${path}.height`, { integer: true, min: 1 });
+    return { width: size.width as number, height: size.height as number };
+  });
+}
+
+function checkPoint(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (point) => {
+    c.number(point.x, `${path}.x`);
+    c.number(point.y, `${path}.y`);
+    return { x: point.x as number, y: point.y as number };
+  });
+}
+
+// Width and height of the area tiles must lie in: the grid, or a prefab
+interface TileBounds {
+  width: number;
+  height: number;
+}
+
+function checkTile(
+  c: Checker,
+  value: unknown,
+  path: string,
+  bounds: TileBounds | null
+) {
+  return c.check(value, path, (raw): ExportedTile => {
+    c.number(raw.x, `${path}.x`, { integer: true, min: 0 });
+    c.number(raw.y, `${path}.y`, { integer: true, min: 0 });
+    if (raw.layer !== undefined) {
+      c.number(raw.layer, `${path}.layer`, { integer: true, min: 0 });
+    }
+    c.string(raw.tileName, `${path}.tileName`);
+    c.string(raw.textureKey, `${path}.textureKey`);
+
+    const tile: ExportedTile = {
+      x: raw.x as number,
+      y: raw.y as number,
+      layer: (raw.layer as number | undefined) ?? 0,
+      tileName: raw.tileName as string,
+      textureKey: raw.textureKey as string,
+    };
+    if (raw.footprint !== undefined) {
+      tile.footprint = checkSize(c, raw.footprint, `${path}.footprint`)!;
+    }
+    if (raw.origin !== undefined) {
+      tile.origin = checkPoint(c, raw.origin, `${path}.origin`)!;
+    }
+    if (raw.flipX !== undefined && c.boolean(raw.flipX, `${path}.flipX`)) {
+      tile.flipX = raw.flipX;
+    }
+    if (
+      raw.tint !== undefined &&
+      c.number(raw.tint, `${path}.tint`, {
+        integer: true,
+        min: 0,
+        max: 0xffffff,
+      })
+    ) {
+      tile.tint = raw.tint;
+    }
+    if (
+      raw.alpha !== undefined &&
+      c.number(raw.alpha, `${path}.alpha`, { min: 0, max: 1 })
+    ) {
+      tile.alpha = raw.alpha;
+    }
+
+    // The whole footprint must be inside the bounds, not just the anchor
+    if (bounds && Number.isInteger(tile.x) && Number.isInteger(tile.y)) {
+      const width = tile.footprint?.width ?? 1;
+      const height = tile.footprint?.height ?? 1;
+      if (
+        tile.x + width > bounds.width ||
+        tile.y + height > bounds.height
+      ) {
+        c.fail(
+          path,
+          `a ${width}x${height} tile at ${tile.x},${tile.y} is outside ` +
+            `the ${bounds.width}x${bounds.height} area`
+        );
+      }
+    }
+    return tile;
+  });
+}
+
+/**
+ * Checks a list of tiles, as found in maps, prefabs and the clipboard. Tiles
+ * (with their footprints) must lie within bounds when given.
+ */
+function checkTiles(
+  c: Checker,
+  value: unknown,
+  path: string,
+  bounds: TileBounds | null
+): ExportedTile[] {
+  if (!c.array(value, path)) return [];
+  return value
+    .map((tile, index) => checkTile(c, tile, `${path}[${index}]`, bounds))
+    .filter((tile): tile is ExportedTile => tile !== null);
+}
+
+/**
+ * Checks a list of saved tiles on its own, e.g. pasted ones, bringing legacy
+ * texture keys up to date. Throws a MapValidationError if any tile is
+ * invalid.
+ */
+export function parseTiles(value: unknown): ExportedTile[] {
+  const c = new Checker();
+  const tiles = checkTiles(c, normalizeTiles(value), "tiles", null);
+  if (c.count > 0) throw new MapValidationError(c.report());
+  return tiles;
+}
+
+// A list of directions, e.g. the edges of an auto-tile rule
+function checkDirections<T extends string>(
+  c: Checker,
+  value: unknown,
+  path: string,
+  options: readonly T[]
+): T[] {
+  if (!c.array(value, path)) return [];
+  return value.filter((direction, index): direction is T =>
+    c.oneOf(direction, `${path}[${index}]`, options)
+  );
+}
+
+function checkAutoTileRule(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (raw): AutoTileRule => {
+    c.string(raw.group, `${path}.group`);
+    const rule: AutoTileRule = {
+      group: raw.group as string,
+      edges: checkDirections(
+        c,
+        raw.edges,
+        `${path}.edges`,
+        Object.keys(EDGE_OFFSETS) as AutoTileEdge[]
+      ),
+    };
+    if (raw.corners !== undefined) {
+      rule.corners = checkDirections(
+        c,
+        raw.corners,
+        `${path}.corners`,
+        Object.keys(CORNER_OFFSETS) as AutoTileCorner[]
+      );
+    }
+    return rule;
+  });
+}
+
+function checkRotationVariant(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (raw): RotationVariant => {
+    c.string(raw.group, `${path}.group`);
+    c.oneOf(raw.direction, `${path}.direction`, ROTATION_DIRECTIONS);
+    return {
+      group: raw.group as string,
+      direction: raw.direction as RotationVariant["direction"],
+    };
+  });
+}
+
+function checkSprite(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (raw): SpriteData => {
+    c.string(raw.name, `${path}.name`);
+    c.number(raw.x, `${path}.x`, { min: 0 });
+    c.number(raw.y, `${path}.y`, { min: 0 });
+    c.number(raw.width, `${path}.width`, { min: 1 });
+    c.number(raw.height, `${path}.height`, { min: 1 });
+
+    const sprite: SpriteData = {
+      name: raw.name as string,
+      x: raw.x as number,
+      y: raw.y as number,
+      width: raw.width as number,
+      height: raw.height as number,
+    };
+    if (raw.footprint !== undefined) {
+      sprite.footprint = checkSize(c, raw.footprint, `${path}.footprint`)!;
+    }
+    if (raw.origin !== undefined) {
+      sprite.origin = checkPoint(c, raw.origin, `${path}.origin`)!;
+    }
+    // Parsed from the sheet's XML when the asset was added
+    if (raw.autotile !== undefined) {
+      sprite.autotile = checkAutoTileRule(c, raw.autotile, `${path}.autotile`)!;
+    }
+    if (raw.rotation !== undefined) {
+      sprite.rotation = checkRotationVariant(
+        c,
+        raw.rotation,
+        `${path}.rotation`
+      )!;
+    }
+    return sprite;
+  });
+}
+
+function checkCustomAsset(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (raw): SavedCustomAsset => {
+    c.string(raw.id, `${path}.id`);
+    c.string(raw.name, `${path}.name`);
+
+    const asset: SavedCustomAsset = {
+      id: raw.id as string,
+      name: raw.name as string,
+      sprites: [],
+    };
+    if (raw.imageDataUrl !== undefined) {
+      if (
+        typeof raw.imageDataUrl === "string" &&
+        raw.imageDataUrl.startsWith("data:image/")
+      ) {
+        asset.imageDataUrl = raw.imageDataUrl;
+      } else {
+        c.fail(`${path}.imageDataUrl`, "expected an image data URL");
+      }
+    } else if (c.string(raw.imageHash, `${path}.imageHash`)) {
+      asset.imageHash = raw.imageHash;
+    }
+
+    if (c.array(raw.sprites, `${path}.sprites`)) {
+      asset.sprites = raw.sprites
+        .map((sprite, index) =>
+          checkSprite(c, sprite, `${path}.sprites[${index}]`)
+        )
+        .filter((sprite): sprite is SpriteData => sprite !== null);
+    }
+    return asset;
+  });
+}
+
+/**
+ * Checks a custom asset set on its own, e.g. one shared by another editor,
+ * which must carry its image. Throws a MapValidationError if it is invalid.
+ */
+export function parseCustomAsset(value: unknown): CustomAssetData {
+  const c = new Checker();
+  const asset = checkCustomAsset(c, value, "customAsset");
+  if (asset && !asset.imageDataUrl) {
+    c.fail("customAsset.imageDataUrl", "expected an image data URL");
+  }
+  if (!asset?.imageDataUrl) throw new MapValidationError(c.report());
+  return { ...asset, imageDataUrl: asset.imageDataUrl };
+}
+
+function checkPrefab(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (raw): Prefab => {
+    c.string(raw.id, `${path}.id`);
+    c.string(raw.name, `${path}.name`);
+    const sized =
+      c.number(raw.width, `${path}.width`, { integer: true, min: 1 }) &&
+      c.number(raw.height, `${path}.height`, { integer: true, min: 1 });
+
+    const prefab: Prefab = {
+      id: raw.id as string,
+      name: raw.name as string,
+      width: raw.width as number,
+      height: raw.height as number,
+      tiles: [],
+    };
+    // Prefab tiles are relative to its top-left cell
+    prefab.tiles = checkTiles(
+      c,
+      raw.tiles,
+      `${path}.tiles`,
+      sized ? prefab : null
+    );
+    if (typeof raw.thumbnail === "string") prefab.thumbnail = raw.thumbnail;
+    return prefab;
+  });
+}
+
+// Saved layer settings; fields missing from maps saved by earlier builds get
+// their defaults
+function checkLayer(c: Checker, value: unknown, path: string) {
+  return c.check(value, path, (raw): MapLayer => {
+    c.number(raw.id, `${path}.id`, { integer: true, min: 0 });
+    const layer = createLayer(raw.id as number);
+    if (raw.name !== undefined && c.string(raw.name, `${path}.name`)) {
+      layer.name = raw.name;
+    }
+    if (
+      raw.heightOffset !== undefined &&
+      c.number(raw.heightOffset, `${path}.heightOffset`)
+    ) {
+      layer.heightOffset = raw.heightOffset;
+    }
+    if (
+      raw.visible !== undefined &&
+      c.boolean(raw.visible, `${path}.visible`)
+    ) {
+      layer.visible = raw.visible;
+    }
+    if (raw.locked !== undefined && c.boolean(raw.locked, `${path}.locked`)) {
+      layer.locked = raw.locked;
+    }
+    if (
+      raw.opacity !== undefined &&
+      c.number(raw.opacity, `${path}.opacity`, { min: 0, max: 1 })
+    ) {
+      layer.opacity = raw.opacity;
+    }
+    return layer;
+  });
+}
+
+// The saved layer list, plus default layers for tiles on layers it doesn't
+// name (all of them, in maps saved before named layers)
+function checkLayers(
+  c: Checker,
+  value: unknown,
+  tiles: ExportedTile[]
+): MapLayer[] {
+  const layers: MapLayer[] = [];
+  if (value !== undefined && c.array(value, "layers")) {
+    value.forEach((entry, index) => {
+      const layer = checkLayer(c, entry, `layers[${index}]`);
+      if (!layer) return;
+      if (layers.some((l) => l.id === layer.id)) {
+        c.fail(`layers[${index}].id`, `layer ${layer.id} is listed twice`);
+        return;
+      }
+      layers.push(layer);
+    });
+  }
+
+  Array.from(new Set(tiles.map((tile) => tile.layer)))
+    .sort((a, b) => a - b)
+    .forEach((id) => {
+      if (!layers.some((layer) => layer.id === id)) {
+        layers.push(createLayer(id));
+      }
+    });
+  if (layers.length === 0) layers.push(createLayer(0));
+  return layers;
+}
+
+/**
+ * Checks a layer list on its own, e.g. one shared by another editor. Throws a
+ * MapValidationError if any layer is invalid.
+ */
+export function parseLayers(value: unknown): MapLayer[] {
+  const c = new Checker();
+  const layers = checkLayers(c, value, []);
+  if (c.count > 0) throw new MapValidationError(c.report());
+  return layers;
+}
+
+/**
+ * Migrates and validates saved map JSON. Throws a MapValidationError listing
+ * every problem found if the map can't be loaded as a whole.
+ */
+export function parseMapDocument(data: unknown): ParsedMapDocument {
+  if (!isObject(data)) {
+    throw new MapValidationError([
+      "The file is not a map (expected a JSON object)",
+    ]);
+  }
+
+  const migrated = migrateMap(data);
+  if (!migrated) {
+    throw new MapValidationError([
+      `Unsupported map version ${describeValue(data.version)} ` +
+        `(this builder reads versions up to ${MAP_VERSION})`,
+    ]);
+  }
+
+  const c = new Checker();
+  const { gridSize } = migrated;
+  const gridChecked = c.number(gridSize, "gridSize", {
+    integer: true,
+    min: 1,
+    max: MAX_GRID_SIZE,
+  });
+  c.number(migrated.originOffsetX, "originOffsetX");
+  c.number(migrated.originOffsetY, "originOffsetY");
+  if (migrated.tileWidth !== undefined) {
+    c.number(migrated.tileWidth, "tileWidth", { min: 1 });
+  }
+  if (migrated.tileHeight !== undefined) {
+    c.number(migrated.tileHeight, "tileHeight", { min: 1 });
+  }
+
+  const tiles = checkTiles(
+    c,
+    migrated.tiles,
+    "tiles",
+    gridChecked ? { width: gridSize, height: gridSize } : null
+  );
+  const layers = checkLayers(c, migrated.layers, tiles);
+
+  const customAssets: SavedCustomAsset[] = [];
+  if (
+    migrated.customAssets !== undefined &&
+    c.array(migrated.customAssets, "customAssets")
+  ) {
+    migrated.customAssets.forEach((asset, index) => {
+      const checked = checkCustomAsset(c, asset, `customAssets[${index}]`);
+      if (checked) customAssets.push(checked);
+    });
+  }
+
+  let prefabs: Prefab[] | undefined;
+  if (migrated.prefabs !== undefined && c.array(migrated.prefabs, "prefabs")) {
+    prefabs = migrated.prefabs
+      .map((prefab, index) => checkPrefab(c, prefab, `prefabs[${index}]`))
+      .filter((prefab): prefab is Prefab => prefab !== null);
+  }
+
+  // Plugin data is checked by each plugin's own serializer
+  if (migrated.plugins !== undefined) c.object(migrated.plugins, "plugins");
+
+  if (c.count > 0) throw new MapValidationError(c.report());
+
+  const document: ParsedMapDocument = {
+    version: MAP_VERSION,
+    gridSize: gridSize as number,
+    originOffsetX: migrated.originOffsetX as number,
+    originOffsetY: migrated.originOffsetY as number,
+    layers,
+    customAssets,
+    tiles,
+  };
+  if (migrated.tileWidth !== undefined) {
+    document.tileWidth = migrated.tileWidth as number;
+  }
+  if (migrated.tileHeight !== undefined) {
+    document.tileHeight = migrated.tileHeight as number;
+  }
+  if (prefabs) document.prefabs = prefabs;
+  if (migrated.plugins !== undefined) {
+    document.plugins = migrated.plugins as MapDocument["plugins"];
+  }
+  if (typeof migrated.timestamp === "string") {
+    document.timestamp = migrated.timestamp;
+  }
+  return document;
+}
@@ -0,0 +1,281 @@
+/**
+ * Map scripts: user JavaScript run against a copy of the map
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * A script gets a `map` object (see ScriptMapApi) and a `print` function. It
+ * edits a CityMap built from a snapshot of the scene's cells, and only the
+ * resulting cell changes are handed back, so a script that throws changes
+ * nothing. lib/script-runner.ts runs scripts in a sandboxed Web Worker, out
+ * of reach of the page, the network and storage.
+ */
+
+import { CityMap, parseCellKey } from "./city-map";
+import { GridRect, TileCell } from "./game-types";
+import { cellKey } from "./map-serializer";
+
+// What a script can see of the scene, sent to the worker
+export interface ScriptContext {
+  cells: [string, TileCell][];
+  gridSize: number;
+  currentLayer: number;
+  layers: Array<{
+    id: number;
+    name: string;
+    visible: boolean;
+    locked: boolean;
+  }>;
+  selection: GridRect | null;
+  sheets: ScriptSheet[];
+}
+
+// An asset set, as far as placing its sprites goes
+export interface ScriptSheet {
+  id: string;
+  textureKey: string;
+  sprites: Array<{
+    name: string;
+    footprint?: { width: number; height: number };
+    origin?: { x: number; y: number };
+  }>;
+}
+
+export interface ScriptResult {
+  changes: [string, TileCell | null][]; // Final state of every changed cell
+  selection?: GridRect | null; // Only when the script selected something
+  output: string[];
+  error?: string; // Set when the script threw; changes is then empty
+}
+
+// A placed tile as scripts see it, described by its anchor cell
+export interface ScriptTile {
+  x: number;
+  y: number;
+  layer: number;
+  tile: string; // Sprite name
+  sheet: string; // Asset set id
+  width: number; // Footprint
+  height: number;
+  flipX: boolean;
+  tint: number | null;
+  alpha: number;
+}
+
+export interface ScriptTileFilter {
+  layer?: number;
+  tile?: string;
+  sheet?: string;
+  rect?: GridRect;
+}
+
+export interface ScriptPlaceOptions {
+  layer?: number;
+  sheet?: string; // Needed when several sheets have a sprite of that name
+  flipX?: boolean;
+}
+
+/**
+ * The `map` object of a script
+ */
+export interface ScriptMapApi {
+  readonly size: number;
+  readonly currentLayer: number;
+  readonly layers: ScriptContext["layers"];
+  readonly selection: GridRect | null;
+  // Tile covering a cell, on the current layer by default
+  get(x: number, y: number, layer?: number): ScriptTile | null;
+  // Every tile matching the filter, in the order they were placed
+  tiles(filter?: ScriptTileFilter): ScriptTile[];
+  // Coordinates of the cells of a rectangle (default: the selection, or the
+  // whole grid)
+  cells(rect?: GridRect): Array<{ x: number; y: number }>;
+  // Returns false if the tile doesn't fit on the grid
+  place(
+    tile: string,
+    x: number,
+    y: number,
+    options?: ScriptPlaceOptions
+  ): boolean;
+  // Removes the tile covering a cell. Returns false if there was none.
+  remove(x: number, y: number, layer?: number): boolean;
+  select(rect: GridRect | null): void;
+}
+
+const TEXTURE_PREFIX = "texture_";
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === undefined) return "undefined";
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function toScriptTile(key: string, cell: TileCell): ScriptTile {
+  const { x, y, layer } = parseCellKey(key);
+  return {
+    x,
+    y,
+    layer,
+    tile: cell.tileName,
+    sheet: cell.textureKey.startsWith(TEXTURE_PREFIX)
+      ? cell.textureKey.slice(TEXTURE_PREFIX.length)
+      : cell.textureKey,
+    width: cell.footprint.width,
+    height: cell.footprint.height,
+    flipX: !!cell.flipX,
+    tint: cell.tint ?? null,
+    alpha: cell.alpha ?? 1,
+  };
+}
+
+function inRect(rect: GridRect, x: number, y: number) {
+  return x >= rect.minX && x <= rect.maxX && y >= rect.minY && y <= rect.maxY;
+}
+
+/**
+ * Runs a script against a copy of the map. Errors thrown by the script are
+ * returned in the result rather than thrown.
+ */
+export function runMapScript(
+  code: string,
+  context: ScriptContext
+): ScriptResult {
+  const cityMap = new CityMap();
+  context.cells.forEach(([key, cell]) => cityMap.set(key, cell));
+
+  const changed = new Set<string>();
+  cityMap.subscribe(({ key }) => changed.add(key));
+
+  const output: string[] = [];
+  let selection: GridRect | null | undefined;
+  const wholeGrid: GridRect = {
+    minX: 0,
+    minY: 0,
+    maxX: context.gridSize - 1,
+    maxY: context.gridSize - 1,
+  };
+
+  const isInBounds = (x: number, y: number) =>
+    Number.isInteger(x) && Number.isInteger(y) && inRect(wholeGrid, x, y);
+
+  const checkLayer = (layer: number) => {
+    const info = context.layers.find((l) => l.id === layer);
+    if (info?.locked) throw new Error(`Layer "${info.name}" is locked`);
+  };
+
+  const findSprite = (tile: string, sheetId?: string) => {
+    const matches = context.sheets.flatMap((sheet) =>
+      sheet.sprites
+        .filter((sprite) => sprite.name === tile)
+        .map((sprite) => ({ sheet, sprite }))
+    );
+    const candidates = sheetId
+      ? matches.filter((match) => match.sheet.id === sheetId)
+      : matches;
+    if (candidates.length === 0) {
+      throw new Error(
+        sheetId
+          ? `No tile "${tile}" in sheet "${sheetId}"`
+          : `Unknown tile "${tile}"`
+      );
+    }
+    if (candidates.length > 1) {
+      throw new Error(
+        `Tile "${tile}" is in several sheets (` +
+          candidates.map((c) => c.sheet.id).join(", ") +
+          "), pass { sheet } to pick one"
+      );
+    }
+    return candidates[0];
+  };
+
+  const map: ScriptMapApi = {
+    size: context.gridSize,
+    currentLayer: context.currentLayer,
+    layers: context.layers,
+    get selection() {
+      return selection === undefined ? context.selection : selection;
+    },
+    get(x, y, layer = context.currentLayer) {
+      const key = cityMap.getAnchorKey(cellKey(x, y, layer));
+      return key ? toScriptTile(key, cityMap.get(key)!) : null;
+    },
+    tiles(filter = {}) {
+      const tiles: ScriptTile[] = [];
+      cityMap.forEach((cell, key) => {
+        if (!cell.isAnchor) return;
+        const tile = toScriptTile(key, cell);
+        if (filter.layer !== undefined && tile.layer !== filter.layer) return;
+        if (filter.tile !== undefined && tile.tile !== filter.tile) return;
+        if (filter.sheet !== undefined && tile.sheet !== filter.sheet) return;
+        if (filter.rect && !inRect(filter.rect, tile.x, tile.y)) return;
+        tiles.push(tile);
+      });
+      return tiles;
+    },
+    cells(rect = map.selection ?? wholeGrid) {
+      const minX = Math.max(0, rect.minX);
+      const minY = Math.max(0, rect.minY);
+      const maxX = Math.min(wholeGrid.maxX, rect.maxX);
+      const maxY = Math.min(wholeGrid.maxY, rect.maxY);
+      const cells: Array<{ x: number; y: number }> = [];
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          cells.push({ x, y });
+        }
+      }
+      return cells;
+    },
+    place(tile, x, y, options = {}) {
+      const layer = options.layer ?? context.currentLayer;
+      checkLayer(layer);
+      const { sheet, sprite } = findSprite(tile, options.sheet);
+      const footprint = sprite.footprint ?? { width: 1, height: 1 };
+      if (
+        !isInBounds(x, y) ||
+        !isInBounds(x + footprint.width - 1, y + footprint.height - 1)
+      ) {
+        return false;
+      }
+      cityMap.place(x, y, layer, {
+        tileName: sprite.name,
+        textureKey: sheet.textureKey,
+        footprint,
+        origin: sprite.origin ?? { x: 0.5, y: 0.5 },
+        flipX: options.flipX,
+      });
+      return true;
+    },
+    remove(x, y, layer = context.currentLayer) {
+      checkLayer(layer);
+      if (!cityMap.getAt(x, y, layer)) return false;
+      cityMap.remove(x, y, layer);
+      return true;
+    },
+    select(rect) {
+      selection = rect ? { ...rect } : null;
+    },
+  };
+
+  const print = (...values: unknown[]) => {
+    output.push(values.map(formatValue).join(" "));
+  };
+
+  try {
+    new Function("map", "print", `"use strict";\n${code}`)(map, print);
+  } catch (error) {
+    return {
+      changes: [],
+      output,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return {
+    changes: Array.from(changed).map((key) => [key, cityMap.get(key) ?? null]),
+    ...(selection !== undefined ? { selection } : {}),
+    output,
+  };
+}
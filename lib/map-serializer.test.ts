@@ -0,0 +1,278 @@
+import { describe, expect, it } from "vitest";
+import oasisMap from "../public/oasis-map.json";
+import { MAX_GRID_SIZE, MapValidationError } from "./map-schema";
+import { MapModel, deserializeMap, serializeMap } from "./map-serializer";
+
+// Errors deserializeMap rejects a document with
+function rejectionOf(data: unknown): string[] {
+  try {
+    deserializeMap(data);
+  } catch (error) {
+    expect(error).toBeInstanceOf(MapValidationError);
+    return (error as MapValidationError).errors;
+  }
+  throw new Error("The map was not rejected");
+}
+
+const tile = (x: number, y: number, textureKey = "texture_floors") => ({
+  x,
+  y,
+  layer: 0,
+  tileName: "grass_01_01",
+  textureKey,
+});
+
+const ground = {
+  id: 0,
+  name: "Ground",
+  heightOffset: 0,
+  visible: true,
+  locked: false,
+  opacity: 1,
+};
+
+describe("round trip", () => {
+  it("gives back the bundled oasis map", () => {
+    const model = deserializeMap(oasisMap);
+    expect(serializeMap(model, oasisMap.timestamp)).toStrictEqual(oasisMap);
+  });
+
+  it("keeps footprints, instance properties, layers and plugin data", () => {
+    const document = {
+      version: "4.0",
+      gridSize: 10,
+      originOffsetX: 660,
+      originOffsetY: 200,
+      layers: [
+        { ...ground },
+        {
+          id: 2,
+          name: "Roofs",
+          heightOffset: 45,
+          visible: false,
+          locked: true,
+          opacity: 0.5,
+        },
+      ],
+      customAssets: [],
+      plugins: { "line-tool": { width: 2 } },
+      tiles: [
+        tile(0, 0),
+        {
+          ...tile(3, 4, "texture_buildings"),
+          layer: 2,
+          footprint: { width: 2, height: 3 },
+          origin: { x: 0.5, y: 1 },
+          flipX: true,
+          tint: 0xff0000,
+          alpha: 0.25,
+        },
+      ],
+      timestamp: "2024-05-01T12:00:00.000Z",
+    };
+
+    const model = deserializeMap(document);
+    expect(model.cells.size).toBe(7);
+    expect(model.cells.get("4,6,2")).toMatchObject({
+      isAnchor: false,
+      anchorKey: "3,4,2",
+    });
+    expect(serializeMap(model, document.timestamp)).toStrictEqual(document);
+  });
+
+  it("leaves out settings that match the defaults", () => {
+    const model: MapModel = {
+      gridSize: 5,
+      originOffsetX: 0,
+      originOffsetY: 0,
+      layers: [{ ...ground }],
+      cells: new Map(),
+      customAssets: [],
+      plugins: {},
+    };
+    expect(serializeMap(model, "now")).toStrictEqual({
+      version: "4.0",
+      gridSize: 5,
+      originOffsetX: 0,
+      originOffsetY: 0,
+      customAssets: [],
+      tiles: [],
+      timestamp: "now",
+    });
+  });
+});
+
+describe("legacy maps", () => {
+  it("reads maps of the first release, which had no version", () => {
+    const model = deserializeMap({
+      tiles: [
+        { x: 1, y: 2, tileName: "road", textureKey: "cityTiles" },
+        { x: 2, y: 2, tileName: "tree", textureKey: "cityDetails" },
+        { x: 3, y: 2, tileName: "house", textureKey: "buildingTiles" },
+      ],
+    });
+
+    expect(model.gridSize).toBe(50);
+    expect(model.originOffsetX).toBe(3300);
+    expect(model.originOffsetY).toBe(200);
+    expect(model.cells.get("1,2,0")?.textureKey).toBe("texture_tiles");
+    expect(model.cells.get("2,2,0")?.textureKey).toBe("texture_details");
+    expect(model.cells.get("3,2,0")?.textureKey).toBe("texture_buildings");
+    expect(model.layers.map((layer) => layer.id)).toEqual([0]);
+  });
+
+  it("adds the texture prefix to keys of 2.0 maps", () => {
+    const model = deserializeMap({
+      version: "2.0",
+      tiles: [tile(0, 0, "floors")],
+    });
+    expect(model.cells.get("0,0,0")?.textureKey).toBe("texture_floors");
+  });
+
+  it("places 3.0 maps on the grid they were drawn on", () => {
+    const model = deserializeMap({
+      version: "3.0",
+      gridSize: 20,
+      tileWidth: 100,
+      tiles: [tile(19, 19)],
+    });
+    expect(model.gridSize).toBe(20);
+    expect(model.originOffsetX).toBe(1000);
+    expect(model.originOffsetY).toBe(200);
+  });
+
+  it("normalizes legacy texture keys in maps of the current version", () => {
+    const model = deserializeMap({
+      version: "4.0",
+      gridSize: 10,
+      originOffsetX: 0,
+      originOffsetY: 0,
+      tiles: [tile(0, 0, "cityTiles"), tile(1, 0, "waters")],
+      prefabs: [
+        {
+          id: "prefab_1",
+          name: "Pond",
+          width: 1,
+          height: 1,
+          tiles: [tile(0, 0, "waters")],
+        },
+      ],
+    });
+    expect(model.cells.get("0,0,0")?.textureKey).toBe("texture_tiles");
+    expect(model.cells.get("1,0,0")?.textureKey).toBe("texture_waters");
+    expect(model.prefabs?.[0].tiles[0].textureKey).toBe("texture_waters");
+  });
+});
+
+describe("invalid maps", () => {
+  const valid = {
+    version: "4.0",
+    gridSize: 10,
+    originOffsetX: 0,
+    originOffsetY: 0,
+    customAssets: [],
+    tiles: [tile(0, 0)],
+  };
+
+  it("rejects documents that aren't maps", () => {
+    expect(rejectionOf(null)).toHaveLength(1);
+    expect(rejectionOf([valid])).toHaveLength(1);
+    expect(rejectionOf("map")).toHaveLength(1);
+  });
+
+  it("rejects unknown versions", () => {
+    expect(rejectionOf({ ...valid, version: "9.0" })[0]).toMatch(
+      /Unsupported map version "9.0"/
+    );
+  });
+
+  it("names each field that is wrong", () => {
+    const errors = rejectionOf({
+      ...valid,
+      gridSize: "big",
+      tiles: [{ ...tile(0, 0), x: -1, tileName: "" }, { y: 1 }],
+    });
+    expect(errors).toEqual([
+      'gridSize: expected an integer from 1 to 1000, got "big"',
+      "tiles[0].x: expected an integer of at least 0, got -1",
+      'tiles[0].tileName: expected text, got ""',
+      "tiles[1].x: expected an integer of at least 0, got nothing",
+      "tiles[1].tileName: expected text, got nothing",
+      "tiles[1].textureKey: expected text, got nothing",
+    ]);
+  });
+
+  it("rejects grids larger than the maximum", () => {
+    expect(rejectionOf({ ...valid, gridSize: MAX_GRID_SIZE + 1 })).toEqual([
+      `gridSize: expected an integer from 1 to ${MAX_GRID_SIZE}, ` +
+        `got ${MAX_GRID_SIZE + 1}`,
+    ]);
+  });
+
+  it("rejects tiles and footprints outside the grid", () => {
+    const errors = rejectionOf({
+      ...valid,
+      tiles: [
+        tile(10, 0),
+        tile(0, 12),
+        { ...tile(8, 8), footprint: { width: 2, height: 3 } },
+        { ...tile(8, 7), footprint: { width: 2, height: 3 } },
+      ],
+    });
+    expect(errors).toEqual([
+      "tiles[0]: a 1x1 tile at 10,0 is outside the 10x10 area",
+      "tiles[1]: a 1x1 tile at 0,12 is outside the 10x10 area",
+      "tiles[2]: a 2x3 tile at 8,8 is outside the 10x10 area",
+    ]);
+  });
+
+  it("rejects prefab tiles outside the prefab", () => {
+    const errors = rejectionOf({
+      ...valid,
+      prefabs: [
+        { id: "p", name: "P", width: 2, height: 1, tiles: [tile(1, 1)] },
+      ],
+    });
+    expect(errors).toEqual([
+      "prefabs[0].tiles[0]: a 1x1 tile at 1,1 is outside the 2x1 area",
+    ]);
+  });
+
+  it("checks the auto-tile and rotation rules of custom sprites", () => {
+    const sprite = { name: "road", x: 0, y: 0, width: 132, height: 66 };
+    const errors = rejectionOf({
+      ...valid,
+      customAssets: [
+        {
+          id: "roads",
+          name: "Roads",
+          imageHash: "abc",
+          sprites: [
+            { ...sprite, autotile: { group: "road", edges: ["NE", "UP"] } },
+            { ...sprite, autotile: { edges: "NE", corners: [1] } },
+            { ...sprite, rotation: { group: "stall", direction: "NE" } },
+            { ...sprite, rotation: "N" },
+          ],
+        },
+      ],
+    });
+    const path = "customAssets[0].sprites";
+    expect(errors).toEqual([
+      `${path}[0].autotile.edges[1]: expected one of NW, NE, SE, SW, ` +
+        'got "UP"',
+      `${path}[1].autotile.group: expected text, got nothing`,
+      `${path}[1].autotile.edges: expected a list, got "NE"`,
+      `${path}[1].autotile.corners[0]: expected one of N, E, S, W, got 1`,
+      `${path}[2].rotation.direction: expected one of N, E, S, W, got "NE"`,
+      `${path}[3].rotation: expected an object, got "N"`,
+    ]);
+  });
+
+  it("summarises errors past the first twenty", () => {
+    // Four problems each: x, y, tileName and textureKey
+    const tiles = Array.from({ length: 30 }, () => ({ x: "a" }));
+    const errors = rejectionOf({ ...valid, tiles });
+    expect(errors).toHaveLength(21);
+    expect(errors[20]).toBe("...and 100 more problems");
+  });
+});
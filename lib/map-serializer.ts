@@ -0,0 +1,227 @@
+/**
+ * Conversion between the map model and saved map documents
+ * Pure functions with no Phaser or React dependencies
+ *
+ * Autosave, file export, file import and the bundled oasis map all go through
+ * serializeMap and deserializeMap, so every saved map has the same shape.
+ * Deserializing a document and serializing the result gives back the same
+ * JSON, given the same timestamp.
+ */
+
+import {
+  AssetSet,
+  ExportedTile,
+  MapDocument,
+  MapLayer,
+  Prefab,
+  SavedCustomAsset,
+  TileCell,
+} from "./game-types";
+import { MAP_VERSION, createLayer, parseMapDocument } from "./map-schema";
+
+/**
+ * Everything a saved map holds. Cells are keyed "x,y,layer" like the scene's
+ * cityMap, with one cell per footprint cell of each tile.
+ */
+export interface MapModel {
+  gridSize: number;
+  originOffsetX: number;
+  originOffsetY: number;
+  tileWidth?: number;
+  tileHeight?: number;
+  layers: MapLayer[]; // Bottom to top
+  cells: ReadonlyMap<string, TileCell>;
+  customAssets: SavedCustomAsset[];
+  prefabs?: Prefab[]; // Exported files carry the prefab library, autosaves don't
+  plugins?: Record<string, unknown>; // Saved plugin data by plugin id
+}
+
+export function cellKey(x: number, y: number, layer: number): string {
+  return `${x},${y},${layer}`;
+}
+
+/**
+ * Per-instance properties of a tile, only the ones that are set
+ */
+export function pickInstanceProps(source: {
+  flipX?: boolean;
+  tint?: number | null;
+  alpha?: number;
+}) {
+  const props: { flipX?: boolean; tint?: number; alpha?: number } = {};
+  if (source.flipX) props.flipX = true;
+  if (typeof source.tint === "number") props.tint = source.tint;
+  if (typeof source.alpha === "number" && source.alpha < 1) {
+    props.alpha = Math.max(0, source.alpha);
+  }
+  return props;
+}
+
+/**
+ * Saved form of an anchor cell. Returns null for other cells.
+ */
+export function cellToTile(
+  key: string,
+  cell: TileCell | undefined
+): ExportedTile | null {
+  if (!cell?.isAnchor) return null;
+
+  const [x, y, layer] = key.split(",").map(Number);
+  const tile: ExportedTile = {
+    x,
+    y,
+    layer: layer || 0,
+    tileName: cell.tileName,
+    textureKey: cell.textureKey,
+  };
+
+  // Footprint only if it's multi-tile, origin only if it's not the default
+  const { footprint, origin } = cell;
+  if (footprint && (footprint.width > 1 || footprint.height > 1)) {
+    tile.footprint = footprint;
+  }
+  if (origin && (origin.x !== 0.5 || origin.y !== 0.5)) {
+    tile.origin = origin;
+  }
+
+  return { ...tile, ...pickInstanceProps(cell) };
+}
+
+/**
+ * The cells a saved tile covers: its anchor first, then the rest of its
+ * footprint pointing back at the anchor
+ */
+export function tileToCells(tile: ExportedTile): [string, TileCell][] {
+  const footprint = tile.footprint || { width: 1, height: 1 };
+  const origin = tile.origin || { x: 0.5, y: 0.5 };
+  const shared = {
+    tileName: tile.tileName,
+    textureKey: tile.textureKey,
+    layer: tile.layer,
+    footprint,
+    origin,
+    ...pickInstanceProps(tile),
+  };
+
+  const anchorKey = cellKey(tile.x, tile.y, tile.layer);
+  const cells: [string, TileCell][] = [
+    [anchorKey, { ...shared, isAnchor: true }],
+  ];
+  for (let fx = 0; fx < footprint.width; fx++) {
+    for (let fy = 0; fy < footprint.height; fy++) {
+      if (fx === 0 && fy === 0) continue;
+      cells.push([
+        cellKey(tile.x + fx, tile.y + fy, tile.layer),
+        { ...shared, isAnchor: false, anchorKey },
+      ]);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Saved form of the custom asset sets. Without inlineImages, images that are
+ * in the image store are referenced by hash.
+ */
+export function serializeCustomAssets(
+  assetSets: Iterable<AssetSet>,
+  inlineImages: boolean
+): SavedCustomAsset[] {
+  const customAssets: SavedCustomAsset[] = [];
+  for (const assetSet of assetSets) {
+    if (!assetSet.isCustom || !assetSet.imageDataUrl) continue;
+    customAssets.push({
+      id: assetSet.id,
+      name: assetSet.name,
+      ...(inlineImages || !assetSet.imageHash
+        ? { imageDataUrl: assetSet.imageDataUrl }
+        : { imageHash: assetSet.imageHash }),
+      sprites: assetSet.sprites.map((sprite) => ({
+        name: sprite.name,
+        x: sprite.x,
+        y: sprite.y,
+        width: sprite.width,
+        height: sprite.height,
+        footprint: sprite.footprint,
+        origin: sprite.origin,
+        autotile: sprite.autotile,
+        rotation: sprite.rotation,
+      })),
+    });
+  }
+  return customAssets;
+}
+
+// Whether the layers are exactly the ones a document without a layer list
+// gets, so the list can be left out
+function hasDefaultLayers(layers: MapLayer[], tiles: ExportedTile[]) {
+  const ids = Array.from(new Set(tiles.map((tile) => tile.layer)));
+  if (ids.length === 0) ids.push(0);
+  ids.sort((a, b) => a - b);
+  return (
+    layers.length === ids.length &&
+    layers.every(
+      (layer, index) =>
+        JSON.stringify(layer) === JSON.stringify(createLayer(ids[index]))
+    )
+  );
+}
+
+/**
+ * Builds the saved document of a map. Only anchor cells are written, in the
+ * order of the cell map.
+ */
+export function serializeMap(
+  model: MapModel,
+  timestamp: string = new Date().toISOString()
+): MapDocument {
+  const tiles: ExportedTile[] = [];
+  model.cells.forEach((cell, key) => {
+    const tile = cellToTile(key, cell);
+    if (tile) tiles.push(tile);
+  });
+
+  const { tileWidth, tileHeight, layers, prefabs, plugins } = model;
+  // Fields in the order they have always been written
+  return {
+    version: MAP_VERSION,
+    gridSize: model.gridSize,
+    originOffsetX: model.originOffsetX,
+    originOffsetY: model.originOffsetY,
+    ...(tileWidth !== undefined ? { tileWidth } : {}),
+    ...(tileHeight !== undefined ? { tileHeight } : {}),
+    ...(hasDefaultLayers(layers, tiles) ? {} : { layers }),
+    customAssets: model.customAssets,
+    ...(prefabs ? { prefabs } : {}),
+    ...(plugins && Object.keys(plugins).length > 0 ? { plugins } : {}),
+    tiles,
+    timestamp,
+  };
+}
+
+/**
+ * Reads saved map JSON of any supported version. Throws a MapValidationError
+ * if the map is rejected.
+ */
+export function deserializeMap(data: unknown): MapModel {
+  const document = parseMapDocument(data);
+
+  const cells = new Map<string, TileCell>();
+  document.tiles.forEach((tile) => {
+    tileToCells(tile).forEach(([key, cell]) => cells.set(key, cell));
+  });
+
+  const { tileWidth, tileHeight, prefabs, plugins } = document;
+  return {
+    gridSize: document.gridSize,
+    originOffsetX: document.originOffsetX,
+    originOffsetY: document.originOffsetY,
+    ...(tileWidth !== undefined ? { tileWidth } : {}),
+    ...(tileHeight !== undefined ? { tileHeight } : {}),
+    layers: document.layers,
+    cells,
+    customAssets: document.customAssets,
+    ...(prefabs ? { prefabs } : {}),
+    ...(plugins ? { plugins } : {}),
+  };
+}
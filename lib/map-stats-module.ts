@@ -0,0 +1,36 @@
+/**
+ * Map statistics: tile counts of the current map (computed in
+ * lib/map-stats.ts) and their CSV download
+ */
+
+import { GROUND_TILE } from "./game-constants";
+import { MapStats, computeMapStats, mapStatsToCsv } from "./map-stats";
+import { ModuleScene } from "./scene-modules";
+
+export class MapStatsModule {
+  private scene: ModuleScene;
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  getStats(): MapStats {
+    return computeMapStats(this.scene.cityMap.cells, {
+      gridSize: this.scene.gridSize,
+      layers: this.scene.layers,
+      assetSets: Array.from(this.scene.assetSets.values()),
+      defaultTile: GROUND_TILE,
+    });
+  }
+
+  // Download the statistics as CSV
+  exportCsv() {
+    const csv = mapStatsToCsv(this.getStats());
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `city-stats-${Date.now()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
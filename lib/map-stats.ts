@@ -0,0 +1,258 @@
+/**
+ * Statistics of what a map is made of, and their CSV export
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * Tiles are counted by their anchor cell; composition and bounds look at
+ * every covered cell, so a 2x2 building weighs as much as four ground tiles.
+ */
+
+import { parseCellKey } from "./city-map";
+import { AssetSet, GridRect, MapLayer, TileCell } from "./game-types";
+
+export type TileCategory = "water" | "road" | "paving" | "grass" | "other";
+
+export const TILE_CATEGORY_LABELS: Record<TileCategory, string> = {
+  water: "Water",
+  road: "Road",
+  paving: "Paving",
+  grass: "Grass",
+  other: "Other",
+};
+
+export interface StatsCount {
+  id: string;
+  name: string;
+  count: number;
+}
+
+export interface SpriteCount {
+  assetSetId: string;
+  assetSetName: string;
+  tileName: string;
+  count: number;
+}
+
+export interface CustomSpriteUsage extends SpriteCount {
+  width: number;
+  height: number;
+  bytes: number; // RGBA texture memory of the frame
+}
+
+export interface MapStats {
+  gridSize: number;
+  tiles: number;
+  cells: number; // Covered cells, over all layers
+  bySheet: StatsCount[]; // Most used first
+  bySprite: SpriteCount[];
+  byLayer: StatsCount[]; // Bottom to top
+  composition: Array<{
+    category: TileCategory;
+    cells: number;
+    share: number; // 0-1 of the covered cells
+  }>;
+  bounds: GridRect | null; // Cells with anything but the default ground tile
+  customSprites: CustomSpriteUsage[]; // Largest first
+}
+
+export interface MapStatsOptions {
+  gridSize: number;
+  layers: MapLayer[];
+  assetSets: AssetSet[];
+  defaultTile: { assetSetId: string; tileName: string }; // Prefilled ground
+  customSpriteLimit?: number;
+}
+
+const TEXTURE_PREFIX = "texture_";
+
+const assetSetIdOf = (textureKey: string) =>
+  textureKey.startsWith(TEXTURE_PREFIX)
+    ? textureKey.slice(TEXTURE_PREFIX.length)
+    : textureKey;
+
+/**
+ * Category of a tile: sheet first (water and road sheets also hold their
+ * grass and paving edges), then the name
+ */
+export function getTileCategory(
+  assetSetId: string,
+  tileName: string
+): TileCategory {
+  if (assetSetId === "waters" || /water/i.test(tileName)) return "water";
+  if (assetSetId === "roads" || /road/i.test(tileName)) return "road";
+  if (/^paving/i.test(tileName)) return "paving";
+  if (/^grass/i.test(tileName)) return "grass";
+  return "other";
+}
+
+const byCount = (a: { count: number }, b: { count: number }) =>
+  b.count - a.count;
+
+/**
+ * Counts the tiles of a map
+ */
+export function computeMapStats(
+  cells: ReadonlyMap<string, TileCell>,
+  options: MapStatsOptions
+): MapStats {
+  const assetSets = new Map(options.assetSets.map((set) => [set.id, set]));
+  const sheetName = (id: string) => assetSets.get(id)?.name ?? id;
+
+  const sheetCounts = new Map<string, number>();
+  const spriteCounts = new Map<string, SpriteCount>();
+  const layerCounts = new Map<number, number>();
+  const categoryCells = new Map<TileCategory, number>();
+  let tiles = 0;
+  let bounds: GridRect | null = null;
+
+  cells.forEach((cell, key) => {
+    const assetSetId = assetSetIdOf(cell.textureKey);
+    const category = getTileCategory(assetSetId, cell.tileName);
+    categoryCells.set(category, (categoryCells.get(category) ?? 0) + 1);
+
+    const isDefault =
+      assetSetId === options.defaultTile.assetSetId &&
+      cell.tileName === options.defaultTile.tileName;
+    if (!isDefault) {
+      const { x, y } = parseCellKey(key);
+      bounds = bounds
+        ? {
+            minX: Math.min(bounds.minX, x),
+            minY: Math.min(bounds.minY, y),
+            maxX: Math.max(bounds.maxX, x),
+            maxY: Math.max(bounds.maxY, y),
+          }
+        : { minX: x, minY: y, maxX: x, maxY: y };
+    }
+
+    if (!cell.isAnchor) return;
+    tiles++;
+    sheetCounts.set(assetSetId, (sheetCounts.get(assetSetId) ?? 0) + 1);
+    layerCounts.set(cell.layer, (layerCounts.get(cell.layer) ?? 0) + 1);
+    const spriteKey = `${assetSetId}/${cell.tileName}`;
+    const sprite = spriteCounts.get(spriteKey);
+    if (sprite) {
+      sprite.count++;
+    } else {
+      spriteCounts.set(spriteKey, {
+        assetSetId,
+        assetSetName: sheetName(assetSetId),
+        tileName: cell.tileName,
+        count: 1,
+      });
+    }
+  });
+
+  // Layers in stacking order, then cells on layers that aren't listed
+  const layerIds = [
+    ...options.layers.map((layer) => layer.id),
+    ...Array.from(layerCounts.keys()).filter(
+      (id) => !options.layers.some((layer) => layer.id === id)
+    ),
+  ];
+
+  const customSprites = options.assetSets
+    .filter((set) => set.isCustom)
+    .flatMap((set) =>
+      set.sprites.map((sprite) => ({
+        assetSetId: set.id,
+        assetSetName: set.name,
+        tileName: sprite.name,
+        count: spriteCounts.get(`${set.id}/${sprite.name}`)?.count ?? 0,
+        width: sprite.width,
+        height: sprite.height,
+        bytes: sprite.width * sprite.height * 4,
+      }))
+    )
+    .sort((a, b) => b.bytes - a.bytes)
+    .slice(0, options.customSpriteLimit ?? 10);
+
+  return {
+    gridSize: options.gridSize,
+    tiles,
+    cells: cells.size,
+    bySheet: Array.from(sheetCounts, ([id, count]) => ({
+      id,
+      name: sheetName(id),
+      count,
+    })).sort(byCount),
+    bySprite: Array.from(spriteCounts.values()).sort(byCount),
+    byLayer: layerIds.map((id) => ({
+      id: String(id),
+      name:
+        options.layers.find((layer) => layer.id === id)?.name ??
+        `Layer ${id}`,
+      count: layerCounts.get(id) ?? 0,
+    })),
+    composition: (Object.keys(TILE_CATEGORY_LABELS) as TileCategory[]).map(
+      (category) => ({
+        category,
+        cells: categoryCells.get(category) ?? 0,
+        share: cells.size ? (categoryCells.get(category) ?? 0) / cells.size : 0,
+      })
+    ),
+    bounds,
+    customSprites,
+  };
+}
+
+function csvField(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per figure: section, sheet, name, count, share (percent) and bytes
+ */
+export function mapStatsToCsv(stats: MapStats): string {
+  const rows: Array<Array<string | number>> = [
+    ["Section", "Sheet", "Name", "Count", "Share", "Bytes"],
+    ["Summary", "", "Grid size", stats.gridSize, "", ""],
+    ["Summary", "", "Tiles", stats.tiles, "", ""],
+    ["Summary", "", "Covered cells", stats.cells, "", ""],
+  ];
+  if (stats.bounds) {
+    const { minX, minY, maxX, maxY } = stats.bounds;
+    rows.push(
+      ["Summary", "", "Bounds", `${minX},${minY} - ${maxX},${maxY}`, "", ""],
+      ["Summary", "", "Bounds width", maxX - minX + 1, "", ""],
+      ["Summary", "", "Bounds height", maxY - minY + 1, "", ""]
+    );
+  }
+  stats.byLayer.forEach((layer) =>
+    rows.push(["Layer", "", layer.name, layer.count, "", ""])
+  );
+  stats.bySheet.forEach((sheet) =>
+    rows.push(["Sheet", sheet.name, "", sheet.count, "", ""])
+  );
+  stats.bySprite.forEach((sprite) =>
+    rows.push([
+      "Sprite",
+      sprite.assetSetName,
+      sprite.tileName,
+      sprite.count,
+      "",
+      "",
+    ])
+  );
+  stats.composition.forEach((entry) =>
+    rows.push([
+      "Composition",
+      "",
+      TILE_CATEGORY_LABELS[entry.category],
+      entry.cells,
+      (entry.share * 100).toFixed(1),
+      "",
+    ])
+  );
+  stats.customSprites.forEach((sprite) =>
+    rows.push([
+      "Custom sprite",
+      sprite.assetSetName,
+      sprite.tileName,
+      sprite.count,
+      "",
+      sprite.bytes,
+    ])
+  );
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,134 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+// The store reads MAP_STORAGE_DIR when it is loaded
+const storageDir = await mkdtemp(path.join(tmpdir(), "map-store-"));
+process.env.MAP_STORAGE_DIR = storageDir;
+const store = await import("./map-store");
+
+const map = (gridSize = 5) => ({
+  version: "4.0",
+  gridSize,
+  originOffsetX: 0,
+  originOffsetY: 0,
+  tiles: [],
+});
+
+const MINUTE = 60 * 1000;
+const start = Date.parse("2024-05-01T12:00:00.000Z");
+
+// Save at a number of minutes after start
+function saveAt(
+  minutes: number,
+  id: string,
+  revision: number,
+  options: { autosave?: boolean } = {}
+) {
+  vi.setSystemTime(start + minutes * MINUTE);
+  return store.updateMap(id, revision, map(), options);
+}
+
+beforeAll(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.setSystemTime(start);
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  await rm(storageDir, { recursive: true, force: true });
+});
+
+describe("updateMap", () => {
+  it("refuses saves based on a revision that isn't the current one", async () => {
+    const { id } = await store.createMap("Conflict", map());
+    await store.updateMap(id, 1, map(6));
+
+    const stale = store.updateMap(id, 1, map(7));
+    await expect(stale).rejects.toBeInstanceOf(store.RevisionConflictError);
+    await expect(stale).rejects.toMatchObject({ revision: 2 });
+    expect((await store.getMap(id)).map.gridSize).toBe(6);
+  });
+
+  it("keeps one autosave per ten minutes in the history", async () => {
+    vi.setSystemTime(start);
+    const { id } = await store.createMap("Autosaves", map());
+
+    await saveAt(1, id, 1, { autosave: true });
+    await saveAt(5, id, 2, { autosave: true });
+    await saveAt(9, id, 3, { autosave: true });
+    expect(
+      (await store.getMapHistory(id)).map(({ revision }) => revision)
+    ).toEqual([4, 1]);
+    await expect(store.getMap(id, 2)).rejects.toBeInstanceOf(
+      store.MapNotFoundError
+    );
+
+    // Ten minutes after the autosave the entry began with
+    await saveAt(11, id, 4, { autosave: true });
+    await saveAt(12, id, 5);
+    await saveAt(13, id, 6, { autosave: true });
+    const history = await store.getMapHistory(id);
+    expect(history.map(({ revision }) => revision)).toEqual([7, 6, 5, 4, 1]);
+    expect(history[0].autosavedSince).toBe(
+      new Date(start + 13 * MINUTE).toISOString()
+    );
+    expect(history[1].autosavedSince).toBeUndefined();
+  });
+});
+
+describe("ids and hashes", () => {
+  it("doesn't read maps outside the maps directory", async () => {
+    // What maps/../ would hold if ".." were a map
+    await mkdir(path.join(storageDir, "revisions"), { recursive: true });
+    await writeFile(
+      path.join(storageDir, "map.json"),
+      JSON.stringify({ info: { id: "..", revision: 1 }, history: [] })
+    );
+    await writeFile(
+      path.join(storageDir, "revisions", "1.json"),
+      JSON.stringify(map())
+    );
+    for (const id of ["..", "../maps", "a/b", "", "x".repeat(65)]) {
+      await expect(store.getMap(id)).rejects.toBeInstanceOf(
+        store.MapNotFoundError
+      );
+    }
+  });
+
+  it("lists only directories named like map ids", async () => {
+    const dir = path.join(storageDir, "maps", "not a map!");
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      path.join(dir, "map.json"),
+      JSON.stringify({ info: { id: "not a map!", modifiedAt: "" } })
+    );
+    const ids = (await store.listMaps()).map((info) => info.id);
+    expect(ids).not.toContain("not a map!");
+  });
+
+  it("only accepts SHA-256 hashes for assets", async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+    const hash = await store.storeAsset(png);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await store.hasAsset(hash)).toBe(true);
+    expect((await store.readAsset(hash))?.type).toBe("image/png");
+
+    for (const bad of ["../maps", hash.toUpperCase(), hash.slice(1), ""]) {
+      expect(await store.hasAsset(bad)).toBe(false);
+      expect(await store.readAsset(bad)).toBeNull();
+    }
+  });
+});
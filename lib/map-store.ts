@@ -0,0 +1,396 @@
+/**
+ * Server-side map storage, used by the route handlers in app/api/maps and
+ * app/api/assets
+ * Node only (reads and writes the local filesystem)
+ *
+ * Maps are kept under MAP_STORAGE_DIR (./data by default):
+ *
+ *   maps/<id>/map.json          name, current revision and history
+ *   maps/<id>/revisions/<n>.json  the map document of each kept revision
+ *   assets/<sha-256>            custom asset images, by hash of their bytes
+ *
+ * Stored maps are validated and written in the current format, with images
+ * moved out into the asset store so documents only refer to them by hash.
+ * Every save names the revision it is based on and is refused if the map has
+ * been saved since (optimistic concurrency). Every save makes a new revision,
+ * but autosaves don't each get a history entry: an autosave replaces the
+ * autosaved revision before it, until that one is AUTOSAVE_INTERVAL old.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import {
+  MapDocument,
+  SavedCustomAsset,
+  ServerMapInfo,
+  ServerMapRevision,
+} from "./game-types";
+import { MapValidationError } from "./map-schema";
+import { deserializeMap, serializeMap } from "./map-serializer";
+
+const STORAGE_DIR =
+  process.env.MAP_STORAGE_DIR ?? path.join(process.cwd(), "data");
+const MAPS_DIR = path.join(STORAGE_DIR, "maps");
+const ASSETS_DIR = path.join(STORAGE_DIR, "assets");
+
+// Older revisions are deleted
+const HISTORY_LIMIT = 50;
+// Autosaves keep at most one revision per this time
+const AUTOSAVE_INTERVAL = 10 * 60 * 1000;
+export const MAX_ASSET_BYTES = 16 * 1024 * 1024;
+
+// Ids and hashes end up in file paths
+const ID_PATTERN = /^[a-z0-9_-]{1,64}$/i;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+interface MapRecord {
+  info: ServerMapInfo;
+  history: ServerMapRevision[]; // Newest first
+}
+
+export class MapNotFoundError extends Error {
+  constructor(id: string, revision?: number) {
+    super(
+      revision === undefined
+        ? `Map ${id} doesn't exist`
+        : `Revision ${revision} of map ${id} doesn't exist`
+    );
+    this.name = "MapNotFoundError";
+  }
+}
+
+export class RevisionConflictError extends Error {
+  readonly revision: number; // The map's current revision
+
+  constructor(revision: number) {
+    super(
+      `The map has been saved elsewhere since, it is at revision ${revision}`
+    );
+    this.name = "RevisionConflictError";
+    this.revision = revision;
+  }
+}
+
+export class AssetError extends Error {
+  readonly status: number; // HTTP status for the route handlers
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AssetError";
+    this.status = status;
+  }
+}
+
+// Writes to the same map wait for each other, so a revision can't be taken
+// twice. Kept on globalThis as each route handler may get its own copy of
+// this module.
+const locks: Map<string, Promise<unknown>> = ((
+  globalThis as { mapStoreLocks?: Map<string, Promise<unknown>> }
+).mapStoreLocks ??= new Map());
+
+function withMapLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const result = (locks.get(id) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(task);
+  const done = result.catch(() => undefined);
+  locks.set(id, done);
+  done.then(() => {
+    if (locks.get(id) === done) locks.delete(id);
+  });
+  return result;
+}
+
+// Write to a temporary file first, so readers never see half a file
+async function writeFileAtomic(file: string, data: string | Uint8Array) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(temporary, data);
+  await rename(temporary, file);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+const mapDir = (id: string) => path.join(MAPS_DIR, id);
+const recordFile = (id: string) => path.join(mapDir(id), "map.json");
+const revisionFile = (id: string, revision: number) =>
+  path.join(mapDir(id), "revisions", `${revision}.json`);
+
+async function readRecord(id: string): Promise<MapRecord> {
+  const record = ID_PATTERN.test(id)
+    ? await readJson<MapRecord>(recordFile(id))
+    : null;
+  if (!record) throw new MapNotFoundError(id);
+  return record;
+}
+
+// Images
+
+/**
+ * MIME type of PNG, JPEG, GIF and WebP images, from their first bytes, or
+ * null for anything else
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+/**
+ * Store an image and return its hash (SHA-256, hex). Storing the same image
+ * again does nothing.
+ */
+export async function storeAsset(bytes: Uint8Array): Promise<string> {
+  if (bytes.length > MAX_ASSET_BYTES) {
+    throw new AssetError(
+      `Images can be at most ${MAX_ASSET_BYTES / (1024 * 1024)} MB`,
+      413
+    );
+  }
+  if (!detectImageType(bytes)) {
+    throw new AssetError(
+      "Only PNG, JPEG, GIF and WebP images are stored",
+      415
+    );
+  }
+  const hash = createHash("sha256").update(bytes).digest("hex");
+  if (!(await hasAsset(hash))) {
+    await writeFileAtomic(path.join(ASSETS_DIR, hash), bytes);
+  }
+  return hash;
+}
+
+export async function hasAsset(hash: string): Promise<boolean> {
+  if (!HASH_PATTERN.test(hash)) return false;
+  try {
+    await stat(path.join(ASSETS_DIR, hash));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function readAsset(
+  hash: string
+): Promise<{ bytes: Uint8Array; type: string } | null> {
+  if (!HASH_PATTERN.test(hash)) return null;
+  try {
+    const bytes = new Uint8Array(await readFile(path.join(ASSETS_DIR, hash)));
+    const type = detectImageType(bytes) ?? "application/octet-stream";
+    return { bytes, type };
+  } catch {
+    return null;
+  }
+}
+
+function decodeDataUrl(dataUrl: string): Uint8Array {
+  const comma = dataUrl.indexOf(",");
+  const data = dataUrl.slice(comma + 1);
+  return dataUrl.slice(0, comma).endsWith(";base64")
+    ? new Uint8Array(Buffer.from(data, "base64"))
+    : new TextEncoder().encode(decodeURIComponent(data));
+}
+
+// Validate a map and move its inline images into the asset store. Throws a
+// MapValidationError, also for images that were neither inlined nor uploaded.
+async function prepareDocument(
+  data: unknown,
+  timestamp: string
+): Promise<MapDocument> {
+  const model = deserializeMap(data);
+  const errors: string[] = [];
+  const customAssets: SavedCustomAsset[] = [];
+  for (const [index, asset] of model.customAssets.entries()) {
+    const field = `customAssets[${index}]`;
+    const { imageDataUrl, ...stored } = asset;
+    if (imageDataUrl) {
+      try {
+        stored.imageHash = await storeAsset(decodeDataUrl(imageDataUrl));
+      } catch (error) {
+        errors.push(`${field}.imageDataUrl: ${(error as Error).message}`);
+      }
+    } else if (!(await hasAsset(asset.imageHash ?? ""))) {
+      errors.push(
+        `${field}.imageHash: ${asset.imageHash} hasn't been uploaded ` +
+          "to /api/assets"
+      );
+    }
+    customAssets.push(stored);
+  }
+  if (errors.length > 0) throw new MapValidationError(errors);
+  return serializeMap({ ...model, customAssets }, timestamp);
+}
+
+// Maps
+
+/**
+ * Every stored map, most recently saved first
+ */
+export async function listMaps(): Promise<ServerMapInfo[]> {
+  let ids: string[];
+  try {
+    ids = await readdir(MAPS_DIR);
+  } catch {
+    return [];
+  }
+  const records = await Promise.all(
+    ids.map((id) =>
+      ID_PATTERN.test(id) ? readJson<MapRecord>(recordFile(id)) : null
+    )
+  );
+  return records
+    .filter((record): record is MapRecord => record !== null)
+    .map((record) => record.info)
+    .sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+/**
+ * A map at its current revision, or at an earlier one still in its history
+ */
+export async function getMap(
+  id: string,
+  revision?: number
+): Promise<{ info: ServerMapInfo; map: MapDocument }> {
+  const { info } = await readRecord(id);
+  const wanted = revision ?? info.revision;
+  const map = Number.isInteger(wanted)
+    ? await readJson<MapDocument>(revisionFile(id, wanted))
+    : null;
+  if (!map) throw new MapNotFoundError(id, wanted);
+  return { info, map };
+}
+
+/**
+ * The kept revisions of a map, newest first
+ */
+export async function getMapHistory(id: string): Promise<ServerMapRevision[]> {
+  return (await readRecord(id)).history;
+}
+
+// Write a new revision and the record pointing at it, then drop revisions
+// beyond the history limit. An autosave takes the place of the revision
+// before it if that one is a recent autosave too.
+async function writeRevision(
+  record: MapRecord,
+  name: string,
+  map: MapDocument,
+  autosave = false
+): Promise<ServerMapInfo> {
+  const { id } = record.info;
+  const [head, ...older] = record.history;
+  const replacesHead =
+    autosave &&
+    head?.autosavedSince !== undefined &&
+    Date.parse(map.timestamp!) - Date.parse(head.autosavedSince) <
+      AUTOSAVE_INTERVAL;
+
+  const entry: ServerMapRevision = {
+    revision: record.info.revision + 1,
+    name,
+    modifiedAt: map.timestamp!,
+    tileCount: map.tiles.length,
+  };
+  if (autosave) {
+    entry.autosavedSince = replacesHead ? head.autosavedSince : map.timestamp;
+  }
+  await writeFileAtomic(revisionFile(id, entry.revision), JSON.stringify(map));
+
+  const history = replacesHead
+    ? [entry, ...older]
+    : [entry, ...record.history];
+  const dropped = history.splice(HISTORY_LIMIT);
+  if (replacesHead) dropped.push(head);
+  const info: ServerMapInfo = {
+    ...record.info,
+    revision: entry.revision,
+    name,
+    modifiedAt: entry.modifiedAt,
+    tileCount: entry.tileCount,
+  };
+  await writeFileAtomic(recordFile(id), JSON.stringify({ info, history }));
+  await Promise.all(
+    dropped.map(({ revision }) =>
+      rm(revisionFile(id, revision), { force: true })
+    )
+  );
+  return info;
+}
+
+/**
+ * Store a new map at revision 1. Throws a MapValidationError if the map is
+ * rejected.
+ */
+export async function createMap(
+  name: string,
+  data: unknown
+): Promise<ServerMapInfo> {
+  const timestamp = new Date().toISOString();
+  const map = await prepareDocument(data, timestamp);
+  const id = `map_${Date.now()}_${randomBytes(4).toString("hex")}`;
+  const record: MapRecord = {
+    info: {
+      id,
+      name: name.trim() || "Untitled",
+      revision: 0,
+      createdAt: timestamp,
+      modifiedAt: timestamp,
+      tileCount: 0,
+    },
+    history: [],
+  };
+  return withMapLock(id, () => writeRevision(record, record.info.name, map));
+}
+
+/**
+ * Save a new revision of a map, based on the given one. An autosave replaces
+ * a recent autosaved revision in the history instead of adding one. Throws a
+ * RevisionConflictError if the map has been saved since, and a
+ * MapValidationError if the map is rejected.
+ */
+export async function updateMap(
+  id: string,
+  revision: number,
+  data: unknown,
+  options: { name?: string; autosave?: boolean } = {}
+): Promise<ServerMapInfo> {
+  return withMapLock(id, async () => {
+    const record = await readRecord(id);
+    if (record.info.revision !== revision) {
+      throw new RevisionConflictError(record.info.revision);
+    }
+    const map = await prepareDocument(data, new Date().toISOString());
+    const name = options.name?.trim() || record.info.name;
+    return writeRevision(record, name, map, options.autosave);
+  });
+}
+
+/**
+ * Delete a map and its history. Its images stay, other maps may use them.
+ */
+export async function deleteMap(id: string) {
+  await withMapLock(id, async () => {
+    await readRecord(id);
+    await rm(mapDir(id), { recursive: true, force: true });
+  });
+}
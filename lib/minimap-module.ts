@@ -0,0 +1,151 @@
+/**
+ * Minimap: colours of the map's cells and the camera's view, sent to the
+ * minimap panel while it is shown (drawing is in components/minimap.tsx)
+ */
+
+import { parseCellKey } from "./city-map";
+import type { TileCell } from "./game-types";
+import { GridPoint, averageColor, multiplyColor } from "./minimap";
+import { ModuleScene, SceneModule } from "./scene-modules";
+
+export class MinimapModule implements SceneModule {
+  private scene: ModuleScene;
+  private enabled = false;
+  private dirty = new Set<string>(); // "x,y" cells to recolour
+  private spriteColors = new Map<string, number>(); // Average colour by "textureKey/frame"
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+    scene.cityMap.subscribe(({ key }) => this.markDirty(key));
+  }
+
+  update() {
+    if (this.dirty.size > 0) this.flush();
+  }
+
+  cameraMoved() {
+    if (!this.enabled) return;
+    this.scene.eventBus.emit("cameraChanged", { view: this.getCameraView() });
+  }
+
+  // Colours and the camera are only tracked while the minimap is shown
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.dirty.clear();
+  }
+
+  // Colour of every cell, row by row, to draw the whole minimap
+  getColors(): Array<number | null> {
+    const colors: Array<number | null> = [];
+    for (let y = 0; y < this.scene.gridSize; y++) {
+      for (let x = 0; x < this.scene.gridSize; x++) {
+        colors.push(this.getCellColor(x, y));
+      }
+    }
+    return colors;
+  }
+
+  // Corners of the camera's view as grid points, clockwise from the top left
+  getCameraView(): GridPoint[] {
+    const cam = this.scene.cameras?.main;
+    if (!cam) return []; // Scene not started yet
+    // Computed rather than read from worldView, which lags a frame behind
+    const midX = cam.scrollX + cam.width / 2;
+    const midY = cam.scrollY + cam.height / 2;
+    const halfWidth = cam.width / cam.zoom / 2;
+    const halfHeight = cam.height / cam.zoom / 2;
+    return [
+      this.worldToGridPoint(midX - halfWidth, midY - halfHeight),
+      this.worldToGridPoint(midX + halfWidth, midY - halfHeight),
+      this.worldToGridPoint(midX + halfWidth, midY + halfHeight),
+      this.worldToGridPoint(midX - halfWidth, midY + halfHeight),
+    ];
+  }
+
+  // After a sheet is reloaded, recolour its tiles
+  forgetSpriteColors(textureKey: string) {
+    Array.from(this.spriteColors.keys()).forEach((key) => {
+      if (key.startsWith(`${textureKey}/`)) this.spriteColors.delete(key);
+    });
+    this.scene.cityMap
+      .findKeys((cell) => cell.textureKey === textureKey)
+      .forEach((key) => this.markDirty(key));
+  }
+
+  // Inverse of gridToIso without rounding, in minimap grid points (cell
+  // centres are at x + 0.5)
+  private worldToGridPoint(worldX: number, worldY: number): GridPoint {
+    const { originOffsetX, originOffsetY, tileWidth, tileHeight } = this.scene;
+    const diff = (worldX - originOffsetX) / (tileWidth / 2);
+    const sum = (worldY - originOffsetY) / (tileHeight / 2);
+    return { x: (sum + diff) / 2 + 0.5, y: (sum - diff) / 2 + 0.5 };
+  }
+
+  private markDirty(key: string) {
+    if (!this.enabled) return;
+    const { x, y } = parseCellKey(key);
+    this.dirty.add(`${x},${y}`);
+  }
+
+  // Send the colours of the cells changed since the last frame
+  private flush() {
+    const cells = Array.from(this.dirty, (cell) => {
+      const [x, y] = cell.split(",").map(Number);
+      return { x, y, color: this.getCellColor(x, y) };
+    });
+    this.dirty.clear();
+    this.scene.eventBus.emit("minimapChanged", { cells });
+  }
+
+  // Colour of the top visible tile at a cell, or null if there is none
+  private getCellColor(x: number, y: number): number | null {
+    const { layers } = this.scene;
+    for (let i = layers.length - 1; i >= 0; i--) {
+      const layer = layers[i];
+      if (!layer.visible) continue;
+      const cell = this.scene.cityMap.getAt(x, y, layer.id);
+      if (cell) return this.getTileColor(cell);
+    }
+    return null;
+  }
+
+  private getTileColor(cell: TileCell): number {
+    const key = `${cell.textureKey}/${cell.tileName}`;
+    let color = this.spriteColors.get(key);
+    if (color === undefined) {
+      color = this.computeSpriteColor(cell.textureKey, cell.tileName);
+      this.spriteColors.set(key, color);
+    }
+    return cell.tint !== undefined ? multiplyColor(color, cell.tint) : color;
+  }
+
+  // Average colour of a sprite's frame, grey if it isn't loaded
+  private computeSpriteColor(textureKey: string, frameName: string): number {
+    const fallback = 0x808080;
+    const { textures } = this.scene;
+    if (!textures.exists(textureKey)) return fallback;
+    const texture = textures.get(textureKey);
+    if (!texture.has(frameName)) return fallback;
+    const frame = texture.get(frameName);
+
+    // A downscaled copy is enough for an average
+    const size = 16;
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return fallback;
+    ctx.drawImage(
+      frame.source.image as CanvasImageSource,
+      frame.cutX,
+      frame.cutY,
+      frame.cutWidth,
+      frame.cutHeight,
+      0,
+      0,
+      size,
+      size
+    );
+    return averageColor(ctx.getImageData(0, 0, size, size).data) ?? fallback;
+  }
+}
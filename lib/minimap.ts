@@ -0,0 +1,84 @@
+/**
+ * Geometry and colours of the minimap
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * The minimap keeps one pixel per cell (top-down) and draws it as an
+ * isometric thumbnail. Positions are grid points where cell (x, y) spans
+ * x..x+1 and y..y+1, so a point inside a cell floors to its coordinates.
+ */
+
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+export interface MinimapProjection {
+  width: number;
+  height: number;
+  // Arguments of CanvasRenderingContext2D.setTransform that draw a grid-sized
+  // image (one pixel per cell) as the isometric thumbnail
+  transform: [number, number, number, number, number, number];
+  toMinimap(point: GridPoint): GridPoint;
+  toGrid(minimapX: number, minimapY: number): GridPoint;
+}
+
+/**
+ * Isometric projection fitting a whole grid in the given width (and half of
+ * it in height)
+ */
+export function createMinimapProjection(
+  gridSize: number,
+  width: number
+): MinimapProjection {
+  const scale = width / (2 * gridSize); // Half the width of a cell
+  return {
+    width,
+    height: width / 2,
+    transform: [scale, scale / 2, -scale, scale / 2, width / 2, 0],
+    toMinimap: ({ x, y }) => ({
+      x: (x - y) * scale + width / 2,
+      y: ((x + y) * scale) / 2,
+    }),
+    toGrid: (minimapX, minimapY) => {
+      const diff = (minimapX - width / 2) / scale; // x - y
+      const sum = (2 * minimapY) / scale; // x + y
+      return { x: (sum + diff) / 2, y: (sum - diff) / 2 };
+    },
+  };
+}
+
+/**
+ * Average colour (0xRRGGBB) of RGBA pixels, weighted by alpha, or null if
+ * they are all transparent
+ */
+export function averageColor(pixels: Uint8ClampedArray): number | null {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let total = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3];
+    r += pixels[i] * alpha;
+    g += pixels[i + 1] * alpha;
+    b += pixels[i + 2] * alpha;
+    total += alpha;
+  }
+  if (total === 0) return null;
+  return (
+    (Math.round(r / total) << 16) |
+    (Math.round(g / total) << 8) |
+    Math.round(b / total)
+  );
+}
+
+/**
+ * A colour tinted the way Phaser tints sprites (channel by channel)
+ */
+export function multiplyColor(color: number, tint: number): number {
+  const channel = (shift: number) =>
+    Math.round((((color >> shift) & 0xff) * ((tint >> shift) & 0xff)) / 255);
+  return (channel(16) << 16) | (channel(8) << 8) | channel(0);
+}
+
+export const toCssColor = (color: number) =>
+  `#${color.toString(16).padStart(6, "0")}`;
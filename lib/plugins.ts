@@ -0,0 +1,156 @@
+/**
+ * Plugin API of the city builder
+ *
+ * A plugin is a plain object registering any of: editing tools, sidebar
+ * panels, keyboard shortcuts, extra asset sheets and data saved in the map
+ * JSON. Plugins are enabled by listing them in ENABLED_PLUGINS
+ * (lib/game-constants.ts) or by passing a list to CityBuilderProvider.
+ *
+ * Plugin objects are shared by every game on the page, so per-map state
+ * belongs in the scene's plugin data (getPluginData / setPluginData), not in
+ * the plugin itself.
+ */
+
+import type { ComponentType } from "react";
+import type { CityMap, TileData } from "./city-map";
+import type { AssetConfig, ToolMode } from "./game-types";
+
+/**
+ * The part of the scene plugins work with. Tile edits go through the map
+ * model, so they are drawn, undoable and autosaved like any other edit.
+ */
+export interface PluginScene {
+  readonly cityMap: CityMap;
+  readonly gridSize: number;
+  readonly currentLayer: number; // Id of the layer being edited
+  isInBounds(gridX: number, gridY: number): boolean;
+  isLayerLocked(id: number): boolean;
+  // The selected sprite or prefab on the current layer, as the brush does
+  placeTileAt(gridX: number, gridY: number): boolean;
+  placeTileData(
+    gridX: number,
+    gridY: number,
+    layer: number,
+    tile: TileData
+  ): boolean;
+  removeTileAt(gridX: number, gridY: number, layer?: number): boolean;
+  getSelectedFootprint(): { width: number; height: number };
+  // Group several changes into one undo step
+  beginEdit(label: string): void;
+  commitEdit(): void;
+  setTool(tool: ToolMode): void;
+  getPluginData(pluginId: string): unknown;
+  setPluginData(pluginId: string, data: unknown): void;
+}
+
+export interface ToolPointer {
+  gridX: number;
+  gridY: number;
+  startX: number; // Cell the press started on (the hovered cell while up)
+  startY: number;
+  down: boolean;
+  erase: boolean; // Right button
+  shiftKey: boolean;
+}
+
+// Cells highlighted under the cursor
+export interface ToolOverlay {
+  cells: Array<{ x: number; y: number }>;
+  color?: number; // 0xRRGGBB, green by default
+}
+
+/**
+ * An editing tool, shown next to the built-in ones. Everything between
+ * pointer down and up is one undo step labelled with the tool's name.
+ */
+export interface PluginTool {
+  id: string; // Unique within the plugin
+  name: string;
+  icon: ComponentType<{ className?: string }>;
+  description?: string; // Button tooltip, defaults to the name
+  onPointerDown?(pointer: ToolPointer, scene: PluginScene): void;
+  onPointerMove?(pointer: ToolPointer, scene: PluginScene): void; // While down
+  onPointerUp?(pointer: ToolPointer, scene: PluginScene): void;
+  // Called on hover and while dragging; without it the hovered cell is shown
+  overlay?(pointer: ToolPointer, scene: PluginScene): ToolOverlay | null;
+}
+
+// A section of the sidebar. Panels reach the game through useCityBuilder().
+export interface PluginPanel {
+  id: string;
+  title: string;
+  component: ComponentType;
+}
+
+export interface PluginShortcut {
+  key: string; // KeyboardEvent.key, case-insensitive ("l", "Enter")
+  ctrl?: boolean; // Ctrl, or Cmd on macOS
+  shift?: boolean;
+  description: string;
+  run(scene: PluginScene): void;
+}
+
+/**
+ * Converts the plugin's data to and from the map JSON, where it is stored
+ * under plugins[<plugin id>]. Without a serializer the data isn't saved.
+ */
+export interface PluginSerializer {
+  serialize(data: unknown): unknown;
+  // Throw an Error to reject the map
+  deserialize(json: unknown): unknown;
+}
+
+export interface CityBuilderPlugin {
+  id: string; // Slug, also the key of the plugin's data in saved maps
+  name: string;
+  tools?: PluginTool[];
+  panels?: PluginPanel[];
+  shortcuts?: PluginShortcut[];
+  // Extra asset sheets, loaded along with the built-in ones
+  assetProvider?: () => AssetConfig[];
+  serializer?: PluginSerializer;
+}
+
+/**
+ * Tool mode of a plugin tool
+ */
+export function pluginToolId(plugin: CityBuilderPlugin, tool: PluginTool) {
+  return `${plugin.id}:${tool.id}` as const;
+}
+
+/**
+ * Asset configs of the plugins, after the given ones. Sheets whose id is
+ * already taken are skipped with a warning.
+ */
+export function collectAssetConfigs(
+  assetConfigs: AssetConfig[],
+  plugins: CityBuilderPlugin[]
+): AssetConfig[] {
+  const configs = [...assetConfigs];
+  plugins.forEach((plugin) => {
+    plugin.assetProvider?.().forEach((config) => {
+      if (configs.some((existing) => existing.id === config.id)) {
+        console.warn(
+          `Plugin ${plugin.id}: asset set id "${config.id}" is already used`
+        );
+        return;
+      }
+      configs.push(config);
+    });
+  });
+  return configs;
+}
+
+/**
+ * Whether a keyboard event triggers a shortcut
+ */
+export function matchesShortcut(
+  shortcut: PluginShortcut,
+  event: KeyboardEvent
+) {
+  return (
+    event.key.toLowerCase() === shortcut.key.toLowerCase() &&
+    (event.ctrlKey || event.metaKey) === !!shortcut.ctrl &&
+    event.shiftKey === !!shortcut.shift
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Streaming PNG encoder, for images larger than a single canvas can hold
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * Rows are added in bands, top to bottom, and deflated with the browser's
+ * CompressionStream as they come in, so only the compressed image and the
+ * current band are kept in memory.
+ */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Length, type, data and CRC of the type and data
+function pngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>) {
+  const pieces: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return pieces;
+    pieces.push(value);
+  }
+}
+
+export class PngEncoder {
+  readonly width: number;
+  readonly height: number;
+  private rowsWritten = 0;
+  private writer: WritableStreamDefaultWriter<BufferSource>;
+  private compressed: Promise<Uint8Array[]>;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    // "deflate" is the zlib format PNG image data uses
+    const stream = new CompressionStream("deflate");
+    this.writer = stream.writable.getWriter();
+    this.compressed = readAll(stream.readable);
+  }
+
+  /**
+   * Adds whole rows of RGBA pixels (not premultiplied), e.g. from
+   * getImageData
+   */
+  async writeRows(pixels: Uint8ClampedArray) {
+    const rowBytes = this.width * 4;
+    const rows = pixels.length / rowBytes;
+    if (!Number.isInteger(rows) || this.rowsWritten + rows > this.height) {
+      throw new Error("Pixel data doesn't match the size of the image");
+    }
+
+    // Each row starts with its filter type: Sub, the difference with the
+    // pixel on the left, which compresses flat areas well
+    const filtered = new Uint8Array(rows * (rowBytes + 1));
+    for (let row = 0; row < rows; row++) {
+      const source = row * rowBytes;
+      const target = row * (rowBytes + 1);
+      filtered[target] = 1;
+      for (let i = 0; i < rowBytes; i++) {
+        const left = i >= 4 ? pixels[source + i - 4] : 0;
+        filtered[target + 1 + i] = (pixels[source + i] - left) & 0xff;
+      }
+    }
+    this.rowsWritten += rows;
+    await this.writer.write(filtered);
+  }
+
+  /**
+   * The PNG file, once every row has been written
+   */
+  async finish(): Promise<Blob> {
+    if (this.rowsWritten !== this.height) {
+      throw new Error(
+        `Only ${this.rowsWritten} of ${this.height} rows were written`
+      );
+    }
+    await this.writer.close();
+    const pieces = await this.compressed;
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, this.width);
+    view.setUint32(4, this.height);
+    header[8] = 8; // Bits per channel
+    header[9] = 6; // RGBA
+    // Compression, filter method and interlacing are all 0
+
+    return new Blob(
+      [
+        new Uint8Array(PNG_SIGNATURE),
+        pngChunk("IHDR", header),
+        ...pieces.map((piece) => pngChunk("IDAT", piece)),
+        pngChunk("IEND", new Uint8Array(0)),
+      ],
+      { type: "image/png" }
+    );
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * PNG export: renders the map, or a region of it, to a PNG file at any
+ * scale (encoding in lib/png-export.ts)
+ */
+
+import type Phaser from "phaser";
+import { parseCellKey } from "./city-map";
+import { toCssColor } from "./minimap";
+import { PngExportOptions, renderLargePng } from "./png-export";
+import { ModuleScene } from "./scene-modules";
+
+export class PngExportModule {
+  private scene: ModuleScene;
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  // Tiles of a PNG export in drawing order, and the part of the world the
+  // image covers: the region's diamond, grown to fit tiles sticking out of it
+  private getLayout(options: PngExportOptions) {
+    const { scene } = this;
+    const { textures, tileWidth, tileHeight } = scene;
+    const region = options.region ?? {
+      minX: 0,
+      minY: 0,
+      maxX: scene.gridSize - 1,
+      maxY: scene.gridSize - 1,
+    };
+    const layers = new Set(options.layers);
+
+    const sprites: Array<{
+      frame: Phaser.Textures.Frame;
+      flipX: boolean;
+      tint?: number;
+      alpha: number;
+      left: number;
+      top: number;
+      depth: number;
+    }> = [];
+    scene.cityMap.forEach((cell, key) => {
+      if (!cell.isAnchor || !layers.has(cell.layer)) return;
+      const { x, y } = parseCellKey(key);
+      if (
+        x < region.minX ||
+        x > region.maxX ||
+        y < region.minY ||
+        y > region.maxY
+      ) {
+        return;
+      }
+      if (
+        !textures.exists(cell.textureKey) ||
+        !textures.get(cell.textureKey).has(cell.tileName)
+      ) {
+        return;
+      }
+      const frame = textures.getFrame(cell.textureKey, cell.tileName);
+      const placement = scene.getTilePlacement(
+        x,
+        y,
+        cell.footprint,
+        cell.layer
+      );
+      sprites.push({
+        frame,
+        flipX: !!cell.flipX,
+        tint: cell.tint,
+        alpha: (cell.alpha ?? 1) * (scene.getLayer(cell.layer)?.opacity ?? 1),
+        left: placement.x - cell.origin.x * frame.cutWidth,
+        top: placement.y - cell.origin.y * frame.cutHeight,
+        depth: placement.depth,
+      });
+    });
+    sprites.sort((a, b) => a.depth - b.depth);
+
+    const bounds = {
+      minX: scene.gridToIso(region.minX, region.maxY).x - tileWidth / 2,
+      minY: scene.gridToIso(region.minX, region.minY).y - tileHeight / 2,
+      maxX: scene.gridToIso(region.maxX, region.minY).x + tileWidth / 2,
+      maxY: scene.gridToIso(region.maxX, region.maxY).y + tileHeight / 2,
+    };
+    sprites.forEach(({ frame, left, top }) => {
+      bounds.minX = Math.min(bounds.minX, left);
+      bounds.minY = Math.min(bounds.minY, top);
+      bounds.maxX = Math.max(bounds.maxX, left + frame.cutWidth);
+      bounds.maxY = Math.max(bounds.maxY, top + frame.cutHeight);
+    });
+
+    return {
+      region,
+      sprites,
+      bounds,
+      width: Math.max(
+        1,
+        Math.ceil((bounds.maxX - bounds.minX) * options.scale)
+      ),
+      height: Math.max(
+        1,
+        Math.ceil((bounds.maxY - bounds.minY) * options.scale)
+      ),
+    };
+  }
+
+  // Size in pixels of the PNG an export would write
+  getSize(options: PngExportOptions) {
+    const { width, height } = this.getLayout(options);
+    return { width, height };
+  }
+
+  // Render the map (or a region of it) to a PNG file and download it. Throws
+  // if the image would be too large.
+  async export(
+    options: PngExportOptions,
+    onProgress?: (done: number, total: number) => void
+  ) {
+    const { region, sprites, bounds, width, height } =
+      this.getLayout(options);
+    const { scale } = options;
+
+    let background: HTMLImageElement | null = null;
+    if (options.background === "desert") {
+      // The same image the game is drawn over
+      background = new Image();
+      const image = background;
+      await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = () =>
+          reject(new Error("Failed to load the background"));
+        image.src = "/dessert.png";
+      });
+    }
+
+    // Canvas has no tint, so tinted frames are drawn once and multiplied
+    const tintedFrames = new Map<string, HTMLCanvasElement>();
+    const getTintedFrame = (frame: Phaser.Textures.Frame, tint: number) => {
+      const key = `${frame.texture.key}/${frame.name}/${tint}`;
+      let canvas = tintedFrames.get(key);
+      if (!canvas) {
+        canvas = document.createElement("canvas");
+        canvas.width = frame.cutWidth;
+        canvas.height = frame.cutHeight;
+        const ctx = canvas.getContext("2d")!;
+        const drawFrame = () =>
+          ctx.drawImage(
+            frame.source.image as CanvasImageSource,
+            frame.cutX,
+            frame.cutY,
+            frame.cutWidth,
+            frame.cutHeight,
+            0,
+            0,
+            frame.cutWidth,
+            frame.cutHeight
+          );
+        drawFrame();
+        ctx.globalCompositeOperation = "multiply";
+        ctx.fillStyle = toCssColor(tint);
+        ctx.fillRect(0, 0, frame.cutWidth, frame.cutHeight);
+        // Multiplying filled the transparent pixels too
+        ctx.globalCompositeOperation = "destination-in";
+        drawFrame();
+        tintedFrames.set(key, canvas);
+      }
+      return canvas;
+    };
+
+    const blob = await renderLargePng(
+      width,
+      height,
+      (ctx, x, y, pieceWidth, pieceHeight) => {
+        if (background) {
+          ctx.drawImage(background, -x, -y, width, height);
+        }
+
+        // World coordinates from here on
+        ctx.setTransform(
+          scale,
+          0,
+          0,
+          scale,
+          -x - bounds.minX * scale,
+          -y - bounds.minY * scale
+        );
+        const view = {
+          minX: bounds.minX + x / scale,
+          minY: bounds.minY + y / scale,
+          maxX: bounds.minX + (x + pieceWidth) / scale,
+          maxY: bounds.minY + (y + pieceHeight) / scale,
+        };
+
+        if (options.grid) {
+          ctx.beginPath();
+          for (let gridY = region.minY; gridY <= region.maxY; gridY++) {
+            for (let gridX = region.minX; gridX <= region.maxX; gridX++) {
+              const pos = this.scene.gridToIso(gridX, gridY);
+              ctx.moveTo(pos.x, pos.y - this.scene.tileHeight / 2);
+              ctx.lineTo(pos.x + this.scene.tileWidth / 2, pos.y);
+              ctx.lineTo(pos.x, pos.y + this.scene.tileHeight / 2);
+              ctx.lineTo(pos.x - this.scene.tileWidth / 2, pos.y);
+              ctx.closePath();
+            }
+          }
+          // Same colour as the grid in the game, one image pixel wide
+          ctx.strokeStyle = "rgba(153, 153, 153, 0.4)";
+          ctx.lineWidth = 1 / scale;
+          ctx.stroke();
+        }
+
+        sprites.forEach(({ frame, flipX, tint, alpha, left, top }) => {
+          const { cutWidth, cutHeight } = frame;
+          if (
+            left > view.maxX ||
+            top > view.maxY ||
+            left + cutWidth < view.minX ||
+            top + cutHeight < view.minY
+          ) {
+            return;
+          }
+          ctx.save();
+          ctx.globalAlpha = alpha;
+          ctx.translate(left, top);
+          // Mirror within the frame, like Phaser's flipX
+          if (flipX) {
+            ctx.translate(cutWidth, 0);
+            ctx.scale(-1, 1);
+          }
+          if (tint !== undefined) {
+            ctx.drawImage(getTintedFrame(frame, tint), 0, 0);
+          } else {
+            ctx.drawImage(
+              frame.source.image as CanvasImageSource,
+              frame.cutX,
+              frame.cutY,
+              cutWidth,
+              cutHeight,
+              0,
+              0,
+              cutWidth,
+              cutHeight
+            );
+          }
+          ctx.restore();
+        });
+      },
+      onProgress
+    );
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `city-${Date.now()}.png`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Rendering the map to PNG files of any size
+ * No Phaser or React dependencies (uses canvas)
+ *
+ * Browsers limit how large a canvas can be, so the image is drawn in pieces
+ * on a small canvas and the pieces are stitched together by PngEncoder,
+ * one band of rows at a time.
+ */
+
+import { GridRect } from "./game-types";
+import { PngEncoder } from "./png-encoder";
+
+export interface PngExportOptions {
+  scale: number; // Image pixels per world pixel
+  region: GridRect | null; // The whole grid when null
+  background: "transparent" | "desert";
+  grid: boolean;
+  layers: number[]; // Ids of the layers to draw
+}
+
+export const PNG_EXPORT_SCALES = [0.25, 0.5, 1, 2];
+
+// Well within every browser's canvas limits
+const PIECE_SIZE = 4096;
+// Rows are stitched in bands of at most this many bytes
+const BAND_BYTES = 32 * 1024 * 1024;
+// Larger exports take too long and too much memory to be useful
+export const MAX_EXPORT_PIXELS = 400 * 1000 * 1000;
+
+// Draws the part of the image at (x, y) of the given size onto a canvas of
+// that size
+export type DrawPiece = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => void;
+
+/**
+ * Renders an image of any size piece by piece, reporting progress as
+ * (pieces done, total pieces)
+ */
+export async function renderLargePng(
+  width: number,
+  height: number,
+  draw: DrawPiece,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  if (width * height > MAX_EXPORT_PIXELS) {
+    throw new Error(
+      `The image would be ${width} x ${height} pixels, too large to export. ` +
+        "Choose a smaller scale or region."
+    );
+  }
+
+  const bandHeight = Math.max(
+    1,
+    Math.min(PIECE_SIZE, Math.floor(BAND_BYTES / (width * 4)))
+  );
+  const columns = Math.ceil(width / PIECE_SIZE);
+  const bands = Math.ceil(height / bandHeight);
+  const total = columns * bands;
+
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas rendering isn't available");
+
+  const encoder = new PngEncoder(width, height);
+  let done = 0;
+  for (let top = 0; top < height; top += bandHeight) {
+    const rows = Math.min(bandHeight, height - top);
+    const band = new Uint8ClampedArray(width * rows * 4);
+
+    for (let left = 0; left < width; left += PIECE_SIZE) {
+      const pieceWidth = Math.min(PIECE_SIZE, width - left);
+      canvas.width = pieceWidth; // Also clears the canvas
+      canvas.height = rows;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      draw(ctx, left, top, pieceWidth, rows);
+
+      const piece = ctx.getImageData(0, 0, pieceWidth, rows).data;
+      for (let row = 0; row < rows; row++) {
+        band.set(
+          piece.subarray(row * pieceWidth * 4, (row + 1) * pieceWidth * 4),
+          (row * width + left) * 4
+        );
+      }
+
+      onProgress?.(++done, total);
+      // Let the page repaint between pieces
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    await encoder.writeRows(band);
+  }
+  return encoder.finish();
+}
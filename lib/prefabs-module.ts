@@ -0,0 +1,147 @@
+/**
+ * Prefabs: named groups of tiles saved from a selection and placed in one
+ * click. The library is stored apart from the maps and shared by projects.
+ */
+
+import type { ExportedTile, Prefab } from "./game-types";
+import { createClipboard } from "./map-clipboard";
+import { runTransaction } from "./project-store";
+import { ModuleScene } from "./scene-modules";
+
+export class PrefabsModule {
+  private scene: ModuleScene;
+  private prefabs: Map<string, Prefab> = new Map();
+  private selectedId: string | null = null; // Placed instead of the selected sprite when set
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  // The prefab the placement tools place, if any
+  get selected(): Prefab | null {
+    return this.selectedId ? this.prefabs.get(this.selectedId) ?? null : null;
+  }
+
+  getAll(): Prefab[] {
+    return Array.from(this.prefabs.values());
+  }
+
+  async load() {
+    try {
+      const request = await runTransaction(
+        ["prefabs"],
+        "readonly",
+        (transaction) => transaction.objectStore("prefabs").getAll()
+      );
+      (request.result as Prefab[]).forEach((prefab) =>
+        this.prefabs.set(prefab.id, prefab)
+      );
+      this.emitChanged();
+    } catch (error) {
+      console.error("Error loading prefabs from IndexedDB:", error);
+    }
+  }
+
+  select(id: string | null) {
+    this.selectedId = id && this.prefabs.has(id) ? id : null;
+    this.scene.clearGhosts();
+  }
+
+  // Save the selected tiles as a named prefab. Returns null if the selection
+  // is empty.
+  async create(name: string): Promise<Prefab | null> {
+    const { scene } = this;
+    const { rect, allLayers } = scene.selection;
+    if (!rect) return null;
+    const tiles = scene.getTilesInRect(rect, allLayers);
+    if (tiles.length === 0) return null;
+
+    const { width, height, tiles: relativeTiles } = createClipboard(
+      tiles,
+      allLayers
+    );
+    const baseLayer = Math.min(...tiles.map((tile) => tile.layer));
+    const prefab: Prefab = {
+      id: `prefab_${Date.now()}`,
+      name,
+      width,
+      height,
+      tiles: relativeTiles.map((tile) => ({
+        ...tile,
+        layer: tile.layer - baseLayer,
+      })),
+    };
+    prefab.thumbnail = scene.renderThumbnail(prefab.tiles);
+
+    this.prefabs.set(prefab.id, prefab);
+    this.emitChanged();
+    await this.store(prefab.id, prefab);
+    return prefab;
+  }
+
+  // Add or replace prefabs, e.g. from an imported map
+  async add(prefabs: Prefab[]) {
+    for (const prefab of prefabs) {
+      const stored = { ...prefab };
+      if (!stored.thumbnail) {
+        stored.thumbnail = this.scene.renderThumbnail(stored.tiles);
+      }
+      this.prefabs.set(stored.id, stored);
+      await this.store(stored.id, stored);
+    }
+    this.emitChanged();
+  }
+
+  async delete(id: string) {
+    if (!this.prefabs.delete(id)) return;
+    if (this.selectedId === id) {
+      this.select(null);
+    }
+    this.emitChanged();
+    await this.store(id, null);
+  }
+
+  // Prefab tiles stacked on top of the current layer
+  getTiles(prefab: Prefab): ExportedTile[] {
+    return prefab.tiles.map((tile) => ({
+      ...tile,
+      layer: tile.layer + this.scene.currentLayer,
+    }));
+  }
+
+  placeAt(gridX: number, gridY: number, prefab: Prefab): boolean {
+    const { scene } = this;
+    if (
+      !scene.isInBounds(gridX, gridY) ||
+      gridX + prefab.width > scene.gridSize ||
+      gridY + prefab.height > scene.gridSize
+    ) {
+      return false;
+    }
+
+    scene.beginEdit("Place prefab");
+    scene.placeTiles(this.getTiles(prefab), gridX, gridY);
+    scene.commitEdit();
+    return true;
+  }
+
+  private emitChanged() {
+    this.scene.eventBus.emit("prefabsChanged", { prefabs: this.getAll() });
+  }
+
+  // Write (or with null, delete) a single prefab record
+  private async store(id: string, prefab: Prefab | null) {
+    try {
+      await runTransaction(["prefabs"], "readwrite", (transaction) => {
+        const store = transaction.objectStore("prefabs");
+        if (prefab) {
+          store.put(prefab);
+        } else {
+          store.delete(id);
+        }
+      });
+    } catch (error) {
+      console.error("Error saving prefab to IndexedDB:", error);
+    }
+  }
+}
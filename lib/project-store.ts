@@ -0,0 +1,79 @@
+/**
+ * The editor's IndexedDB database: projects and their maps, snapshots and
+ * scripts, prefabs and custom asset images
+ * No Phaser or React dependencies (uses IndexedDB)
+ *
+ * Every read and write goes through runTransaction, which opens the
+ * database, upgrading it if needed, and closes it again once done.
+ */
+
+const DB_NAME = "OasisBuilderDB";
+const DB_VERSION = 6;
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains("maps")) {
+        db.createObjectStore("maps");
+      }
+      if (!db.objectStoreNames.contains("prefabs")) {
+        db.createObjectStore("prefabs", { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains("projects")) {
+        db.createObjectStore("projects", { keyPath: "id" });
+      }
+      // Snapshot info and the snapshot maps themselves, under the same id
+      if (!db.objectStoreNames.contains("snapshots")) {
+        db.createObjectStore("snapshots", { keyPath: "id" }).createIndex(
+          "projectId",
+          "projectId"
+        );
+      }
+      if (!db.objectStoreNames.contains("snapshotMaps")) {
+        db.createObjectStore("snapshotMaps");
+      }
+      // Custom asset images as Blobs, keyed by content hash
+      if (!db.objectStoreNames.contains("images")) {
+        db.createObjectStore("images");
+      }
+      // Saved scripts of the script console, per project
+      if (!db.objectStoreNames.contains("scripts")) {
+        db.createObjectStore("scripts", { keyPath: "id" }).createIndex(
+          "projectId",
+          "projectId"
+        );
+      }
+    };
+  });
+}
+
+/**
+ * Run requests against some object stores in one transaction. Resolves with
+ * whatever the callback returned (e.g. a request, whose result is then
+ * available) once the transaction has completed.
+ */
+export async function runTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  callback: (transaction: IDBTransaction) => T
+): Promise<T> {
+  const db = await openDB();
+  try {
+    const transaction = db.transaction(storeNames, mode);
+    const result = callback(transaction);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    return result;
+  } finally {
+    db.close();
+  }
+}
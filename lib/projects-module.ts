@@ -0,0 +1,521 @@
+/**
+ * Projects: the maps stored in the browser (lib/project-store.ts), their
+ * autosave, and the image store their custom assets use
+ *
+ * One project is open at a time. Edits to it are autosaved shortly after
+ * they are made, and autosaves are kept as snapshots every few minutes (see
+ * lib/snapshots-module.ts).
+ */
+
+import type {
+  MapDocument,
+  ProjectInfo,
+  SavedCustomAsset,
+  SavedScript,
+} from "./game-types";
+import { dataUrlToBlob, hashBlob } from "./image-processing";
+import { serializeMap } from "./map-serializer";
+import { runTransaction } from "./project-store";
+import { ModuleScene } from "./scene-modules";
+import { createScriptId } from "./script-module";
+
+// Where save() also saves a project linked to a server map
+export type ServerSave = "autosave" | "revision" | "none";
+
+// Single autosave slot used before projects; moved into a project on load
+const LEGACY_AUTO_SAVE_KEY = "oasis-builder-autosave";
+const CURRENT_PROJECT_KEY = "oasis-builder-current-project"; // localStorage
+const THUMBNAIL_SIZE = 160;
+const AUTO_SAVE_DELAY = 2000; // 2 seconds debounce
+
+function createProjectId() {
+  return `project_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export class ProjectsModule {
+  private scene: ModuleScene;
+  private projects = new Map<string, ProjectInfo>();
+  currentId: string | null = null; // The open project
+  private autoSaveTimeout: number | null = null;
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  get current(): ProjectInfo | null {
+    return this.currentId ? this.projects.get(this.currentId) ?? null : null;
+  }
+
+  get(id: string): ProjectInfo | undefined {
+    return this.projects.get(id);
+  }
+
+  // Most recently modified first
+  getList(): ProjectInfo[] {
+    return Array.from(this.projects.values()).sort((a, b) =>
+      b.modifiedAt.localeCompare(a.modifiedAt)
+    );
+  }
+
+  private emitChanged() {
+    this.scene.eventBus.emit("projectsChanged", {
+      projects: this.getList(),
+      currentProjectId: this.currentId,
+    });
+  }
+
+  private async loadProjects() {
+    try {
+      const request = await runTransaction(
+        ["projects"],
+        "readonly",
+        (transaction) => transaction.objectStore("projects").getAll()
+      );
+      (request.result as ProjectInfo[]).forEach((project) =>
+        this.projects.set(project.id, project)
+      );
+      if (this.projects.size === 0) {
+        await this.migrateLegacyAutoSave();
+      }
+    } catch (error) {
+      console.error("Error loading projects from IndexedDB:", error);
+    }
+    this.emitChanged();
+  }
+
+  // Move the map from the single pre-projects autosave slot into a project
+  private async migrateLegacyAutoSave() {
+    const request = await runTransaction(
+      ["maps"],
+      "readonly",
+      (transaction) =>
+        transaction.objectStore("maps").get(LEGACY_AUTO_SAVE_KEY)
+    );
+    const jsonData = request.result;
+    if (!jsonData) return;
+
+    const timestamp = jsonData.timestamp ?? new Date().toISOString();
+    const project: ProjectInfo = {
+      id: createProjectId(),
+      name: "My City",
+      createdAt: timestamp,
+      modifiedAt: timestamp,
+    };
+    await runTransaction(
+      ["maps", "projects"],
+      "readwrite",
+      (transaction) => {
+        const maps = transaction.objectStore("maps");
+        maps.put(jsonData, project.id);
+        maps.delete(LEGACY_AUTO_SAVE_KEY);
+        transaction.objectStore("projects").put(project);
+      }
+    );
+    this.projects.set(project.id, project);
+    console.log("Moved auto-save into project", project.name);
+  }
+
+  private setCurrent(id: string) {
+    this.currentId = id;
+    localStorage.setItem(CURRENT_PROJECT_KEY, id);
+    this.emitChanged();
+  }
+
+  // Store a new, empty project record and make it the open project
+  async add(
+    name: string,
+    server?: ProjectInfo["server"]
+  ): Promise<ProjectInfo> {
+    const timestamp = new Date().toISOString();
+    const project: ProjectInfo = {
+      id: createProjectId(),
+      name: name.trim() || "Untitled",
+      createdAt: timestamp,
+      modifiedAt: timestamp,
+      ...(server ? { server } : {}),
+    };
+    await runTransaction(["projects"], "readwrite", (transaction) =>
+      transaction.objectStore("projects").put(project)
+    );
+    this.projects.set(project.id, project);
+    this.setCurrent(project.id);
+    return project;
+  }
+
+  // Reopen the project used last (or the most recently modified one). Returns
+  // false if it has no saved map, e.g. on first run, where a new project is
+  // started for the caller to fill.
+  async openLast(): Promise<boolean> {
+    await this.loadProjects();
+    const lastId = localStorage.getItem(CURRENT_PROJECT_KEY);
+    const project =
+      (lastId && this.projects.get(lastId)) || this.getList()[0];
+
+    try {
+      if (!project) {
+        await this.add("My City");
+        return false;
+      }
+      this.setCurrent(project.id);
+    } catch (error) {
+      console.error("Error creating project:", error);
+      return false;
+    }
+
+    const loaded = await this.loadMap();
+    // Opening a project doesn't modify it
+    if (loaded) this.cancelAutoSave();
+    return loaded;
+  }
+
+  async open(id: string): Promise<boolean> {
+    if (!this.projects.has(id) || this.scene.editing) return false;
+    if (id === this.currentId) return true;
+
+    await this.flushAutoSave();
+    this.setCurrent(id);
+    this.scene.resetMap();
+    if (!(await this.loadMap())) {
+      this.scene.prefillMapWithGrass();
+    }
+    this.cancelAutoSave();
+    this.scene.history.clear();
+    return true;
+  }
+
+  // Start a new project with an empty grass map
+  async create(name: string): Promise<ProjectInfo | null> {
+    if (this.scene.editing) return null;
+    try {
+      await this.flushAutoSave();
+      const project = await this.add(name);
+      this.scene.resetMap();
+      this.scene.prefillMapWithGrass();
+      this.scene.history.clear();
+      await this.save();
+      return project;
+    } catch (error) {
+      console.error("Error creating project:", error);
+      return null;
+    }
+  }
+
+  async rename(id: string, name: string) {
+    const project = this.projects.get(id);
+    if (!project || !name.trim()) return;
+
+    const updated = { ...project, name: name.trim() };
+    this.projects.set(id, updated);
+    this.emitChanged();
+    try {
+      await runTransaction(["projects"], "readwrite", (transaction) =>
+        transaction.objectStore("projects").put(updated)
+      );
+    } catch (error) {
+      console.error("Error renaming project:", error);
+    }
+  }
+
+  // Copy a project's map into a new project. The open project stays open.
+  async duplicate(id: string): Promise<ProjectInfo | null> {
+    const project = this.projects.get(id);
+    if (!project) return null;
+    if (id === this.currentId) await this.flushAutoSave();
+
+    try {
+      const [request, scriptsRequest] = await runTransaction(
+        ["maps", "scripts"],
+        "readonly",
+        (transaction) => [
+          transaction.objectStore("maps").get(id),
+          transaction.objectStore("scripts").index("projectId").getAll(id),
+        ]
+      );
+      const timestamp = new Date().toISOString();
+      const copy: ProjectInfo = {
+        ...project,
+        id: createProjectId(),
+        name: `${project.name} copy`,
+        createdAt: timestamp,
+        modifiedAt: timestamp,
+      };
+      // The copy is a separate map, not saved over the original's server map
+      delete copy.server;
+      await runTransaction(
+        ["maps", "projects", "scripts"],
+        "readwrite",
+        (transaction) => {
+          if (request.result) {
+            transaction.objectStore("maps").put(request.result, copy.id);
+          }
+          transaction.objectStore("projects").put(copy);
+          (scriptsRequest.result as SavedScript[]).forEach((script) => {
+            transaction.objectStore("scripts").put({
+              ...script,
+              id: createScriptId(),
+              projectId: copy.id,
+            });
+          });
+        }
+      );
+      this.projects.set(copy.id, copy);
+      this.emitChanged();
+      return copy;
+    } catch (error) {
+      console.error("Error duplicating project:", error);
+      return null;
+    }
+  }
+
+  // Delete a project, its map and its scripts. Deleting the open project opens
+  // the most recent remaining one, or starts a new project if it was the last.
+  async delete(id: string) {
+    if (!this.projects.has(id)) return;
+    const wasOpen = id === this.currentId;
+    if (wasOpen) this.cancelAutoSave();
+
+    try {
+      await runTransaction(
+        ["maps", "projects", "snapshots", "snapshotMaps", "scripts"],
+        "readwrite",
+        (transaction) => {
+          transaction.objectStore("maps").delete(id);
+          transaction.objectStore("projects").delete(id);
+          this.scene.snapshots.deleteForProject(transaction, id);
+          const scripts = transaction.objectStore("scripts");
+          const request = scripts.index("projectId").getAllKeys(id);
+          request.onsuccess = () => {
+            request.result.forEach((key) => scripts.delete(key));
+          };
+        }
+      );
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      return;
+    }
+    this.projects.delete(id);
+    this.emitChanged();
+    this.collectUnusedImages();
+    if (!wasOpen) return;
+
+    // Nothing to flush for the deleted project
+    this.currentId = null;
+    const next = this.getList()[0];
+    if (next) {
+      await this.open(next.id);
+    } else {
+      await this.create("My City");
+    }
+  }
+
+  // Set (or with undefined, remove) the server map a project is linked to
+  async linkServerMap(projectId: string, server: ProjectInfo["server"]) {
+    const project = this.projects.get(projectId);
+    if (!project) return;
+    const updated: ProjectInfo = { ...project, server };
+    if (!server) delete updated.server;
+    this.projects.set(projectId, updated);
+    this.emitChanged();
+    await runTransaction(["projects"], "readwrite", (transaction) =>
+      transaction.objectStore("projects").put(updated)
+    );
+  }
+
+  // Put the image of each custom asset set into the image store, keyed by a
+  // hash of its content so identical images are stored once
+  async storeAssetImages() {
+    for (const assetSet of this.scene.assetSets.values()) {
+      if (!assetSet.isCustom || !assetSet.imageDataUrl || assetSet.imageHash) {
+        continue;
+      }
+      try {
+        const blob = await dataUrlToBlob(assetSet.imageDataUrl);
+        const hash = await hashBlob(blob);
+        // Set before writing, so a concurrent collectUnusedImages sees it
+        assetSet.imageHash = hash;
+        await runTransaction(["images"], "readwrite", (transaction) => {
+          const store = transaction.objectStore("images");
+          const request = store.getKey(hash);
+          request.onsuccess = () => {
+            if (request.result === undefined) store.put(blob, hash);
+          };
+        });
+      } catch (error) {
+        // The map then keeps the image inline
+        assetSet.imageHash = undefined;
+        console.error(`Error storing image of ${assetSet.name}:`, error);
+      }
+    }
+  }
+
+  // Delete stored images that no project map, snapshot or loaded asset set
+  // refers to. Runs in one transaction so autosaves can't interleave.
+  async collectUnusedImages() {
+    let removed = 0;
+    try {
+      await runTransaction(
+        ["maps", "snapshotMaps", "images"],
+        "readwrite",
+        (transaction) => {
+          const used = new Set<string>();
+          this.scene.assetSets.forEach((assetSet) => {
+            if (assetSet.imageHash) used.add(assetSet.imageHash);
+          });
+
+          const maps = transaction.objectStore("maps").getAll();
+          const snapshotMaps = transaction
+            .objectStore("snapshotMaps")
+            .getAll();
+          const images = transaction.objectStore("images");
+          const keys = images.getAllKeys();
+          // Requests complete in order, so both map lists are read by now
+          keys.onsuccess = () => {
+            const documents: MapDocument[] = [
+              ...maps.result,
+              ...snapshotMaps.result,
+            ];
+            documents.forEach((map) => {
+              // Maps saved before custom assets existed have none
+              map.customAssets?.forEach((customAsset: SavedCustomAsset) => {
+                if (customAsset.imageHash) used.add(customAsset.imageHash);
+              });
+            });
+            keys.result.forEach((key) => {
+              if (!used.has(String(key))) {
+                images.delete(key);
+                removed++;
+              }
+            });
+          };
+        }
+      );
+      if (removed > 0) console.log(`Removed ${removed} unused images`);
+    } catch (error) {
+      console.error("Error collecting unused images:", error);
+    }
+  }
+
+  // Load the open project's map
+  async loadMap(): Promise<boolean> {
+    if (!this.currentId) return false;
+    const projectId = this.currentId;
+    try {
+      const request = await runTransaction(
+        ["maps"],
+        "readonly",
+        (transaction) => transaction.objectStore("maps").get(projectId)
+      );
+      const jsonData = request.result;
+
+      if (!jsonData) {
+        console.log("No auto-save data found");
+        return false;
+      }
+
+      console.log("Loading map from auto-save...");
+      await this.scene.loadMap(jsonData);
+      console.log("Auto-save loaded successfully");
+      return true;
+    } catch (error) {
+      console.error("Error loading from IndexedDB:", error);
+      const project = this.projects.get(projectId);
+      this.scene.reportLoadFailure(project?.name ?? "The project", error);
+      return false;
+    }
+  }
+
+  // Write the map to the open project, along with its modified time and
+  // thumbnail. Projects linked to a server map are then saved there too: as
+  // an autosave, as a revision kept in its history, or not at all.
+  async save(server: ServerSave = "autosave") {
+    const project = this.current;
+    if (!project) return;
+
+    try {
+      // Saved maps refer to custom images by hash instead of inlining them
+      await this.storeAssetImages();
+      // The scene holds another project's map if one was opened meanwhile
+      if (this.current?.id !== project.id) return;
+
+      const timestamp = new Date().toISOString();
+      const jsonData = serializeMap(this.scene.getMapModel(false), timestamp);
+      const mapData = jsonData.tiles;
+
+      const visibleTiles = mapData.filter(
+        (tile) => this.scene.getLayer(tile.layer)?.visible ?? true
+      );
+      const thumbnail = this.scene.renderThumbnail(
+        visibleTiles,
+        THUMBNAIL_SIZE
+      );
+      // Fields other than these may change while saving (the server revision)
+      const withSave = (current: ProjectInfo): ProjectInfo => ({
+        ...current,
+        modifiedAt: timestamp,
+        thumbnail,
+      });
+      const { snapshots } = this.scene;
+      const snapshot = snapshots.isDue(project.id);
+      await runTransaction(
+        snapshot
+          ? ["maps", "projects", "snapshots", "snapshotMaps"]
+          : ["maps", "projects"],
+        "readwrite",
+        (transaction) => {
+          transaction.objectStore("maps").put(jsonData, project.id);
+          transaction
+            .objectStore("projects")
+            .put(withSave(this.projects.get(project.id) ?? project));
+          // Kept as a snapshot until it expires
+          if (snapshot) {
+            snapshots.add(transaction, project.id, jsonData, thumbnail);
+          }
+        }
+      );
+      if (snapshot) await snapshots.prune();
+
+      // Unless the project was deleted while saving
+      const current = this.projects.get(project.id);
+      if (current) {
+        this.projects.set(project.id, withSave(current));
+        this.emitChanged();
+        if (current.server && server !== "none") {
+          this.scene.serverSync.queueSave(
+            project.id,
+            jsonData,
+            server === "autosave"
+          );
+        }
+      }
+      console.log("Auto-saved to IndexedDB");
+    } catch (error) {
+      console.error("Error saving to IndexedDB:", error);
+    }
+  }
+
+  cancelAutoSave() {
+    if (this.autoSaveTimeout !== null) {
+      clearTimeout(this.autoSaveTimeout);
+      this.autoSaveTimeout = null;
+    }
+  }
+
+  // Save now if an autosave is pending, e.g. before switching projects
+  async flushAutoSave() {
+    if (this.autoSaveTimeout === null) return;
+    this.cancelAutoSave();
+    await this.save();
+  }
+
+  scheduleAutoSave() {
+    if (this.scene.readOnly) return;
+    if (this.autoSaveTimeout !== null) {
+      clearTimeout(this.autoSaveTimeout);
+    }
+
+    this.autoSaveTimeout = window.setTimeout(() => {
+      this.save();
+      this.autoSaveTimeout = null;
+    }, AUTO_SAVE_DELAY);
+  }
+}
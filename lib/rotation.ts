@@ -0,0 +1,83 @@
+/**
+ * Directional sprite variants for rotating placements
+ * Pure functions with no Phaser or React dependencies
+ *
+ * Variants are linked per sprite as SubTexture attributes in the atlas XML:
+ *   rotationGroup="market_stall"   frames that show the same object
+ *   rotation="E"                   direction this frame faces (N, E, S or W)
+ *
+ * A frame without its own footprint uses the footprint of the frame it was
+ * rotated from, with width and height swapped on quarter turns.
+ */
+
+import { SpriteData } from "./game-types";
+
+export type RotationDirection = "N" | "E" | "S" | "W";
+
+export interface RotationVariant {
+  group: string;
+  direction: RotationDirection;
+}
+
+// Clockwise order
+export const ROTATION_DIRECTIONS: RotationDirection[] = ["N", "E", "S", "W"];
+
+/**
+ * Reads the rotation attributes of a SubTexture element, if any
+ */
+export function parseRotationVariant(
+  element: Element
+): RotationVariant | undefined {
+  const group = element.getAttribute("rotationGroup");
+  const direction = element.getAttribute("rotation")?.trim().toUpperCase();
+  if (!group || !direction) return undefined;
+  if (!(ROTATION_DIRECTIONS as string[]).includes(direction)) return undefined;
+  return { group, direction: direction as RotationDirection };
+}
+
+/**
+ * Turns a sprite clockwise by a number of quarter turns, skipping directions
+ * the sheet has no frame for. Returns null if the sprite has no other
+ * directional variants.
+ */
+export function rotateSprite(
+  sprites: SpriteData[],
+  sprite: SpriteData,
+  steps: number
+): {
+  sprite: SpriteData;
+  footprint: { width: number; height: number };
+  direction: RotationDirection;
+} | null {
+  const variant = sprite.rotation;
+  if (!variant) return null;
+
+  const frames = new Map<RotationDirection, SpriteData>();
+  sprites.forEach((candidate) => {
+    const rotation = candidate.rotation;
+    if (rotation?.group === variant.group && !frames.has(rotation.direction)) {
+      frames.set(rotation.direction, candidate);
+    }
+  });
+  if (frames.size < 2) return null;
+
+  // Available directions, clockwise starting from the sprite's own
+  const start = ROTATION_DIRECTIONS.indexOf(variant.direction);
+  const available = [0, 1, 2, 3]
+    .map((offset) => ROTATION_DIRECTIONS[(start + offset) % 4])
+    .filter((direction) => frames.has(direction));
+  const turns = ((steps % available.length) + available.length) % available.length;
+  const direction = available[turns];
+  const target = frames.get(direction)!;
+
+  const base = sprite.footprint || { width: 1, height: 1 };
+  const quarterTurns =
+    (ROTATION_DIRECTIONS.indexOf(direction) - start + 4) % 4;
+  const footprint =
+    target.footprint ||
+    (quarterTurns % 2 === 1
+      ? { width: base.height, height: base.width }
+      : base);
+
+  return { sprite: target, footprint, direction };
+}
@@ -0,0 +1,125 @@
+/**
+ * Scene modules: editor features built on top of the scene, like find and
+ * replace or the minimap
+ *
+ * The scene creates one instance of each module and calls its hooks; the
+ * controller calls its methods (scene.tileSearch.find(...)). A module keeps
+ * its own state and reaches the scene only through ModuleScene, the way
+ * plugins use PluginScene, so features don't pile up in the scene itself.
+ */
+
+import type Phaser from "phaser";
+import type { CommandHistory } from "./command-history";
+import type { CityBuilderEventBus } from "./game-events";
+import type {
+  AssetSet,
+  CustomAssetData,
+  ExportedTile,
+  GridRect,
+  MapLayer,
+  SpriteData,
+  ToolMode,
+} from "./game-types";
+import type { MapModel } from "./map-serializer";
+import type { PluginScene } from "./plugins";
+import type { ProjectsModule } from "./projects-module";
+import type { SelectionModule } from "./selection-module";
+import type { ServerSyncModule } from "./server-sync-module";
+import type { SnapshotsModule } from "./snapshots-module";
+
+// A map ready to replace the current one, see ModuleScene.prepareMap
+export interface PreparedMap {
+  map: MapModel;
+  pluginData: Map<string, unknown>;
+  assets: Array<{ customAsset: CustomAssetData; image: HTMLImageElement }>;
+}
+
+/**
+ * The part of the scene modules work with, on top of what plugins get
+ */
+export interface ModuleScene extends PluginScene {
+  readonly eventBus: CityBuilderEventBus; // Where modules report to the UI
+  readonly readOnly: boolean; // Viewer
+  readonly history: CommandHistory;
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  readonly originOffsetX: number; // World position of the grid
+  readonly originOffsetY: number;
+  readonly layers: MapLayer[]; // Bottom to top
+  readonly assetSets: Map<string, AssetSet>;
+  readonly editing: boolean; // Between beginEdit and commitEdit
+  readonly currentTool: ToolMode;
+  readonly add: Phaser.GameObjects.GameObjectFactory;
+  readonly input: Phaser.Input.InputPlugin;
+  readonly cameras: Phaser.Cameras.Scene2D.CameraManager;
+  readonly textures: Phaser.Textures.TextureManager;
+  // Modules other modules use
+  readonly selection: SelectionModule;
+  readonly projects: ProjectsModule;
+  readonly snapshots: SnapshotsModule;
+  readonly serverSync: ServerSyncModule;
+  getLayer(id: number): MapLayer | undefined;
+  ensureLayer(id: number): void; // Add a missing layer before placing on it
+  setLayers(layers: MapLayer[]): void; // Not undoable
+  clampRect(rect: GridRect): GridRect; // To the grid
+  getTilesInRect(rect: GridRect, allLayers: boolean): ExportedTile[];
+  // Place tiles relative to a cell as part of the current edit
+  placeTiles(tiles: ExportedTile[], offsetX: number, offsetY: number): void;
+  // Semi-transparent preview of tiles being pasted, moved or placed as a
+  // prefab, drawn above the map and offset from their own cells
+  showGhosts(tiles: ExportedTile[]): void;
+  positionGhosts(offsetX: number, offsetY: number, outline?: boolean): void;
+  clearGhosts(): void;
+  pointerToGrid(pointer: Phaser.Input.Pointer): {
+    gridX: number;
+    gridY: number;
+  };
+  setGridSize(gridSize: number): void; // Not undoable
+  // Custom asset sets and plugin data, changed outside of an edit by other
+  // editors. loadCustomAssetSet throws if the image can't be decoded, and
+  // deserializePluginData throws a MapValidationError if a plugin rejects
+  // its data.
+  snapshotCustomAsset(id: string): CustomAssetData | null; // As saved
+  loadCustomAssetSet(customAsset: CustomAssetData): Promise<void>;
+  unloadCustomAssetSet(id: string): void;
+  serializePluginData(): Record<string, unknown>; // By plugin id, as saved
+  deserializePluginData(saved: Record<string, unknown>): Map<string, unknown>;
+  writePluginData(pluginId: string, data: unknown): void; // undefined removes
+  refreshAfterMapChange(): void; // Cells changed outside of an edit
+  renderThumbnail(tiles: ExportedTile[], size?: number): string; // PNG data URL
+  // Loading maps. loadMap and prepareMap throw a MapValidationError if the
+  // map is rejected; applyMap replaces the map as one undoable edit.
+  loadMap(data: unknown): Promise<void>;
+  prepareMap(data: unknown): Promise<PreparedMap>;
+  applyMap(prepared: PreparedMap): Promise<void>;
+  reportLoadFailure(source: string, error: unknown): void;
+  getMapModel(inlineImages: boolean): MapModel; // As the serializer sees it
+  resetMap(): void; // Empty, for another project
+  prefillMapWithGrass(): void;
+  findSpriteData(
+    textureKey: string,
+    tileName: string
+  ): { assetSet: AssetSet; sprite: SpriteData } | null;
+  getTileSprite(anchorKey: string): Phaser.GameObjects.Image | undefined;
+  gridToIso(gridX: number, gridY: number): { x: number; y: number };
+  // Where a tile anchored at a cell is drawn, and its depth
+  getTilePlacement(
+    gridX: number,
+    gridY: number,
+    footprint: { width: number; height: number },
+    layer: number
+  ): { x: number; y: number; depth: number };
+  // Add the outline of a cell to a graphics path
+  traceCell(
+    graphics: Phaser.GameObjects.Graphics,
+    gridX: number,
+    gridY: number
+  ): void;
+}
+
+export interface SceneModule {
+  create?(): void; // Once the scene is created, to add game objects
+  update?(): void; // Every frame
+  cameraMoved?(): void; // Scrolled or zoomed since the last frame
+  destroy?(): void; // With the scene
+}
@@ -0,0 +1,135 @@
+/**
+ * Script console: runs scripts against the map in a sandbox
+ * (lib/script-runner.ts) and stores them with the open project
+ */
+
+import type { SavedScript } from "./game-types";
+import { ScriptContext, ScriptResult } from "./map-script";
+import { runTransaction } from "./project-store";
+import { ModuleScene } from "./scene-modules";
+import { runScriptInSandbox } from "./script-runner";
+
+export function createScriptId() {
+  return `script_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export class ScriptModule {
+  private scene: ModuleScene;
+  private revision = 0; // Counts cell changes, to spot edits during a run
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+    scene.cityMap.subscribe(() => this.revision++);
+  }
+
+  // What a script can read: cells, layers, selection and sprite sheets
+  private getContext(): ScriptContext {
+    return {
+      cells: Array.from(this.scene.cityMap.cells),
+      gridSize: this.scene.gridSize,
+      currentLayer: this.scene.currentLayer,
+      layers: this.scene.layers.map(({ id, name, visible, locked }) => ({
+        id,
+        name,
+        visible,
+        locked,
+      })),
+      selection: this.scene.selection.rect,
+      sheets: Array.from(this.scene.assetSets.values()).map((assetSet) => ({
+        id: assetSet.id,
+        textureKey: assetSet.textureKey,
+        sprites: assetSet.sprites.map(({ name, footprint, origin }) => ({
+          name,
+          footprint,
+          origin,
+        })),
+      })),
+    };
+  }
+
+  // Run a script from the script console. Its changes are applied as one
+  // undoable edit, and only if it finished without an error.
+  async run(code: string): Promise<ScriptResult> {
+    const revision = this.revision;
+    const result = await runScriptInSandbox(code, this.getContext());
+    if (result.error) return result;
+    if (this.revision !== revision || this.scene.editing) {
+      return {
+        ...result,
+        changes: [],
+        error: "The map changed while the script was running, run it again",
+      };
+    }
+
+    if (result.changes.length > 0) {
+      this.scene.beginEdit("Run script");
+      result.changes.forEach(([key, cell]) => {
+        if (cell) this.scene.ensureLayer(cell.layer);
+        this.scene.cityMap.set(key, cell);
+      });
+      this.scene.commitEdit();
+    }
+    if (result.selection !== undefined) {
+      if (result.selection) this.scene.setTool("select");
+      this.scene.selection.set(
+        result.selection ? this.scene.clampRect(result.selection) : null
+      );
+    }
+    return result;
+  }
+
+  // Saved scripts of the open project, most recently modified first
+  async list(): Promise<SavedScript[]> {
+    if (!this.scene.projects.currentId) return [];
+    const projectId = this.scene.projects.currentId;
+    try {
+      const request = await runTransaction(
+        ["scripts"],
+        "readonly",
+        (transaction) =>
+          transaction.objectStore("scripts").index("projectId").getAll(projectId)
+      );
+      return (request.result as SavedScript[]).sort((a, b) =>
+        b.modifiedAt.localeCompare(a.modifiedAt)
+      );
+    } catch (error) {
+      console.error("Error listing scripts:", error);
+      return [];
+    }
+  }
+
+  // Save a script to the open project, as a new script unless an id is given
+  async save(script: {
+    id?: string;
+    name: string;
+    code: string;
+  }): Promise<SavedScript | null> {
+    if (!this.scene.projects.currentId) return null;
+    const saved: SavedScript = {
+      id: script.id ?? createScriptId(),
+      projectId: this.scene.projects.currentId,
+      name: script.name.trim() || "Untitled",
+      code: script.code,
+      modifiedAt: new Date().toISOString(),
+    };
+    try {
+      await runTransaction(["scripts"], "readwrite", (transaction) =>
+        transaction.objectStore("scripts").put(saved)
+      );
+      return saved;
+    } catch (error) {
+      console.error("Error saving script:", error);
+      return null;
+    }
+  }
+
+  async delete(id: string) {
+    try {
+      await runTransaction(["scripts"], "readwrite", (transaction) =>
+        transaction.objectStore("scripts").delete(id)
+      );
+    } catch (error) {
+      console.error("Error deleting script:", error);
+    }
+  }
+}
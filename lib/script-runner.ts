@@ -0,0 +1,100 @@
+/**
+ * Runs map scripts in a sandbox: a fresh Web Worker (lib/script-worker.ts)
+ * inside a sandboxed iframe. The iframe has an opaque origin, so the script
+ * can't touch the page, cookies or storage, and its content security policy
+ * blocks every request, including import(). Removing the iframe stops a
+ * script stuck in a loop.
+ */
+
+import type { ScriptContext, ScriptResult } from "./map-script";
+
+const SCRIPT_TIMEOUT = 10000; // ms
+const WORKER_URL = "/script-worker.js"; // Bundled from lib/script-worker.ts
+
+// No requests at all; inline script for the sandbox page, eval for the
+// script itself and a blob URL for the worker
+const SANDBOX_POLICY = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval'",
+  "worker-src blob:",
+].join("; ");
+
+// Starts the worker from the source it is sent and passes messages between
+// it and the page
+const SANDBOX_HTML = `<!DOCTYPE html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_POLICY}">
+<script>
+  window.onmessage = (event) => {
+    const { source, code, context } = event.data;
+    const blob = new Blob([source], { type: "text/javascript" });
+    const worker = new Worker(URL.createObjectURL(blob));
+    worker.onmessage = (message) => parent.postMessage(message.data, "*");
+    worker.onerror = (error) => {
+      error.preventDefault();
+      const result = { changes: [], output: [], error: error.message };
+      parent.postMessage(result, "*");
+    };
+    worker.postMessage({ code, context });
+  };
+</script>`;
+
+let workerSource: Promise<string> | null = null;
+
+// The worker is fetched once by the page, as the sandbox can't fetch it
+function loadWorkerSource(): Promise<string> {
+  workerSource ??= fetch(WORKER_URL).then((response) => {
+    if (!response.ok) {
+      throw new Error(`Could not load the script worker (${response.status})`);
+    }
+    return response.text();
+  });
+  return workerSource;
+}
+
+export async function runScriptInSandbox(
+  code: string,
+  context: ScriptContext
+): Promise<ScriptResult> {
+  let source: string;
+  try {
+    source = await loadWorkerSource();
+  } catch (error) {
+    workerSource = null; // Try again next time
+    return {
+      changes: [],
+      output: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return new Promise((resolve) => {
+    const frame = document.createElement("iframe");
+    frame.sandbox.add("allow-scripts");
+    frame.style.display = "none";
+    frame.srcdoc = SANDBOX_HTML;
+
+    const finish = (result: ScriptResult) => {
+      window.clearTimeout(timeout);
+      window.removeEventListener("message", onMessage);
+      frame.remove(); // Terminates the worker
+      resolve(result);
+    };
+    const timeout = window.setTimeout(() => {
+      finish({
+        changes: [],
+        output: [],
+        error: `Stopped after ${SCRIPT_TIMEOUT / 1000} seconds`,
+      });
+    }, SCRIPT_TIMEOUT);
+
+    const onMessage = (event: MessageEvent<ScriptResult>) => {
+      if (event.source !== frame.contentWindow) return;
+      finish(event.data);
+    };
+    window.addEventListener("message", onMessage);
+    frame.onload = () => {
+      frame.contentWindow?.postMessage({ source, code, context }, "*");
+    };
+    document.body.appendChild(frame);
+  });
+}
@@ -0,0 +1,16 @@
+/**
+ * Web Worker that runs one map script (lib/map-script.ts) and posts back its
+ * result. Bundled into public/script-worker.js by
+ * scripts/build-script-worker.mjs and started inside the script sandbox (see
+ * lib/script-runner.ts), where it can't reach the page, the network or
+ * storage.
+ */
+
+import { ScriptContext, runMapScript } from "./map-script";
+
+self.onmessage = (
+  event: MessageEvent<{ code: string; context: ScriptContext }>
+) => {
+  const { code, context } = event.data;
+  self.postMessage(runMapScript(code, context));
+};
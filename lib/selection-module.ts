@@ -0,0 +1,310 @@
+/**
+ * Selection: the select tool's rectangle and what can be done with it -
+ * copy, cut and paste through the system clipboard, delete, and moving its
+ * tiles by dragging
+ */
+
+import type Phaser from "phaser";
+import type { ExportedTile, GridRect } from "./game-types";
+import {
+  MapClipboard,
+  createClipboard,
+  getTileBounds,
+  parseClipboard,
+  serializeClipboard,
+} from "./map-clipboard";
+import { ModuleScene, SceneModule } from "./scene-modules";
+
+// Tiles being dragged by the selection tool, in absolute grid coordinates
+interface SelectionMove {
+  startX: number;
+  startY: number;
+  offsetX: number;
+  offsetY: number;
+  tiles: ExportedTile[];
+  selection: GridRect;
+}
+
+export class SelectionModule implements SceneModule {
+  private scene: ModuleScene;
+  private graphics!: Phaser.GameObjects.Graphics;
+  private selection: GridRect | null = null;
+  private selectAllLayers = false; // Copy every layer, not just the current one
+  private move: SelectionMove | null = null;
+  private clipboard: MapClipboard | null = null; // Fallback when the system clipboard is unavailable
+  private pasteBuffer: MapClipboard | null = null; // Content following the cursor until placed
+  private pasteTiles: ExportedTile[] = []; // The paste as shown, on its layers
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  create() {
+    this.graphics = this.scene.add.graphics();
+    this.graphics.setDepth(9998);
+  }
+
+  get rect(): GridRect | null {
+    return this.selection;
+  }
+
+  get allLayers(): boolean {
+    return this.selectAllLayers;
+  }
+
+  get pasting(): boolean {
+    return !!this.pasteBuffer;
+  }
+
+  get moving(): boolean {
+    return !!this.move;
+  }
+
+  set(rect: GridRect | null) {
+    this.selection = rect;
+    this.draw();
+    this.emitChanged();
+  }
+
+  setAllLayers(enabled: boolean) {
+    this.selectAllLayers = enabled;
+    this.emitChanged();
+  }
+
+  contains(gridX: number, gridY: number) {
+    const rect = this.selection;
+    return (
+      !!rect &&
+      gridX >= rect.minX &&
+      gridX <= rect.maxX &&
+      gridY >= rect.minY &&
+      gridY <= rect.maxY
+    );
+  }
+
+  // Copy the selected tiles. Returns the clipboard JSON, or null if the
+  // selection is empty.
+  copy(): string | null {
+    const tiles = this.getSelectedTiles();
+    if (tiles.length === 0) return null;
+
+    this.clipboard = createClipboard(tiles, this.selectAllLayers);
+    this.emitChanged();
+    return serializeClipboard(this.clipboard);
+  }
+
+  cut(): string | null {
+    const text = this.copy();
+    if (text) {
+      this.delete("Cut");
+    }
+    return text;
+  }
+
+  delete(label = "Delete selection") {
+    const { scene } = this;
+    const tiles = this.getSelectedTiles();
+    if (tiles.length === 0) return;
+
+    scene.beginEdit(label);
+    tiles.forEach((tile) => scene.removeTileAt(tile.x, tile.y, tile.layer));
+    scene.commitEdit();
+  }
+
+  // Start pasting clipboard JSON, falling back to the last in-app copy.
+  // Returns false if there is nothing to paste.
+  pasteText(text?: string | null): boolean {
+    const clipboard = (text && parseClipboard(text)) || this.clipboard;
+    if (!clipboard) return false;
+    this.startPaste(clipboard);
+    return true;
+  }
+
+  cancelPaste() {
+    if (!this.pasteBuffer) return;
+    this.pasteBuffer = null;
+    this.scene.clearGhosts();
+    this.emitChanged();
+  }
+
+  // Single-layer clipboard content follows the current layer. Returns false
+  // if nothing is being pasted.
+  refreshPaste(): boolean {
+    if (!this.pasteBuffer) return false;
+    this.startPaste(this.pasteBuffer);
+    return true;
+  }
+
+  updatePastePreview(gridX: number, gridY: number) {
+    const bounds = getTileBounds(this.pasteTiles);
+    const offset = this.clampOffset(bounds, gridX, gridY);
+    this.scene.positionGhosts(offset.offsetX, offset.offsetY);
+  }
+
+  // Place the pending paste with its top corner at a cell (kept on the grid)
+  pasteAt(gridX: number, gridY: number) {
+    const { scene } = this;
+    const clipboard = this.pasteBuffer;
+    if (!clipboard) return;
+
+    const tiles = this.pasteTiles;
+    const { offsetX, offsetY } = this.clampOffset(
+      getTileBounds(tiles),
+      gridX,
+      gridY
+    );
+    this.pasteBuffer = null;
+    scene.clearGhosts();
+
+    scene.beginEdit("Paste");
+    scene.placeTiles(tiles, offsetX, offsetY);
+    scene.commitEdit();
+
+    if (scene.currentTool === "select") {
+      this.set(
+        scene.clampRect({
+          minX: offsetX,
+          minY: offsetY,
+          maxX: offsetX + clipboard.width - 1,
+          maxY: offsetY + clipboard.height - 1,
+        })
+      );
+    } else {
+      this.emitChanged();
+    }
+  }
+
+  // Lift the selected tiles off the map; they are put back on pointerup.
+  // The whole drag is one undo step.
+  beginMove(gridX: number, gridY: number) {
+    const { scene } = this;
+    if (!this.selection) return;
+    // Tiles on locked layers stay where they are
+    const tiles = this.getSelectedTiles().filter(
+      (tile) => !scene.isLayerLocked(tile.layer)
+    );
+
+    scene.beginEdit("Move selection");
+    tiles.forEach((tile) => scene.removeTileAt(tile.x, tile.y, tile.layer));
+    scene.showGhosts(tiles);
+    scene.positionGhosts(0, 0);
+
+    this.move = {
+      startX: gridX,
+      startY: gridY,
+      offsetX: 0,
+      offsetY: 0,
+      tiles,
+      selection: this.selection,
+    };
+  }
+
+  updateMove(gridX: number, gridY: number) {
+    const { move } = this;
+    if (!move) return;
+
+    // Keep both the selection and the tiles (which may stick out of it) on the grid
+    const bounds = { ...move.selection };
+    if (move.tiles.length > 0) {
+      const tileBounds = getTileBounds(move.tiles);
+      bounds.minX = Math.min(bounds.minX, tileBounds.minX);
+      bounds.minY = Math.min(bounds.minY, tileBounds.minY);
+      bounds.maxX = Math.max(bounds.maxX, tileBounds.maxX);
+      bounds.maxY = Math.max(bounds.maxY, tileBounds.maxY);
+    }
+    const { offsetX, offsetY } = this.clampOffset(
+      bounds,
+      gridX - move.startX,
+      gridY - move.startY
+    );
+    if (offsetX === move.offsetX && offsetY === move.offsetY) return;
+
+    move.offsetX = offsetX;
+    move.offsetY = offsetY;
+    this.scene.positionGhosts(offsetX, offsetY);
+    this.set({
+      minX: move.selection.minX + offsetX,
+      minY: move.selection.minY + offsetY,
+      maxX: move.selection.maxX + offsetX,
+      maxY: move.selection.maxY + offsetY,
+    });
+  }
+
+  finishMove(gridX: number, gridY: number) {
+    const { move, scene } = this;
+    if (!move) return;
+
+    this.updateMove(gridX, gridY);
+    this.move = null;
+    scene.clearGhosts();
+    scene.placeTiles(move.tiles, move.offsetX, move.offsetY);
+    scene.commitEdit();
+  }
+
+  private getSelectedTiles(): ExportedTile[] {
+    if (!this.selection) return [];
+    return this.scene.getTilesInRect(this.selection, this.selectAllLayers);
+  }
+
+  // Show the clipboard as a ghost that follows the cursor until clicked
+  private startPaste(clipboard: MapClipboard) {
+    const { scene } = this;
+    this.pasteBuffer = clipboard;
+    this.pasteTiles = clipboard.tiles.map((tile) => ({
+      ...tile,
+      layer: clipboard.allLayers ? tile.layer : scene.currentLayer,
+    }));
+    scene.showGhosts(this.pasteTiles);
+    const { gridX, gridY } = scene.pointerToGrid(scene.input.activePointer);
+    this.updatePastePreview(gridX, gridY);
+    this.emitChanged();
+  }
+
+  // Shift an offset so that a rectangle moved by it stays on the grid
+  private clampOffset(bounds: GridRect, offsetX: number, offsetY: number) {
+    const { gridSize } = this.scene;
+    return {
+      offsetX: Math.max(
+        -bounds.minX,
+        Math.min(offsetX, gridSize - 1 - bounds.maxX)
+      ),
+      offsetY: Math.max(
+        -bounds.minY,
+        Math.min(offsetY, gridSize - 1 - bounds.maxY)
+      ),
+    };
+  }
+
+  private draw() {
+    const { graphics, scene } = this;
+    graphics.clear();
+    const rect = this.selection;
+    if (!rect) return;
+
+    // Outer corners of the rectangle's diamond
+    const top = scene.gridToIso(rect.minX, rect.minY);
+    const right = scene.gridToIso(rect.maxX, rect.minY);
+    const bottom = scene.gridToIso(rect.maxX, rect.maxY);
+    const left = scene.gridToIso(rect.minX, rect.maxY);
+
+    graphics.lineStyle(2, 0x3b82f6, 0.9);
+    graphics.fillStyle(0x3b82f6, 0.12);
+    graphics.beginPath();
+    graphics.moveTo(top.x, top.y - scene.tileHeight / 2);
+    graphics.lineTo(right.x + scene.tileWidth / 2, right.y);
+    graphics.lineTo(bottom.x, bottom.y + scene.tileHeight / 2);
+    graphics.lineTo(left.x - scene.tileWidth / 2, left.y);
+    graphics.closePath();
+    graphics.fillPath();
+    graphics.strokePath();
+  }
+
+  private emitChanged() {
+    this.scene.eventBus.emit("selectionChanged", {
+      selection: this.selection,
+      allLayers: this.selectAllLayers,
+      hasClipboard: !!this.clipboard,
+      pasting: !!this.pasteBuffer,
+    });
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Server maps (lib/map-api.ts). A project opened from the server or saved to
+ * it stays linked: its autosaves also go to the server, updating the map's
+ * latest revision, and saveRevision adds a revision to the map's history.
+ */
+
+import type {
+  MapDocument,
+  ProjectInfo,
+  ServerMapInfo,
+  ServerSyncStatus,
+} from "./game-types";
+import {
+  MapConflictError,
+  createServerMap,
+  getServerMap,
+  getServerMapHistory,
+  updateServerMap,
+  uploadAsset,
+} from "./map-api";
+import { serializeMap } from "./map-serializer";
+import { runTransaction } from "./project-store";
+import { ModuleScene } from "./scene-modules";
+
+export class ServerSyncModule {
+  private scene: ModuleScene;
+  private saves: Promise<void> = Promise.resolve(); // One at a time
+  private uploadedAssetHashes = new Set<string>(); // Images the server has
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  // The server has this image, e.g. because it was fetched from there
+  markAssetUploaded(imageHash: string) {
+    this.uploadedAssetHashes.add(imageHash);
+  }
+
+  private emitSync(
+    projectId: string,
+    status: ServerSyncStatus,
+    message?: string
+  ) {
+    this.scene.eventBus.emit("serverSyncChanged", {
+      projectId,
+      status,
+      message,
+    });
+  }
+
+  // Saves run one at a time, each based on the revision the last one made
+  queueSave(projectId: string, map: MapDocument, autosave: boolean) {
+    this.saves = this.saves.then(() =>
+      this.saveToServer(projectId, map, autosave)
+    );
+    return this.saves;
+  }
+
+  private async saveToServer(
+    projectId: string,
+    map: MapDocument,
+    autosave: boolean
+  ) {
+    const { projects } = this.scene;
+    const project = projects.get(projectId);
+    if (!project?.server) return;
+    const { id, revision } = project.server;
+    this.emitSync(projectId, "saving");
+    try {
+      await this.uploadAssetImages(map);
+      const info = await updateServerMap(id, revision, map, {
+        name: project.name,
+        autosave,
+      });
+      await projects.linkServerMap(projectId, { id, revision: info.revision });
+      this.emitSync(projectId, "saved");
+    } catch (error) {
+      console.error("Error saving to the server:", error);
+      this.emitSync(
+        projectId,
+        error instanceof MapConflictError ? "conflict" : "error",
+        (error as Error).message
+      );
+    }
+  }
+
+  // Upload the images a map refers to by hash, unless the server has them
+  private async uploadAssetImages(map: MapDocument) {
+    for (const { imageHash } of map.customAssets) {
+      if (!imageHash || this.uploadedAssetHashes.has(imageHash)) continue;
+      const request = await runTransaction(
+        ["images"],
+        "readonly",
+        (transaction) => transaction.objectStore("images").get(imageHash)
+      );
+      // Without it the server rejects the map, naming the image
+      if (!request.result) continue;
+      await uploadAsset(request.result);
+      this.uploadedAssetHashes.add(imageHash);
+    }
+  }
+
+  // Open a server map as a new project linked to it. Throws a ServerMapError
+  // if the map can't be fetched.
+  async open(id: string): Promise<ProjectInfo | null> {
+    const { scene } = this;
+    if (scene.editing) return null;
+    const { info, map } = await getServerMap(id);
+    // A rejected map throws before a project is added for it
+    const prepared = await scene.prepareMap(map);
+
+    await scene.projects.flushAutoSave();
+    const project = await scene.projects.add(info.name, {
+      id: info.id,
+      revision: info.revision,
+    });
+    scene.resetMap();
+    await scene.applyMap(prepared);
+    scene.history.clear();
+    // The server already has this revision
+    scene.projects.cancelAutoSave();
+    await scene.projects.save("none");
+    this.emitSync(project.id, "saved");
+    return project;
+  }
+
+  // Save the open project to the server as a new map and link it to that map
+  // (instead of the one it was linked to, if any)
+  async saveAs(): Promise<ServerMapInfo | null> {
+    const { projects } = this.scene;
+    const project = projects.current;
+    if (!project) return null;
+
+    await projects.storeAssetImages();
+    const map = serializeMap(this.scene.getMapModel(false));
+    await this.uploadAssetImages(map);
+    const info = await createServerMap(project.name, map);
+    await projects.linkServerMap(project.id, {
+      id: info.id,
+      revision: info.revision,
+    });
+    this.emitSync(project.id, "saved");
+    return info;
+  }
+
+  // Save the open project to the server as a revision kept in the map's
+  // history, unlike autosaves
+  async saveRevision() {
+    const { projects } = this.scene;
+    if (!projects.current?.server) return;
+    projects.cancelAutoSave();
+    await projects.save("revision");
+    await this.saves;
+  }
+
+  // Stop saving the open project to the server. The server map stays.
+  async unlink() {
+    const { projects } = this.scene;
+    if (projects.currentId) {
+      await projects.linkServerMap(projects.currentId, undefined);
+    }
+  }
+
+  // After a conflict: replace the open project's map with the server's
+  // current revision, as an undoable edit
+  async reload(): Promise<boolean> {
+    const { scene } = this;
+    const project = scene.projects.current;
+    if (!project?.server || scene.editing) return false;
+    const { info, map } = await getServerMap(project.server.id);
+    const prepared = await scene.prepareMap(map);
+
+    await scene.projects.linkServerMap(project.id, {
+      id: info.id,
+      revision: info.revision,
+    });
+    await scene.applyMap(prepared);
+    // Saved locally only, the server already has it
+    scene.projects.cancelAutoSave();
+    await scene.projects.save("none");
+    this.emitSync(project.id, "saved");
+    return true;
+  }
+
+  // After a conflict: save the open project over the server's current
+  // revision
+  async overwrite() {
+    const { projects } = this.scene;
+    const project = projects.current;
+    if (!project?.server) return;
+    const [latest] = await getServerMapHistory(project.server.id);
+    if (!latest) return;
+
+    await projects.linkServerMap(project.id, {
+      id: project.server.id,
+      revision: latest.revision,
+    });
+    projects.cancelAutoSave();
+    await projects.save("revision");
+    await this.saves;
+  }
+}
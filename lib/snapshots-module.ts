@@ -0,0 +1,135 @@
+/**
+ * Autosave snapshots: earlier versions of each project's map, stored next to
+ * it until the retention policy (lib/snapshots.ts) drops them. Autosaves add
+ * one at most every few minutes, so quick edits don't each keep a full copy.
+ */
+
+import type { MapDocument, SnapshotInfo } from "./game-types";
+import { runTransaction } from "./project-store";
+import { ModuleScene } from "./scene-modules";
+import { getExpiredSnapshots } from "./snapshots";
+
+const SNAPSHOT_INTERVAL = 5 * 60 * 1000; // ms between snapshots of a project
+
+export class SnapshotsModule {
+  private scene: ModuleScene;
+  private lastTaken = new Map<string, number>(); // Project id -> Date.now()
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+  }
+
+  // Whether a map being saved should also be kept as a snapshot
+  isDue(projectId: string): boolean {
+    const last = this.lastTaken.get(projectId);
+    return last === undefined || Date.now() - last >= SNAPSHOT_INTERVAL;
+  }
+
+  // Queue a snapshot of a map being saved, in the transaction saving it,
+  // which must cover both snapshot stores
+  add(
+    transaction: IDBTransaction,
+    projectId: string,
+    map: MapDocument,
+    thumbnail: string
+  ) {
+    const snapshot: SnapshotInfo = {
+      id: `snapshot_${Date.now()}`,
+      projectId,
+      timestamp: map.timestamp ?? new Date().toISOString(),
+      size: JSON.stringify(map).length,
+      tileCount: map.tiles.length,
+      thumbnail,
+    };
+    transaction.objectStore("snapshots").put(snapshot);
+    transaction.objectStore("snapshotMaps").put(map, snapshot.id);
+    this.lastTaken.set(projectId, Date.now());
+  }
+
+  // Snapshots of the open project, newest first
+  async list(): Promise<SnapshotInfo[]> {
+    const projectId = this.scene.projects.currentId;
+    if (!projectId) return [];
+    try {
+      const request = await runTransaction(
+        ["snapshots"],
+        "readonly",
+        (transaction) =>
+          transaction
+            .objectStore("snapshots")
+            .index("projectId")
+            .getAll(projectId)
+      );
+      return (request.result as SnapshotInfo[]).sort((a, b) =>
+        b.timestamp.localeCompare(a.timestamp)
+      );
+    } catch (error) {
+      console.error("Error listing snapshots:", error);
+      return [];
+    }
+  }
+
+  // Load a snapshot of the open project as one undoable edit
+  async restore(id: string): Promise<boolean> {
+    const { scene } = this;
+    if (scene.editing) return false;
+    try {
+      const request = await runTransaction(
+        ["snapshotMaps"],
+        "readonly",
+        (transaction) => transaction.objectStore("snapshotMaps").get(id)
+      );
+      if (!request.result) return false;
+
+      // Prepared first, so a rejected snapshot leaves the map as it is
+      const prepared = await scene.prepareMap(request.result);
+      scene.beginEdit("Restore snapshot");
+      try {
+        await scene.applyMap(prepared);
+      } finally {
+        scene.commitEdit();
+      }
+      return true;
+    } catch (error) {
+      console.error("Error restoring snapshot:", error);
+      scene.reportLoadFailure("The snapshot", error);
+      return false;
+    }
+  }
+
+  // Delete the snapshots the retention policy no longer keeps
+  async prune() {
+    const request = await runTransaction(
+      ["snapshots"],
+      "readonly",
+      (transaction) => transaction.objectStore("snapshots").getAll()
+    );
+    const expired = getExpiredSnapshots(request.result as SnapshotInfo[]);
+    if (expired.length === 0) return;
+
+    await runTransaction(
+      ["snapshots", "snapshotMaps"],
+      "readwrite",
+      (transaction) => {
+        expired.forEach((id) => {
+          transaction.objectStore("snapshots").delete(id);
+          transaction.objectStore("snapshotMaps").delete(id);
+        });
+      }
+    );
+  }
+
+  // Queue deletion of all of a project's snapshots in a transaction that
+  // covers both snapshot stores
+  deleteForProject(transaction: IDBTransaction, projectId: string) {
+    const snapshots = transaction.objectStore("snapshots");
+    const snapshotMaps = transaction.objectStore("snapshotMaps");
+    const request = snapshots.index("projectId").getAllKeys(projectId);
+    request.onsuccess = () => {
+      request.result.forEach((key) => {
+        snapshots.delete(key);
+        snapshotMaps.delete(key);
+      });
+    };
+  }
+}
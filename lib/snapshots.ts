@@ -0,0 +1,94 @@
+/**
+ * Retention rules for autosave snapshots
+ * Pure functions with no Phaser or React dependencies
+ *
+ * Autosaves add a snapshot every few minutes. Each project keeps its newest
+ * snapshots plus the latest snapshot of each recent hour and day. Once all
+ * kept snapshots together exceed the storage budget, the oldest are dropped
+ * too, except each project's newest.
+ */
+
+import { SnapshotInfo } from "./game-types";
+
+export interface SnapshotPolicy {
+  recent: number; // Newest snapshots kept per project
+  hourly: number; // Hours (with a snapshot) that keep their latest one
+  daily: number; // Days (with a snapshot) that keep their latest one
+  maxBytes: number; // Budget for all snapshots of all projects
+}
+
+export const DEFAULT_SNAPSHOT_POLICY: SnapshotPolicy = {
+  recent: 20,
+  hourly: 24,
+  daily: 14,
+  maxBytes: 50 * 1024 * 1024,
+};
+
+// Local calendar periods, so "daily" follows the user's midnight
+const hourKey = (date: Date) => `${date.toDateString()} ${date.getHours()}`;
+const dayKey = (date: Date) => date.toDateString();
+
+/**
+ * Keeps the latest snapshot of each of the most recent periods
+ */
+function keepLatestPerPeriod(
+  newestFirst: SnapshotInfo[],
+  periodKey: (date: Date) => string,
+  count: number,
+  keep: Set<string>
+) {
+  const periods = new Set<string>();
+  for (const snapshot of newestFirst) {
+    const key = periodKey(new Date(snapshot.timestamp));
+    if (periods.has(key)) continue;
+    if (periods.size >= count) break;
+    periods.add(key);
+    keep.add(snapshot.id);
+  }
+}
+
+/**
+ * Ids of the snapshots the policy no longer keeps
+ */
+export function getExpiredSnapshots(
+  snapshots: SnapshotInfo[],
+  policy: SnapshotPolicy = DEFAULT_SNAPSHOT_POLICY
+): string[] {
+  const keep = new Set<string>();
+  const newestIds = new Set<string>();
+
+  const byProject = new Map<string, SnapshotInfo[]>();
+  snapshots.forEach((snapshot) => {
+    const list = byProject.get(snapshot.projectId) ?? [];
+    list.push(snapshot);
+    byProject.set(snapshot.projectId, list);
+  });
+
+  byProject.forEach((list) => {
+    const newestFirst = [...list].sort((a, b) =>
+      b.timestamp.localeCompare(a.timestamp)
+    );
+    newestIds.add(newestFirst[0].id);
+    newestFirst
+      .slice(0, Math.max(1, policy.recent))
+      .forEach((snapshot) => keep.add(snapshot.id));
+    keepLatestPerPeriod(newestFirst, hourKey, policy.hourly, keep);
+    keepLatestPerPeriod(newestFirst, dayKey, policy.daily, keep);
+  });
+
+  // Enforce the budget oldest first
+  const kept = snapshots
+    .filter((snapshot) => keep.has(snapshot.id))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  let total = kept.reduce((sum, snapshot) => sum + snapshot.size, 0);
+  for (const snapshot of kept) {
+    if (total <= policy.maxBytes) break;
+    if (newestIds.has(snapshot.id)) continue;
+    keep.delete(snapshot.id);
+    total -= snapshot.size;
+  }
+
+  return snapshots
+    .filter((snapshot) => !keep.has(snapshot.id))
+    .map((snapshot) => snapshot.id);
+}
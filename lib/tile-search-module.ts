@@ -0,0 +1,129 @@
+/**
+ * Find and replace: highlights the tiles matching a query on the map and
+ * replaces them with another sprite (matching rules in lib/tile-search.ts)
+ */
+
+import type Phaser from "phaser";
+import { ModuleScene, SceneModule } from "./scene-modules";
+import {
+  ReplaceReport,
+  SkippedReplacement,
+  TileSearchQuery,
+  findTiles,
+  planReplacement,
+} from "./tile-search";
+
+export class TileSearchModule implements SceneModule {
+  private scene: ModuleScene;
+  private graphics!: Phaser.GameObjects.Graphics;
+  private query: TileSearchQuery | null = null; // Highlighted until cleared
+  private dirty = false; // Redraw the highlight on the next frame
+
+  constructor(scene: ModuleScene) {
+    this.scene = scene;
+    scene.cityMap.subscribe(() => this.refresh());
+  }
+
+  create() {
+    this.graphics = this.scene.add.graphics();
+    this.graphics.setDepth(9997);
+  }
+
+  update() {
+    // Once per frame, however many cells an edit changed
+    if (this.dirty) this.draw();
+  }
+
+  // Redraw the highlight on the next frame, e.g. after the tiles moved
+  refresh() {
+    if (this.query) this.dirty = true;
+  }
+
+  // Highlight the tiles matching a query until the search is cleared, and
+  // return how many there are. The highlight follows later edits.
+  find(query: TileSearchQuery): number {
+    this.query = query;
+    return this.draw();
+  }
+
+  clear() {
+    this.query = null;
+    this.draw();
+  }
+
+  private draw(): number {
+    this.dirty = false;
+    this.graphics.clear();
+    const matches = this.query
+      ? findTiles(this.scene.cityMap, this.query)
+      : [];
+
+    this.graphics.lineStyle(2, 0xf59e0b, 0.9);
+    this.graphics.fillStyle(0xf59e0b, 0.25);
+    matches.forEach(({ x, y, cell }) => {
+      for (let fx = 0; fx < cell.footprint.width; fx++) {
+        for (let fy = 0; fy < cell.footprint.height; fy++) {
+          this.scene.traceCell(this.graphics, x + fx, y + fy);
+          this.graphics.strokePath();
+          this.graphics.fillPath();
+        }
+      }
+    });
+    this.scene.eventBus.emit("tileSearchChanged", {
+      matches: matches.length,
+    });
+    return matches.length;
+  }
+
+  // Replace the tiles matching a query with a sprite, in one undo step.
+  // Tiles on locked layers, and those the sprite can't replace without
+  // covering other tiles, are skipped and reported.
+  replace(
+    query: TileSearchQuery,
+    assetSetId: string,
+    spriteIndex: number
+  ): ReplaceReport {
+    const { cityMap } = this.scene;
+    const assetSet = this.scene.assetSets.get(assetSetId);
+    const sprite = assetSet?.sprites[spriteIndex];
+    if (!assetSet || !sprite) return { replaced: 0, skipped: [] };
+    const footprint = sprite.footprint || { width: 1, height: 1 };
+
+    const locked: SkippedReplacement[] = [];
+    const matches = findTiles(cityMap, query).filter((match) => {
+      if (!this.scene.isLayerLocked(match.layer)) return true;
+      locked.push({
+        x: match.x,
+        y: match.y,
+        layer: match.layer,
+        tileName: match.cell.tileName,
+        reason: "Its layer is locked",
+      });
+      return false;
+    });
+    const { targets, skipped } = planReplacement(
+      cityMap,
+      matches,
+      footprint,
+      this.scene.gridSize
+    );
+
+    if (targets.length > 0) {
+      this.scene.beginEdit("Replace tiles");
+      // Keep each tile's own flip, tint and alpha
+      targets.forEach(({ x, y, layer, cell }) => {
+        cityMap.place(x, y, layer, {
+          tileName: sprite.name,
+          textureKey: assetSet.textureKey,
+          footprint,
+          origin: sprite.origin || { x: 0.5, y: 0.5 },
+          flipX: cell.flipX,
+          tint: cell.tint,
+          alpha: cell.alpha,
+        });
+      });
+      this.scene.commitEdit();
+    }
+    return { replaced: targets.length, skipped: [...locked, ...skipped] };
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Find and replace tiles across the map
+ * Pure TypeScript with no Phaser or React dependencies
+ *
+ * A search matches placed tiles (by their anchor cell) on sheet, name pattern,
+ * layer and region. Replacing them swaps each match for another sprite in
+ * place; a replacement that is larger than the tile it replaces must not
+ * overlap other tiles or leave the grid, otherwise that match is skipped and
+ * reported.
+ */
+
+import { CityMap, parseCellKey } from "./city-map";
+import { GridRect, TileCell } from "./game-types";
+import { cellKey } from "./map-serializer";
+
+export interface TileSearchQuery {
+  assetSetId: string | null; // Any sheet when null
+  pattern: string; // Tile name; "*" matches any text, "?" one character
+  layer: number | null; // Any layer when null
+  region: GridRect | null; // Tiles anchored inside it, the whole map when null
+}
+
+export interface TileMatch {
+  key: string; // Anchor key
+  x: number;
+  y: number;
+  layer: number;
+  cell: TileCell;
+}
+
+export interface SkippedReplacement {
+  x: number;
+  y: number;
+  layer: number;
+  tileName: string;
+  reason: string;
+}
+
+export interface ReplaceReport {
+  replaced: number;
+  skipped: SkippedReplacement[];
+}
+
+/**
+ * Case-insensitive test for a tile name pattern. An empty pattern matches
+ * every name.
+ */
+export function createNameMatcher(pattern: string): (name: string) => boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return () => true;
+  const source = trimmed
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+          ? "."
+          : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  const regex = new RegExp(`^${source}$`, "i");
+  return (name) => regex.test(name);
+}
+
+/**
+ * Tiles matching a query, sorted by layer, then row, then column
+ */
+export function findTiles(cityMap: CityMap, query: TileSearchQuery) {
+  const matchesName = createNameMatcher(query.pattern);
+  const textureKey =
+    query.assetSetId !== null ? `texture_${query.assetSetId}` : null;
+  const { region } = query;
+
+  const matches: TileMatch[] = [];
+  cityMap.forEach((cell, key) => {
+    if (!cell.isAnchor) return;
+    if (query.layer !== null && cell.layer !== query.layer) return;
+    if (textureKey !== null && cell.textureKey !== textureKey) return;
+    if (!matchesName(cell.tileName)) return;
+    const { x, y, layer } = parseCellKey(key);
+    if (
+      region &&
+      (x < region.minX || x > region.maxX || y < region.minY || y > region.maxY)
+    ) {
+      return;
+    }
+    matches.push({ key, x, y, layer, cell });
+  });
+  return matches.sort((a, b) => a.layer - b.layer || a.y - b.y || a.x - b.x);
+}
+
+/**
+ * Splits matches into those a tile of the given footprint can replace and
+ * those it can't: its footprint must stay on the grid and may only cover
+ * the matched tile itself, empty cells, and no cell an earlier replacement
+ * takes.
+ */
+export function planReplacement(
+  cityMap: CityMap,
+  matches: TileMatch[],
+  footprint: { width: number; height: number },
+  gridSize: number
+): { targets: TileMatch[]; skipped: SkippedReplacement[] } {
+  const targets: TileMatch[] = [];
+  const skipped: SkippedReplacement[] = [];
+  const claimed = new Set<string>(); // Cells of the planned replacements
+
+  matches.forEach((match) => {
+    const skip = (reason: string) =>
+      skipped.push({
+        x: match.x,
+        y: match.y,
+        layer: match.layer,
+        tileName: match.cell.tileName,
+        reason,
+      });
+
+    if (
+      match.x + footprint.width > gridSize ||
+      match.y + footprint.height > gridSize
+    ) {
+      skip("The replacement would extend past the edge of the grid");
+      return;
+    }
+
+    const cells: string[] = [];
+    for (let fx = 0; fx < footprint.width; fx++) {
+      for (let fy = 0; fy < footprint.height; fy++) {
+        const key = cellKey(match.x + fx, match.y + fy, match.layer);
+        if (claimed.has(key)) {
+          skip("The replacement would overlap another replacement");
+          return;
+        }
+        const anchorKey = cityMap.getAnchorKey(key);
+        if (anchorKey && anchorKey !== match.key) {
+          const other = cityMap.get(anchorKey)!;
+          const { x, y } = parseCellKey(anchorKey);
+          skip(`The replacement would cover ${other.tileName} at ${x}, ${y}`);
+          return;
+        }
+        cells.push(key);
+      }
+    }
+
+    cells.forEach((key) => claimed.add(key));
+    targets.push(match);
+  });
+
+  return { targets, skipped };
+}
@@ -0,0 +1,17 @@
+/**
+ * Bundles the map script worker (lib/script-worker.ts) into one file,
+ * public/script-worker.js, which lib/script-runner.ts loads into its sandbox.
+ * Runs before `npm run dev` and `npm run build`.
+ */
+
+import { build } from "esbuild";
+
+await build({
+  entryPoints: ["lib/script-worker.ts"],
+  outfile: "public/script-worker.js",
+  bundle: true,
+  format: "iife",
+  minify: true,
+  target: "es2020",
+  logLevel: "warning",
+});
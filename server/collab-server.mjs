@@ -0,0 +1,539 @@
+/**
+ * Sync server for collaborative editing (lib/collab.ts)
+ * Plain Node with no dependencies: `npm run collab`, or
+ * `node server/collab-server.mjs`. COLLAB_PORT sets the port (3001).
+ *
+ * Editors connect over WebSocket to ws://<host>:<port>/<room>. A room holds
+ * the map as a last-writer-wins map of cells keyed "x,y,layer": every value
+ * (a cell, or null once removed) carries a Lamport stamp, and the newer stamp
+ * wins, so concurrent edits merge the same way on every editor whatever
+ * order they arrive in. The rest of the map is shared the same way, as values
+ * keyed "layers" (the layer list), "asset:<id>" (a custom asset set with its
+ * image) and "plugin:<id>" (a plugin's saved data). Rooms live in memory
+ * while anyone is in them; a connection joins its room with hello, and is
+ * closed if it doesn't say hello within HELLO_TIMEOUT.
+ *
+ * The first editor of a new room seeds it with its map: its values and cells,
+ * then its grid size, which marks the end of the seed. Editors saying hello
+ * while a seed is on its way wait for it; if the seeding editor leaves before
+ * it finished, the next waiting editor seeds the room from scratch.
+ *
+ * Removed cells and values are kept as null until every editor in the room
+ * has acknowledged a clock at least as new as the removal: from then on,
+ * every write that could still arrive is newer, so the removal can be
+ * forgotten.
+ *
+ * Messages are JSON text frames:
+ *
+ *   client -> server
+ *     { type: "hello", name }           first message
+ *     { type: "cells", ops: [{ key, value, stamp }] }
+ *     { type: "values", ops: [{ key, value, stamp }] }
+ *     { type: "grid", gridSize, stamp }
+ *     { type: "presence", presence }    { x, y, layer, width, height } or null
+ *     { type: "ack", clock }            every write up to clock was seen, and
+ *                                       later writes will be stamped newer
+ *
+ *   server -> client
+ *     { type: "welcome", id, color, seed, clock, peers, ops, values, grid }
+ *     { type: "cells", ops }, { type: "values", ops }
+ *     { type: "grid", gridSize, stamp }
+ *     { type: "join", peer }, { type: "leave", id }
+ *     { type: "presence", id, presence }
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.COLLAB_PORT ?? 3001);
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+const PING_INTERVAL = 30 * 1000;
+const HELLO_TIMEOUT = 10 * 1000;
+
+// Distinct on the map's sand and grass, handed out in join order
+const COLORS = [
+  "#e6194b",
+  "#4363d8",
+  "#f58231",
+  "#911eb4",
+  "#42d4f4",
+  "#f032e6",
+  "#9a6324",
+  "#000075",
+];
+
+const KEY_PATTERN = /^\d{1,5},\d{1,5},\d{1,4}$/;
+const VALUE_KEY_PATTERN = /^(layers|(asset|plugin):\S{1,128})$/;
+const ROOM_PATTERN = /^[\w-]{1,64}$/;
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+
+/**
+ * @typedef {{ clock: number, client: string }} Stamp
+ * @typedef {{ value: unknown, stamp: Stamp }} Entry
+ * @typedef {{
+ *   id: string,
+ *   name: string,
+ *   color: string,
+ *   presence: object | null,
+ *   socket: import("node:net").Socket,
+ *   alive: boolean,
+ *   room: Room | null,
+ *   ack: number,
+ * }} Client
+ * @typedef {{
+ *   clients: Map<string, Client>,
+ *   cells: Map<string, Entry>,
+ *   values: Map<string, Entry>,
+ *   grid: { gridSize: number, stamp: Stamp } | null,
+ *   clock: number,
+ *   pruned: number,
+ *   seeded: boolean,
+ *   seeder: Client | null,
+ *   waiting: Client[],
+ *   colorIndex: number,
+ * }} Room
+ */
+
+// Whether stamp a wins over stamp b. Ties on the clock go to the higher client
+// id, which every editor agrees on.
+function isNewer(a, b) {
+  if (!b) return true;
+  return a.clock !== b.clock ? a.clock > b.clock : a.client > b.client;
+}
+
+function isStamp(stamp) {
+  return (
+    typeof stamp === "object" &&
+    stamp !== null &&
+    Number.isSafeInteger(stamp.clock) &&
+    stamp.clock >= 0 &&
+    typeof stamp.client === "string" &&
+    stamp.client.length <= 64
+  );
+}
+
+function isCellOp(op) {
+  return (
+    typeof op === "object" &&
+    op !== null &&
+    typeof op.key === "string" &&
+    KEY_PATTERN.test(op.key) &&
+    (op.value === null ||
+      (typeof op.value === "object" && !Array.isArray(op.value))) &&
+    isStamp(op.stamp)
+  );
+}
+
+function isValueOp(op) {
+  return (
+    typeof op === "object" &&
+    op !== null &&
+    typeof op.key === "string" &&
+    VALUE_KEY_PATTERN.test(op.key) &&
+    op.value !== undefined &&
+    isStamp(op.stamp)
+  );
+}
+
+function isPresence(presence) {
+  if (presence === null) return true;
+  return (
+    typeof presence === "object" &&
+    ["x", "y", "layer", "width", "height"].every((field) =>
+      Number.isInteger(presence[field])
+    )
+  );
+}
+
+// WebSocket framing (RFC 6455), just what browsers send: masked text frames,
+// possibly fragmented, and control frames
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Splits buffered bytes into frames. Returns the frames and the bytes left
+// over, or throws on frames the server doesn't accept.
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    if ((second & 0x80) === 0) throw new Error("Unmasked client frame");
+
+    let length = second & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      const longLength = buffer.readBigUInt64BE(offset + 2);
+      if (longLength > BigInt(MAX_MESSAGE_BYTES)) {
+        throw new Error("Message too large");
+      }
+      length = Number(longLength);
+      headerLength = 10;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error("Message too large");
+    if (buffer.length - offset < headerLength + 4 + length) break;
+
+    const maskStart = offset + headerLength;
+    const mask = buffer.subarray(maskStart, maskStart + 4);
+    const start = maskStart + 4;
+    const payload = Buffer.from(buffer.subarray(start, start + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = start + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function send(client, message) {
+  if (client.socket.destroyed) return;
+  client.socket.write(
+    encodeFrame(0x1, Buffer.from(JSON.stringify(message), "utf8"))
+  );
+}
+
+function broadcast(room, message, except) {
+  room.clients.forEach((client) => {
+    if (client !== except) send(client, message);
+  });
+}
+
+function peerInfo(client) {
+  return {
+    id: client.id,
+    name: client.name,
+    color: client.color,
+    presence: client.presence,
+  };
+}
+
+function getRoom(name) {
+  let room = rooms.get(name);
+  if (!room) {
+    room = {
+      clients: new Map(),
+      cells: new Map(),
+      values: new Map(),
+      grid: null,
+      clock: 0,
+      pruned: 0,
+      seeded: false,
+      seeder: null,
+      waiting: [],
+      colorIndex: 0,
+    };
+    rooms.set(name, room);
+  }
+  return room;
+}
+
+// Join the room, creating it for the first editor
+function handleHello(roomName, client, message) {
+  const room = getRoom(roomName);
+  client.room = room;
+  client.name = String(message.name ?? "").trim().slice(0, 40) || "Guest";
+  client.color = COLORS[room.colorIndex++ % COLORS.length];
+
+  if (room.seeded) {
+    welcome(roomName, client, false);
+  } else if (room.seeder) {
+    room.waiting.push(client);
+  } else {
+    // The first editor of a new room brings the map everyone starts from
+    room.seeder = client;
+    welcome(roomName, client, true);
+  }
+}
+
+// Let an editor into the room with the room's map, or with seed set, ask it
+// for its own
+function welcome(roomName, client, seed) {
+  const { room } = client;
+  client.ack = room.clock; // Its clock starts from the room's
+  send(client, {
+    type: "welcome",
+    id: client.id,
+    color: client.color,
+    seed,
+    clock: room.clock,
+    peers: Array.from(room.clients.values(), peerInfo),
+    ops: Array.from(room.cells, ([key, entry]) => ({ key, ...entry })),
+    values: Array.from(room.values, ([key, entry]) => ({ key, ...entry })),
+    grid: room.grid,
+  });
+  room.clients.set(client.id, client);
+  broadcast(room, { type: "join", peer: peerInfo(client) }, client);
+  console.log(`${client.name} joined ${roomName} (${room.clients.size} in)`);
+}
+
+// Forget removals every editor in the room has seen
+function pruneRemovals(room) {
+  if (room.clients.size === 0) return;
+  const seen = Math.min(...Array.from(room.clients.values(), (c) => c.ack));
+  if (seen <= room.pruned) return; // Later removals are newer than that
+  room.pruned = seen;
+  [room.cells, room.values].forEach((entries) => {
+    entries.forEach((entry, key) => {
+      if (entry.value === null && entry.stamp.clock <= seen) {
+        entries.delete(key);
+      }
+    });
+  });
+}
+
+// The seed is complete: let in the editors who waited for it
+function finishSeed(roomName, room) {
+  room.seeded = true;
+  room.seeder = null;
+  const waiting = room.waiting;
+  room.waiting = [];
+  waiting.forEach((client) => welcome(roomName, client, false));
+}
+
+// Keep the ops of a cells or values message that win over the room's state
+// and pass them on. Ops that lost are dropped: their senders have been (or
+// will be) sent the winners.
+function handleOps(room, client, message, entries, isOp) {
+  if (!Array.isArray(message.ops)) return;
+  const accepted = [];
+  message.ops.forEach((op) => {
+    if (!isOp(op)) return;
+    room.clock = Math.max(room.clock, op.stamp.clock);
+    if (!isNewer(op.stamp, entries.get(op.key)?.stamp)) return;
+    entries.set(op.key, { value: op.value, stamp: op.stamp });
+    accepted.push({ key: op.key, value: op.value, stamp: op.stamp });
+  });
+  if (accepted.length > 0) {
+    broadcast(room, { type: message.type, ops: accepted }, client);
+  }
+}
+
+function handleGrid(roomName, room, client, message) {
+  const { gridSize, stamp } = message;
+  if (!Number.isInteger(gridSize) || gridSize < 1 || !isStamp(stamp)) return;
+  room.clock = Math.max(room.clock, stamp.clock);
+  if (isNewer(stamp, room.grid?.stamp)) {
+    room.grid = { gridSize, stamp };
+    broadcast(room, { type: "grid", gridSize, stamp }, client);
+  }
+  // The seeding editor sends its grid size after all of its cells
+  if (room.seeder === client) finishSeed(roomName, room);
+}
+
+function handleMessage(roomName, client, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  const { room } = client;
+  if (!room) {
+    if (message?.type === "hello") handleHello(roomName, client, message);
+    return;
+  }
+  if (!room.clients.has(client.id)) return; // Waiting for the seed
+  switch (message?.type) {
+    case "cells":
+      handleOps(room, client, message, room.cells, isCellOp);
+      break;
+    case "values":
+      handleOps(room, client, message, room.values, isValueOp);
+      break;
+    case "grid":
+      handleGrid(roomName, room, client, message);
+      break;
+    case "ack":
+      if (!Number.isSafeInteger(message.clock)) return;
+      client.ack = Math.max(client.ack, Math.min(message.clock, room.clock));
+      pruneRemovals(room);
+      break;
+    case "presence":
+      if (!isPresence(message.presence)) return;
+      client.presence = message.presence;
+      broadcast(
+        room,
+        { type: "presence", id: client.id, presence: client.presence },
+        client
+      );
+      break;
+  }
+}
+
+// Connections that never said hello aren't in a room
+function leave(roomName, client) {
+  const { room } = client;
+  client.room = null;
+  if (!room) return;
+  room.waiting = room.waiting.filter((waiting) => waiting !== client);
+  if (room.clients.delete(client.id)) {
+    broadcast(room, { type: "leave", id: client.id });
+    pruneRemovals(room);
+    console.log(`${client.name} left ${roomName} (${room.clients.size} in)`);
+  }
+
+  // A seed cut short is dropped, and the next editor in line seeds instead
+  if (room.seeder === client) {
+    room.seeder = null;
+    room.cells.clear();
+    room.values.clear();
+    room.grid = null;
+    const next = room.waiting.shift();
+    if (next) {
+      room.seeder = next;
+      welcome(roomName, next, true);
+    }
+  }
+  if (
+    room.clients.size === 0 &&
+    room.waiting.length === 0 &&
+    rooms.get(roomName) === room
+  ) {
+    rooms.delete(roomName);
+  }
+}
+
+function acceptConnection(request, socket, roomName) {
+  const accept = createHash("sha1")
+    .update(request.headers["sec-websocket-key"] + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  /** @type {Client} */
+  const client = {
+    id: randomBytes(6).toString("hex"),
+    name: "Guest",
+    color: COLORS[0],
+    presence: null,
+    socket,
+    alive: true,
+    room: null,
+    ack: 0,
+  };
+
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  const close = (code) => {
+    if (!socket.destroyed) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      socket.end(encodeFrame(0x8, payload));
+    }
+    leave(roomName, client);
+  };
+
+  socket.on("data", (data) => {
+    buffered = Buffer.concat([buffered, data]);
+    let frames;
+    try {
+      ({ frames, rest: buffered } = decodeFrames(buffered));
+    } catch {
+      close(1009);
+      return;
+    }
+    for (const { fin, opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        close(1000);
+        return;
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      } else if (opcode === 0xa) {
+        client.alive = true;
+      } else if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        const size = fragments.reduce((sum, part) => sum + part.length, 0);
+        if (size > MAX_MESSAGE_BYTES) {
+          close(1009);
+          return;
+        }
+        if (fin) {
+          const text = Buffer.concat(fragments).toString("utf8");
+          handleMessage(roomName, client, text);
+          fragments = [];
+        }
+      } else {
+        close(1003); // Binary frames aren't part of the protocol
+        return;
+      }
+    }
+  });
+
+  // Close connections that don't join their room
+  const helloTimer = setTimeout(() => {
+    if (!client.room) close(1008);
+  }, HELLO_TIMEOUT);
+
+  // Drop editors whose connection died without closing
+  const pingTimer = setInterval(() => {
+    if (!client.alive) {
+      socket.destroy();
+      return;
+    }
+    client.alive = false;
+    socket.write(encodeFrame(0x9, Buffer.alloc(0)));
+  }, PING_INTERVAL);
+
+  socket.on("close", () => {
+    clearTimeout(helloTimer);
+    clearInterval(pingTimer);
+    leave(roomName, client);
+  });
+  socket.on("error", () => socket.destroy());
+}
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end(
+    `Collaboration server: connect over WebSocket to /<room> ` +
+      `(${rooms.size} rooms open)\n`
+  );
+});
+
+server.on("upgrade", (request, socket) => {
+  const roomName = new URL(request.url ?? "/", "http://localhost").pathname
+    .slice(1);
+  if (
+    request.headers.upgrade?.toLowerCase() !== "websocket" ||
+    !request.headers["sec-websocket-key"] ||
+    !ROOM_PATTERN.test(roomName)
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  acceptConnection(request, socket, roomName);
+});
+
+server.listen(PORT, () => {
+  console.log(`Collaboration server listening on ws://localhost:${PORT}`);
+});